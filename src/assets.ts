@@ -0,0 +1,128 @@
+/**
+ * Assets Directory — Where downloaded logos are saved
+ *
+ * Shared by the tools, which write logos here, and the MCP resources, which
+ * list and serve them. Files are named after the company, logo variant and
+ * size (`<company>[--<variant>][--<px>].<ext>`, see `sanitizeFilename` and
+ * `sizeSuffix`). Sanitized company names never contain `-`, so "Acme Dark"
+ * (`acme_dark`) can't collide with Acme's dark variant (`acme--dark`), nor
+ * "Web 32" (`web_32`) with Web's 32 px logo (`web--32`).
+ */
+
+import { mkdir, readdir } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { LOGO_VARIANTS, type LogoVariant } from "./services/logo-variant.js";
+
+/**
+ * Determine the assets directory. 
+ * Defaults to ./assets relative to the project root, 
+ * but can be overridden via MCP_LOGO_ASSETS_DIR env var.
+ */
+export function getAssetsDir(): string {
+    if (process.env.MCP_LOGO_ASSETS_DIR) {
+        return resolve(process.env.MCP_LOGO_ASSETS_DIR);
+    }
+
+    // Fallback to project-root/assets
+    const __filename = fileURLToPath(import.meta.url);
+    const __dirname = dirname(__filename);
+    // Since we are in src/assets.ts (or dist/assets.js), PROJECT_ROOT is one level up
+    return resolve(__dirname, "..", "assets");
+}
+
+export async function ensureAssetsDir(): Promise<string> {
+    const dir = getAssetsDir();
+    await mkdir(dir, { recursive: true });
+    return dir;
+}
+
+// ─── Filename Sanitization ──────────────────────────────────────────────────
+
+/** Pixel sizes the tools accept. */
+export const ASSET_SIZES = { min: 8, max: 1024 };
+
+/** Separates suffixes from the company name; `sanitizeFilename` never produces it in a name. */
+const SUFFIX_SEPARATOR = "--";
+
+/**
+ * Base filename for a company's logo, e.g. `hubspot`, or `hubspot--dark`
+ * for a variant.
+ */
+export function sanitizeFilename(name: string, variant?: LogoVariant): string {
+    const base = name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "_")
+        .replace(/^_+|_+$/g, "");
+    return variant ? `${base}${SUFFIX_SEPARATOR}${variant}` : base;
+}
+
+/**
+ * Filename suffix of one of several sizes saved at once, e.g. `--32`.
+ */
+export function sizeSuffix(px: number): string {
+    return `${SUFFIX_SEPARATOR}${px}`;
+}
+
+// ─── Listing ─────────────────────────────────────────────────────────────────
+
+const MIME_TYPES: Record<string, string> = {
+    png: "image/png",
+    jpg: "image/jpeg",
+    gif: "image/gif",
+    webp: "image/webp",
+    ico: "image/x-icon",
+    bmp: "image/bmp",
+    svg: "image/svg+xml",
+    tiff: "image/tiff",
+    avif: "image/avif",
+};
+
+export interface AssetFile {
+    filename: string;
+    /** Sanitized company name the file belongs to. */
+    company: string;
+    /** Logo variant from a `--<variant>` suffix; unset for the default logo. */
+    variant?: LogoVariant;
+    /** Pixel size from a `--<px>` suffix, for multi-size outputs. */
+    px?: number;
+    mimeType: string;
+}
+
+const ASSET_FILENAME = new RegExp(
+    `^(.*?)(?:${SUFFIX_SEPARATOR}(${LOGO_VARIANTS.join("|")}))?(?:${SUFFIX_SEPARATOR}(\\d+))?\\.([a-z0-9]+)$`,
+    "i"
+);
+
+/**
+ * Parse an asset filename (`stripe--dark--32.png`) into its company, variant and size.
+ */
+export function parseAssetFilename(filename: string): AssetFile {
+    const match = filename.match(ASSET_FILENAME);
+    const company = match?.[1] || filename;
+    const extension = match?.[4]?.toLowerCase() ?? "";
+    return {
+        filename,
+        company,
+        ...(match?.[2] ? { variant: match[2].toLowerCase() as LogoVariant } : {}),
+        px: match?.[3] ? Number(match[3]) : undefined,
+        mimeType: MIME_TYPES[extension] ?? "application/octet-stream",
+    };
+}
+
+/**
+ * List the files in the assets directory (hidden files excluded), sorted by name.
+ * A missing directory lists as empty.
+ */
+export async function listAssetFiles(dir: string = getAssetsDir()): Promise<AssetFile[]> {
+    try {
+        const entries = await readdir(dir, { withFileTypes: true });
+        return entries
+            .filter((entry) => entry.isFile() && !entry.name.startsWith("."))
+            .map((entry) => parseAssetFilename(entry.name))
+            .sort((a, b) => a.filename.localeCompare(b.filename));
+    } catch {
+        return [];
+    }
+}
@@ -0,0 +1,109 @@
+/**
+ * Logo Pack Builder — Bundles the curated database's logos for offline use
+ *
+ * Run while a network is available; the resulting pack is what offline mode
+ * (MCP_LOGO_OFFLINE=1, MCP_LOGO_PACK=<path>) reads from.
+ *
+ * Usage:
+ *   npm run build-pack -- --out ./logo-pack.tar.gz [--size large|<px>]
+ *       [--strategy cascade|best] [--category Payments] [--companies stripe,github]
+ *       [--concurrency 5]
+ *
+ * Source, cache and company database settings are read from the usual
+ * MCP_LOGO_* env vars, so packs include companies from user database files.
+ */
+
+import { parseArgs } from "node:util";
+import { resolve } from "node:path";
+
+import { listCompanies } from "./services/domain-resolver.js";
+import { loadCompanyDatabaseFromEnv } from "./services/company-database.js";
+import {
+    fetchLogo,
+    loadSourceConfigFromEnv,
+    toPixels,
+    type FetchStrategy,
+    type LogoSize,
+} from "./services/logo-fetcher.js";
+import { loadCacheConfigFromEnv } from "./services/logo-cache.js";
+import { writeLogoPack, type PackLogoInput } from "./services/logo-pack.js";
+
+function parseSize(value: string): LogoSize | number {
+    if (value === "small" || value === "medium" || value === "large") return value;
+    const px = Number(value);
+    if (!Number.isInteger(px) || px < 8 || px > 1024) {
+        throw new Error(`--size must be small, medium, large or a pixel size between 8 and 1024, got "${value}"`);
+    }
+    return px;
+}
+
+async function main() {
+    const { values } = parseArgs({
+        options: {
+            out: { type: "string", default: "logo-pack" },
+            size: { type: "string", default: "large" },
+            strategy: { type: "string", default: "best" },
+            category: { type: "string" },
+            companies: { type: "string" },
+            concurrency: { type: "string", default: "5" },
+        },
+    });
+
+    const out = resolve(values.out);
+    const size = parseSize(values.size);
+    const strategy = values.strategy as FetchStrategy;
+    if (strategy !== "cascade" && strategy !== "best") {
+        throw new Error(`--strategy must be "cascade" or "best", got "${values.strategy}"`);
+    }
+    const concurrency = Math.max(1, Number(values.concurrency) || 5);
+
+    loadSourceConfigFromEnv();
+    loadCacheConfigFromEnv();
+    loadCompanyDatabaseFromEnv(process.env, { watch: false });
+
+    const wanted = values.companies?.split(",").map((c) => c.trim().toLowerCase()).filter(Boolean);
+    const companies = listCompanies(values.category).filter((c) => !wanted || wanted.includes(c.name));
+    if (companies.length === 0) {
+        throw new Error("No companies match the given --category / --companies filters");
+    }
+
+    console.log(`📦 Building logo pack: ${companies.length} companies → ${out}`);
+
+    const logos: PackLogoInput[] = [];
+    const failures: string[] = [];
+
+    for (let i = 0; i < companies.length; i += concurrency) {
+        const chunk = companies.slice(i, i + concurrency);
+        await Promise.all(
+            chunk.map(async ({ name, domain }) => {
+                // Always fetch from the network, even if offline mode is set in the environment
+                const result = await fetchLogo(domain, name, size, { strategy, offline: false });
+                if (result.success && result.logo) {
+                    logos.push({ company: name, domain, logo: result.logo });
+                    console.log(`   ✅ ${name} (${domain}) — ${result.logo.source}`);
+                } else {
+                    failures.push(name);
+                    console.log(`   ❌ ${name} (${domain}) — ${result.error || "Unknown error"}`);
+                }
+            })
+        );
+    }
+
+    if (logos.length === 0) {
+        throw new Error("No logos could be fetched — is the network available?");
+    }
+
+    logos.sort((a, b) => a.company.localeCompare(b.company));
+    await writeLogoPack(out, logos, toPixels(size));
+
+    console.log("");
+    console.log(`✅ Packed ${logos.length}/${companies.length} logos into ${out}`);
+    if (failures.length > 0) {
+        console.log(`⚠️  Missing: ${failures.join(", ")}`);
+    }
+}
+
+main().catch((err) => {
+    console.error("Fatal error:", err instanceof Error ? err.message : err);
+    process.exit(1);
+});
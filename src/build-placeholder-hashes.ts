@@ -0,0 +1,207 @@
+/**
+ * Placeholder Hash Builder — Regenerates the placeholder detector's blocklist
+ *
+ * Downloads (or reads) each known placeholder image, hashes it and writes
+ * the result.
+ *
+ * Usage:
+ *   npm run build-placeholders
+ *       Hash PLACEHOLDER_SOURCES into src/services/placeholder-hashes.ts
+ *   npm run build-placeholders -- --out ./my-placeholders.json "Parking page=https://…/favicon.ico" "Theme icon=./icon.png"
+ *       Hash the given name=source pairs into a JSON file for MCP_LOGO_PLACEHOLDER_HASHES
+ *
+ * A source is an http(s) URL, a file path, or `npm:<package>/<file>.svg#<fill>`
+ * for an SVG shipped in an installed package, drawn in the given fill colour.
+ * Each placeholder lists its sources in order of preference: the live icon
+ * first, then the same mark from an npm package, so the list can be rebuilt
+ * without network access (less precisely — the packaged marks are flat
+ * single-colour versions of the icons).
+ *
+ * Output ending in .json is a JSON array; anything else is a TypeScript module
+ * in the form of placeholder-hashes.ts.
+ */
+
+import { parseArgs } from "node:util";
+import { readFile, writeFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { validateImage } from "./services/image-validator.js";
+import { hashLogo, type ImageHashes } from "./services/perceptual-hash.js";
+import type { PlaceholderHash } from "./services/placeholder-detector.js";
+
+interface PlaceholderSource {
+    /** Where to read the image, in order of preference. */
+    sources: string[];
+    /** Domains whose own logo this is (see PlaceholderHash.owners). */
+    owners?: string[];
+}
+
+/**
+ * Images bundled into the blocklist: Google's default globe, served (with a
+ * 404 status) for domains it has no favicon for, and the stock favicons of
+ * site builders, hosts and parking pages, which are the platform's own mark.
+ */
+const PLACEHOLDER_SOURCES: Record<string, PlaceholderSource> = {
+    "Google default globe": {
+        sources: [
+            "https://www.google.com/s2/favicons?domain=placeholder-check.invalid&sz=128",
+            "npm:@material-design-icons/svg/filled/public.svg#5f6368",
+        ],
+    },
+    "WordPress default site icon": {
+        sources: [
+            "https://raw.githubusercontent.com/WordPress/wordpress-develop/trunk/src/wp-includes/images/w-logo-blue-white-bg.png",
+            "npm:simple-icons/icons/wordpress.svg#21759b",
+        ],
+        owners: ["wordpress.org", "wordpress.com"],
+    },
+    "Wix default favicon": {
+        sources: ["https://www.wix.com/favicon.ico", "npm:simple-icons/icons/wix.svg#0c6efc"],
+        owners: ["wix.com"],
+    },
+    "Squarespace default favicon": {
+        sources: [
+            "https://images.squarespace-cdn.com/universal/default-favicon.ico",
+            "npm:simple-icons/icons/squarespace.svg#000000",
+        ],
+        owners: ["squarespace.com"],
+    },
+    "Shopify default favicon": {
+        sources: ["https://cdn.shopify.com/static/shopify-favicon.png", "npm:simple-icons/icons/shopify.svg#7ab55c"],
+        owners: ["shopify.com", "myshopify.com"],
+    },
+    "GoDaddy parking page icon": {
+        sources: ["https://www.godaddy.com/favicon.ico", "npm:simple-icons/icons/godaddy.svg#1bdbdb"],
+        owners: ["godaddy.com"],
+    },
+    "nginx default icon": {
+        sources: ["https://nginx.org/favicon.ico", "npm:simple-icons/icons/nginx.svg#009639"],
+        owners: ["nginx.org", "nginx.com"],
+    },
+};
+
+const DEFAULT_OUT = resolve(dirname(fileURLToPath(import.meta.url)), "services/placeholder-hashes.ts");
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Read a placeholder image from a URL, a local file or an npm package. Error
+ * statuses are accepted, since placeholders are often served with one.
+ */
+async function loadSource(source: string): Promise<Buffer> {
+    if (source.startsWith("npm:")) {
+        const [path, fill] = source.slice(4).split("#");
+        const svg = await readFile(require.resolve(path), "utf-8");
+        return Buffer.from(fill ? svg.replace(/<svg\b/, `<svg fill="#${fill}"`) : svg);
+    }
+    if (!/^https?:\/\//i.test(source)) return readFile(resolve(source));
+
+    const response = await fetch(source, {
+        headers: { "User-Agent": "MCP-Logo-Downloader/1.0", Accept: "image/*,*/*;q=0.8" },
+        redirect: "follow",
+        signal: AbortSignal.timeout(10000),
+    });
+    return Buffer.from(await response.arrayBuffer());
+}
+
+async function hashSource(source: string): Promise<ImageHashes> {
+    const buffer = await loadSource(source);
+    const validation = validateImage(buffer);
+    if (!validation.valid || !validation.info) {
+        throw new Error(validation.reason || "Not a valid image");
+    }
+    const hashes = await hashLogo(buffer, validation.info);
+    if (!hashes) throw new Error(`${validation.info.format} images can't be hashed`);
+    return hashes;
+}
+
+function parseSources(args: string[]): Record<string, PlaceholderSource> {
+    const sources: Record<string, PlaceholderSource> = {};
+    for (const arg of args) {
+        const eq = arg.indexOf("=");
+        if (eq <= 0 || eq === arg.length - 1) {
+            throw new Error(`Expected name=source, got "${arg}"`);
+        }
+        sources[arg.slice(0, eq).trim()] = { sources: [arg.slice(eq + 1).trim()] };
+    }
+    return sources;
+}
+
+function renderModule(entries: PlaceholderHash[]): string {
+    const lines = entries.map(
+        (e) =>
+            `    { name: ${JSON.stringify(e.name)}, dhash: "${e.dhash}", phash: "${e.phash}"` +
+            (e.owners ? `, owners: [${e.owners.map((o) => JSON.stringify(o)).join(", ")}]` : "") +
+            " },"
+    );
+    return [
+        "/**",
+        " * Placeholder Hashes — Bundled blocklist for the placeholder detector",
+        " *",
+        " * Generated by `npm run build-placeholders` (src/build-placeholder-hashes.ts)",
+        " * from the images listed in PLACEHOLDER_SOURCES there (the first source of each",
+        " * that could be read); regenerate rather than edit by hand. Extra entries can",
+        " * be supplied at runtime with MCP_LOGO_PLACEHOLDER_HASHES.",
+        " */",
+        "",
+        'import type { PlaceholderHash } from "./placeholder-detector.js";',
+        "",
+        entries.length === 0
+            ? "export const BUILTIN_PLACEHOLDERS: PlaceholderHash[] = [];"
+            : ["export const BUILTIN_PLACEHOLDERS: PlaceholderHash[] = [", ...lines, "];"].join("\n"),
+        "",
+    ].join("\n");
+}
+
+async function main() {
+    const { values, positionals } = parseArgs({
+        options: { out: { type: "string" } },
+        allowPositionals: true,
+    });
+
+    const sources = positionals.length > 0 ? parseSources(positionals) : PLACEHOLDER_SOURCES;
+    const out = values.out ? resolve(values.out) : DEFAULT_OUT;
+
+    console.log(`🔏 Hashing ${Object.keys(sources).length} placeholder images → ${out}`);
+
+    const entries: PlaceholderHash[] = [];
+    const failures: string[] = [];
+
+    for (const [name, { sources: candidates, owners }] of Object.entries(sources)) {
+        const errors: string[] = [];
+        for (const source of candidates) {
+            try {
+                const hashes = await hashSource(source);
+                entries.push({ name, ...hashes, ...(owners ? { owners } : {}) });
+                console.log(`   ✅ ${name} — dHash ${hashes.dhash}, pHash ${hashes.phash} (${source})`);
+                break;
+            } catch (err) {
+                errors.push(`${source}: ${err instanceof Error ? err.message : String(err)}`);
+            }
+        }
+        if (errors.length === candidates.length) {
+            failures.push(name);
+            console.log(`   ❌ ${name} — ${errors.join("; ")}`);
+        }
+    }
+
+    if (entries.length === 0) {
+        throw new Error("No placeholder images could be hashed");
+    }
+
+    const content = out.endsWith(".json") ? JSON.stringify(entries, null, 2) + "\n" : renderModule(entries);
+    await writeFile(out, content, "utf-8");
+
+    console.log("");
+    console.log(`✅ Wrote ${entries.length} placeholder hashes to ${out}`);
+    if (failures.length > 0) {
+        console.log(`⚠️  Missing: ${failures.join(", ")}`);
+    }
+}
+
+main().catch((err) => {
+    console.error("Fatal error:", err instanceof Error ? err.message : err);
+    process.exit(1);
+});
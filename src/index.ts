@@ -1,60 +1,329 @@
 /**
  * MCP Logo Download Server — Entry Point
  *
- * Registers three MCP tools for downloading and searching company logos:
+ * Registers twelve MCP tools for downloading and searching company logos. Every
+ * tool returns text plus structured content matching its output schema
+ * (see output-schemas.ts):
  * - download_logo: Download a single company's logo
- * - search_companies: Search the curated company database
+ * - search_companies: Search the curated company database, a page at a time
  * - download_bulk_logos: Download logos for multiple companies at once
+ * - list_sources: Show the configured logo sources and their settings
+ * - cache: Inspect, purge or warm the on-disk logo cache
+ * - add_company / update_company / remove_company: Edit the company database
+ * - export_database: Export the user edits or the merged company database
+ * - resolve_company: Show the ranked domain candidates for a company name
+ * - list_categories: List the company categories with their sizes
+ * - get_brand_colors: Extract a company's brand colours from its logo
+ *
+ * Logos, the assets directory and the company database are also exposed as
+ * MCP resources (see resources.ts).
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
-import { mkdir, writeFile } from "node:fs/promises";
-import { join, resolve, dirname } from "node:path";
-import { fileURLToPath } from "node:url";
+import { writeFile } from "node:fs/promises";
+import { join } from "node:path";
 
 import {
     resolveDomain,
-    searchCompanies,
+    resolveCandidates,
+    searchCompanyPage,
+    listCategoryCounts,
     getCategories,
     getCompanyCount,
+    addCompany,
+    updateCompany,
+    removeCompany,
+    exportCompanyDatabase,
+    type CompanyEntry,
+    type DomainCandidate,
+    type ResolvedDomain,
+    type SearchPage,
 } from "./services/domain-resolver.js";
-import { fetchLogo, summarizeFetchResult } from "./services/logo-fetcher.js";
-import { formatFileSize } from "./services/image-validator.js";
+import { describeVerification, getVerificationConfig, loadVerificationConfigFromEnv } from "./services/domain-verifier.js";
+import {
+    fetchLogo,
+    listSources,
+    loadSourceConfigFromEnv,
+    summarizeCandidates,
+    summarizeFetchResult,
+    toPixels,
+    type LogoResult,
+    type LogoSize,
+} from "./services/logo-fetcher.js";
+import { describeImageMetadata, formatFileSize, type ImageInfo } from "./services/image-validator.js";
+import { describeSvgReport } from "./services/svg-sanitizer.js";
+import { hashLogo, type ImageHashes } from "./services/perceptual-hash.js";
+import { describePalette } from "./services/brand-colors.js";
+import { LOGO_VARIANTS, describeVariant, type LogoVariant } from "./services/logo-variant.js";
+import {
+    describeDisagreement,
+    describeDuplicate,
+    findAssetDuplicates,
+    findDuplicateLogos,
+    type AssetLogoFile,
+    type DuplicateLogo,
+} from "./services/logo-dedup.js";
+import { getPlaceholderBlocklist, getPlaceholderConfig, loadPlaceholderConfigFromEnv } from "./services/placeholder-detector.js";
+import { convertImage, createIcon, outputFormatOf, parseHexColor } from "./services/image-converter.js";
+import {
+    getCacheConfig,
+    getCacheStats,
+    listCacheEntries,
+    loadCacheConfigFromEnv,
+    purgeCache,
+} from "./services/logo-cache.js";
+import { getOfflineConfig, isOfflineMode, loadOfflineConfigFromEnv } from "./services/logo-pack.js";
+import {
+    getCompanyDatabaseStatus,
+    getUserDatabasePath,
+    loadCompanyDatabaseFromEnv,
+    serializeCompanyDatabase,
+} from "./services/company-database.js";
+import {
+    bulkDownloadOutputSchema,
+    cacheOutputSchema,
+    companyChangeOutputSchema,
+    downloadLogoOutputSchema,
+    exportDatabaseOutputSchema,
+    getBrandColorsOutputSchema,
+    listCategoriesOutputSchema,
+    listSourcesOutputSchema,
+    resolveCompanyOutputSchema,
+    searchCompaniesOutputSchema,
+    toAttemptsOutput,
+    toCandidatesOutput,
+    toDomainCandidatesOutput,
+    toImageInfoOutput,
+    toResolvedOutput,
+    type BulkDownloadOutput,
+    type CacheOutput,
+    type CompanyChangeOutput,
+    type DownloadLogoOutput,
+    type ExportDatabaseOutput,
+    type GetBrandColorsOutput,
+    type InlineLogo,
+    type ListCategoriesOutput,
+    type ListSourcesOutput,
+    type ResolveCompanyOutput,
+    type SavedFile,
+    type SearchCompaniesOutput,
+} from "./output-schemas.js";
+import { ASSET_SIZES, ensureAssetsDir, getAssetsDir, listAssetFiles, sanitizeFilename, sizeSuffix } from "./assets.js";
+import { notifyLogoSaved, registerResources } from "./resources.js";
+
+// ─── Output Conversion ──────────────────────────────────────────────────────
+
+const FORMAT_OPTIONS = ["png", "jpg", "webp", "ico", "original"] as const;
+type FormatOption = (typeof FORMAT_OPTIONS)[number];
+
+const sizeSchema = z.union([
+    z.enum(["small", "medium", "large"]),
+    z.number().int().min(ASSET_SIZES.min).max(ASSET_SIZES.max),
+]);
+
+const sizesSchema = z.array(z.number().int().min(ASSET_SIZES.min).max(ASSET_SIZES.max)).min(1).max(10);
 
-// ─── Assets Directory ────────────────────────────────────────────────────────
+const backgroundSchema = z
+    .string()
+    .trim()
+    .regex(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i, 'Expected a hex colour like "#ffffff"')
+    .optional()
+    .default("#ffffff")
+    .describe("Hex colour used to fill transparent areas when converting to 'jpg'. Defaults to '#ffffff'.");
+
+const strategySchema = z
+    .enum(["cascade", "best"])
+    .optional()
+    .default("cascade")
+    .describe(
+        "How to pick a source: 'cascade' returns the first valid logo (fast); " +
+        "'best' queries all sources in parallel and returns the highest-quality one. Defaults to 'cascade'."
+    );
+
+const refreshSchema = z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Bypass the logo cache and fetch from the sources again (the cache is updated). Defaults to false.");
+
+const offlineSchema = z
+    .boolean()
+    .optional()
+    .describe(
+        "Offline mode: take logos only from the local logo pack (MCP_LOGO_PACK) and skip live search and network sources. " +
+        "Defaults to the MCP_LOGO_OFFLINE setting."
+    );
+
+const variantSchema = z
+    .enum(LOGO_VARIANTS)
+    .optional()
+    .describe(
+        "Which mark to look for: 'icon' (square symbol), 'wordmark' (wide text logo), 'full' (symbol and name), " +
+        "'light' or 'dark' (for light or dark backgrounds) or 'mono' (single colour). Steers the source order and " +
+        "homepage discovery, and picks matching pinned logos; files are suffixed with the variant. Omit for the default logo."
+    );
+
+const strictSchema = z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+        "Refuse to download when the name is ambiguous (the top two matches score within 10 points, or the best scores under 70; or the name is " +
+        "three letters or fewer, only an alias, or a word of another company's name) or the domain is only a guess, " +
+        "and return the ranked matches instead. Defaults to false."
+    );
+
+const inlineSchema = z
+    .enum(["none", "image", "resource"])
+    .optional()
+    .default("none")
+    .describe(
+        "Also return the logo in the response, for clients that can't read the server's disk: " +
+        "'image' as an MCP image content block, 'resource' as an embedded resource (base64 blob). Defaults to 'none'."
+    );
+
+const saveSchema = z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe("Save the logo to the assets directory. Set to false with 'inline' to only return it. Defaults to true.");
+
+interface OutputOptions {
+    format: FormatOption;
+    size: LogoSize | number;
+    sizes?: number[];
+    background: string;
+}
+
+interface RenderedLogo {
+    buffer: Buffer;
+    imageInfo: ImageInfo;
+    converted: boolean;
+    /** Filename suffix distinguishing multi-size outputs (e.g. "--32"). */
+    suffix: string;
+}
 
 /**
- * Determine the assets directory. 
- * Defaults to ./assets relative to the project root, 
- * but can be overridden via MCP_LOGO_ASSETS_DIR env var.
+ * Transcode and resize a fetched logo into the requested output files.
+ *
+ * - 'original' keeps the source format, but still resizes decodable rasters
+ * - SVG is kept with 'original', and rasterized at the requested size otherwise
+ * - Formats we cannot decode are passed through untouched
+ * - Multiple sizes produce one file per size, or a single multi-size ICO
  */
-function getAssetsDir(): string {
-    if (process.env.MCP_LOGO_ASSETS_DIR) {
-        return resolve(process.env.MCP_LOGO_ASSETS_DIR);
+async function renderLogo(logo: LogoResult, options: OutputOptions): Promise<RenderedLogo[]> {
+    const format = options.format === "original" ? outputFormatOf(logo.imageInfo) : options.format;
+
+    if (!format) {
+        return [{ buffer: logo.buffer, imageInfo: logo.imageInfo, converted: false, suffix: "" }];
+    }
+
+    // Only JPEG has no alpha channel, so only JPEG output needs the background
+    const background = format === "jpg" ? parseHexColor(options.background) : undefined;
+
+    if (!options.sizes) {
+        const px = toPixels(options.size);
+        const output = await convertImage(logo.buffer, logo.imageInfo, format, { background, size: px });
+        return [{ ...output, suffix: "" }];
+    }
+
+    if (format === "ico") {
+        const output = await createIcon(logo.buffer, logo.imageInfo, options.sizes);
+        return [{ ...output, suffix: "" }];
     }
 
-    // Fallback to project-root/assets
-    const __filename = fileURLToPath(import.meta.url);
-    const __dirname = dirname(__filename);
-    // Since we are in src/index.ts (or dist/index.js), PROJECT_ROOT is one level up
-    return resolve(__dirname, "..", "assets");
+    const outputs: RenderedLogo[] = [];
+    for (const px of Array.from(new Set(options.sizes))) {
+        const output = await convertImage(logo.buffer, logo.imageInfo, format, { background, size: px });
+        outputs.push({ ...output, suffix: sizeSuffix(px) });
+    }
+    return outputs;
 }
 
-async function ensureAssetsDir(): Promise<string> {
-    const dir = getAssetsDir();
-    await mkdir(dir, { recursive: true });
-    return dir;
+/**
+ * Describe ranked company matches, one line each.
+ */
+function formatDomainCandidates(candidates: DomainCandidate[]): string[] {
+    return candidates.map(
+        (c, i) => `   ${i + 1}. ${c.company} (${c.domain}) — ${c.score} pts, ${c.confidence}: ${c.reason}`
+    );
 }
 
-// ─── Filename Sanitization ──────────────────────────────────────────────────
+/**
+ * Describe the domain checks behind a live-search or inferred resolution;
+ * empty for database matches.
+ */
+function formatVerification(resolved: ResolvedDomain): string[] {
+    const { verification } = resolved;
+    if (!verification) return [];
+    const icon = verification.verdict === "verified" ? "🔐" : "⚠️ ";
+    return [`${icon} Domain check: ${describeVerification(verification)}`];
+}
 
-function sanitizeFilename(name: string): string {
-    return name
-        .toLowerCase()
-        .replace(/[^a-z0-9]+/g, "_")
-        .replace(/^_+|_+$/g, "");
+function outputFilename(company: string, output: RenderedLogo, variant?: LogoVariant): string {
+    return `${sanitizeFilename(company, variant)}${output.suffix}.${output.imageInfo.extension}`;
+}
+
+/**
+ * Write rendered logos to the assets directory and return the saved files.
+ */
+async function saveRenderedLogos(
+    assetsDir: string,
+    company: string,
+    outputs: RenderedLogo[],
+    variant?: LogoVariant
+): Promise<SavedFile[]> {
+    const files: SavedFile[] = [];
+    for (const output of outputs) {
+        const filepath = join(assetsDir, outputFilename(company, output, variant));
+        await writeFile(filepath, output.buffer);
+        files.push({ path: filepath, imageInfo: toImageInfoOutput(output.imageInfo) });
+    }
+    return files;
+}
+
+/**
+ * The image files in the assets directory, by company, for duplicate checks.
+ */
+async function listAssetLogos(assetsDir: string): Promise<AssetLogoFile[]> {
+    return (await listAssetFiles(assetsDir))
+        .filter((file) => file.mimeType.startsWith("image/"))
+        .map((file) => ({ company: file.company, path: join(assetsDir, file.filename) }));
+}
+
+type InlineContent =
+    | { type: "image"; data: string; mimeType: string }
+    | { type: "resource"; resource: { uri: string; mimeType: string; blob: string } };
+
+/**
+ * Encode rendered logos as MCP content blocks, so clients on another machine
+ * get the bytes without reading the server's disk.
+ */
+function inlineRenderedLogos(
+    company: string,
+    outputs: RenderedLogo[],
+    as: "image" | "resource",
+    variant?: LogoVariant
+): { content: InlineContent[]; inline: InlineLogo[] } {
+    const content: InlineContent[] = [];
+    const inline: InlineLogo[] = [];
+
+    for (const output of outputs) {
+        const uri = `logo://${outputFilename(company, output, variant)}`;
+        const { mimeType } = output.imageInfo;
+        const data = output.buffer.toString("base64");
+
+        content.push(
+            as === "image"
+                ? { type: "image", data, mimeType }
+                : { type: "resource", resource: { uri, mimeType, blob: data } }
+        );
+        inline.push({ uri, as, mimeType, imageInfo: toImageInfoOutput(output.imageInfo) });
+    }
+
+    return { content, inline };
 }
 
 // ─── MCP Server Setup ───────────────────────────────────────────────────────
@@ -66,66 +335,164 @@ const server = new McpServer({
 
 // ── Tool 1: download_logo ────────────────────────────────────────────────────
 
-server.tool(
+server.registerTool(
     "download_logo",
-    "Download the logo of a company or integration (e.g., Shopify, HubSpot, Stripe). " +
-    "Saves the logo as an image file to the assets directory. " +
-    "Supports 200+ pre-mapped companies with fuzzy matching for typo tolerance.",
     {
-        company: z.string().describe(
-            "The name of the company or integration to download the logo for. " +
-            "Examples: 'shopify', 'hubspot', 'stripe', 'github', 'slack'"
-        ),
-        size: z
-            .enum(["small", "medium", "large"])
-            .optional()
-            .default("large")
-            .describe("Desired logo size: 'small' (64px), 'medium' (128px), 'large' (256px). Defaults to 'large'."),
-        format: z
-            .enum(["png", "jpg", "original"])
-            .optional()
-            .default("original")
-            .describe("Desired output format. 'original' keeps the source format. Defaults to 'original'."),
+        description:
+            "Download the logo of a company or integration (e.g., Shopify, HubSpot, Stripe). " +
+            "Saves the logo as an image file to the assets directory. " +
+            "Supports 200+ pre-mapped companies with fuzzy matching for typo tolerance.",
+        inputSchema: {
+            company: z.string().describe(
+                "The name of the company or integration to download the logo for, or its domain, website URL or an email address at it. " +
+                "Examples: 'shopify', 'hubspot', 'stripe.com', 'https://github.com', 'jane@acme.io'"
+            ),
+            size: sizeSchema
+                .optional()
+                .default("large")
+                .describe(
+                    "Desired logo size: 'small' (64px), 'medium' (128px), 'large' (256px), or a custom pixel size. " +
+                    "Raster logos are resized to exactly this square dimension. Defaults to 'large'."
+                ),
+            sizes: sizesSchema
+                .optional()
+                .describe(
+                    "Produce several pixel sizes in one call, e.g. [16, 32, 64, 128, 256]. " +
+                    "Saves one file per size (suffixed '--<px>'), or a single multi-size icon when format is 'ico'."
+                ),
+            format: z
+                .enum(FORMAT_OPTIONS)
+                .optional()
+                .default("original")
+                .describe(
+                    "Desired output format: 'png', 'jpg', 'webp' or 'ico'. The logo is transcoded, not just renamed; SVG logos are rasterized at the requested size. " +
+                    "'original' keeps the source format. Defaults to 'original'."
+                ),
+            background: backgroundSchema,
+            strategy: strategySchema,
+            refresh: refreshSchema,
+            variant: variantSchema,
+            offline: offlineSchema,
+            strict: strictSchema,
+            inline: inlineSchema,
+            save: saveSchema,
+        },
+        outputSchema: downloadLogoOutputSchema,
     },
-    async ({ company, size, format }) => {
+    async ({ company, size, sizes, format, background, strategy, refresh, variant, offline = isOfflineMode(), strict, inline, save }) => {
         try {
+            if (!save && inline === "none") {
+                throw new Error("Nothing to return — set 'inline' to 'image' or 'resource', or leave 'save' enabled");
+            }
+
             // Resolve company name to domain
-            const resolved = await resolveDomain(company);
-            const assetsDir = await ensureAssetsDir();
+            const { resolved, candidates: matches, ambiguity } = await resolveCandidates(company, { offline });
+
+            // Strict mode: don't guess between close matches or download for a guessed domain
+            if (strict && ambiguity) {
+                const structured: DownloadLogoOutput = {
+                    success: false,
+                    input: company,
+                    resolved: toResolvedOutput(resolved),
+                    files: [],
+                    matches: toDomainCandidatesOutput(matches),
+                    attempts: [],
+                    error: `Ambiguous company name: ${ambiguity}`,
+                };
+                return {
+                    structuredContent: structured,
+                    content: [
+                        {
+                            type: "text" as const,
+                            text: [
+                                `⚠️  Not downloading "${company}" (strict mode): ${ambiguity}`,
+                                "",
+                                `🎯 Candidates:`,
+                                ...formatDomainCandidates(matches),
+                                "",
+                                "💡 Retry with the exact company name or domain, or without strict mode to take the top match",
+                            ].join("\n"),
+                        },
+                    ],
+                };
+            }
 
             // Fetch the logo
-            const result = await fetchLogo(resolved.domain, resolved.company, size);
+            const result = await fetchLogo(resolved.domain, resolved.company, size, { strategy, refresh, offline, variant });
 
             if (!result.success || !result.logo) {
+                const structured: DownloadLogoOutput = {
+                    success: false,
+                    input: company,
+                    resolved: toResolvedOutput(resolved),
+                    files: [],
+                    candidates: result.candidates && toCandidatesOutput(result.candidates),
+                    matches: strict ? toDomainCandidatesOutput(matches) : undefined,
+                    attempts: toAttemptsOutput(result.attempts),
+                    error: result.error,
+                };
                 return {
+                    structuredContent: structured,
                     content: [
                         {
                             type: "text" as const,
                             text: [
                                 `❌ Could not download logo for "${company}"`,
                                 `   Resolved domain: ${resolved.domain} (confidence: ${resolved.confidence})`,
+                                ...formatVerification(resolved).map((line) => `   ${line}`),
                                 "",
                                 summarizeFetchResult(result),
                                 "",
-                                "💡 Tip: Try providing the exact domain name, e.g., 'shopify.com'",
+                                offline
+                                    ? "💡 Tip: Offline mode only has logos for companies in the logo pack — rebuild it with 'npm run build-pack'"
+                                    : resolved.confidence === "domain"
+                                        ? "💡 Tip: Check that this is the company's main website domain"
+                                        : "💡 Tip: Try providing the exact domain name, e.g., 'shopify.com', or a website URL",
                             ].join("\n"),
                         },
                     ],
                 };
             }
 
-            // Determine file extension
-            const ext =
-                format !== "original"
-                    ? format
-                    : result.logo.imageInfo.extension;
+            // Convert and resize to the requested format and size(s)
+            const outputs = await renderLogo(result.logo, { format, size, sizes, background });
+
+            // Save the logo and/or embed it in the response
+            const files = save ? await saveRenderedLogos(await ensureAssetsDir(), resolved.company, outputs, variant) : [];
+            const filepaths = files.map((f) => f.path);
+            if (save) await notifyLogoSaved(server, resolved.company, filepaths);
+            const embedded = inline !== "none" ? inlineRenderedLogos(resolved.company, outputs, inline, variant) : undefined;
+            const output = outputs[0];
+
+            // Warn when another company's saved logo is the same image
+            const duplicates = await findAssetDuplicates(
+                await hashLogo(result.logo.buffer, result.logo.imageInfo),
+                await listAssetLogos(getAssetsDir()),
+                [sanitizeFilename(resolved.company)]
+            );
 
-            // Save the logo
-            const filename = `${sanitizeFilename(resolved.company)}.${ext}`;
-            const filepath = join(assetsDir, filename);
-            await writeFile(filepath, result.logo.buffer);
+            const structured: DownloadLogoOutput = {
+                success: true,
+                input: company,
+                resolved: toResolvedOutput(resolved),
+                files,
+                inline: embedded?.inline,
+                source: result.logo.source,
+                sourceUrl: result.logo.sourceUrl,
+                pinned: result.logo.pinned,
+                sourceImage: toImageInfoOutput(result.logo.imageInfo),
+                svg: result.logo.svg,
+                palette: result.logo.palette,
+                variant: result.logo.variant,
+                duplicates: duplicates.length > 0 ? duplicates : undefined,
+                disagreement: result.disagreement,
+                candidates: result.candidates && toCandidatesOutput(result.candidates),
+                matches: strict ? toDomainCandidatesOutput(matches) : undefined,
+                attempts: toAttemptsOutput(result.attempts),
+            };
 
             return {
+                structuredContent: structured,
                 content: [
                     {
                         type: "text" as const,
@@ -135,19 +502,40 @@ server.tool(
                             `📦 Company: ${resolved.company}`,
                             `🌐 Domain: ${resolved.domain}`,
                             `🎯 Match confidence: ${resolved.confidence}${resolved.confidence === "fuzzy" ? ` (matched: "${resolved.matchedName}")` : ""}`,
+                            ...formatVerification(resolved),
                             `📂 Category: ${resolved.category}`,
                             "",
-                            `💾 Saved to: ${filepath}`,
-                            `🖼️  Format: ${result.logo.imageInfo.format}`,
-                            `📏 Size: ${formatFileSize(result.logo.imageInfo.sizeBytes)}`,
-                            `🔗 Source: ${result.logo.source}`,
+                            ...(filepaths.length === 0
+                                ? []
+                                : filepaths.length === 1
+                                    ? [`💾 Saved to: ${filepaths[0]}`]
+                                    : [`💾 Saved ${filepaths.length} files:`, ...filepaths.map((f) => `   • ${f}`)]),
+                            ...(embedded
+                                ? [`📨 Returned inline as ${inline === "image" ? "image content" : "embedded resource"}: ${embedded.inline.map((i) => i.uri).join(", ")}`]
+                                : []),
+                            `🖼️  Format: ${output.imageInfo.format}${output.imageInfo.format !== result.logo.imageInfo.format ? ` (converted from ${result.logo.imageInfo.format})` : ""}`,
+                            `📐 Dimensions: ${outputs.map((o) => describeImageMetadata(o.imageInfo)).join(", ")}`,
+                            `📏 Size: ${formatFileSize(outputs.reduce((sum, o) => sum + o.imageInfo.sizeBytes, 0))}`,
+                            `🔗 Source: ${result.logo.source}${result.logo.pinned ? " 📌" : ""}`,
+                            `🔎 Source image: ${result.logo.imageInfo.format} ${describeImageMetadata(result.logo.imageInfo)}`,
+                            ...(result.logo.svg ? [`🧼 SVG sanitized: ${describeSvgReport(result.logo.svg)}`] : []),
+                            ...(result.logo.palette ? [`🎨 Colours: ${describePalette(result.logo.palette)}`] : []),
+                            ...(result.logo.variant
+                                ? [`${result.logo.variant.matched === false ? "⚠️ " : "🧩"} Variant: ${describeVariant(result.logo.variant)}`]
+                                : []),
+                            ...duplicates.map((d) => `⚠️  ${describeDuplicate(d)}`),
+                            ...(result.disagreement ? [`⚠️  ${describeDisagreement(result.disagreement)}`] : []),
+                            ...(result.candidates
+                                ? ["", `🏅 Ranked candidates (${result.candidates.length}):`, ...summarizeCandidates(result.candidates)]
+                                : []),
                             "",
                             `📋 Fetch attempts: ${result.attempts.length}`,
                             ...result.attempts.map(
-                                (a) => `   ${a.success ? "✅" : "⏭️ "} ${a.source} (${a.durationMs}ms)${a.error ? ` — ${a.error}` : ""}`
+                                (a) => `   ${a.success ? "✅" : "⏭️ "} ${a.source} (${a.durationMs}ms)${a.pinned ? " [pinned]" : ""}${a.cached ? ` [cache ${a.cached}]` : ""}${a.error ? ` — ${a.error}` : ""}`
                             ),
                         ].join("\n"),
                     },
+                    ...(embedded?.content ?? []),
                 ],
             };
         } catch (err) {
@@ -167,43 +555,99 @@ server.tool(
 
 // ── Tool 2: search_companies ─────────────────────────────────────────────────
 
-server.tool(
+server.registerTool(
     "search_companies",
-    "Search the curated database of 200+ companies and integrations. " +
-    "Find companies by name, category, or alias. " +
-    "Useful for discovering available logos before downloading.",
     {
-        query: z.string().describe(
-            "Search query — matches against company names, aliases, and categories. " +
-            "Examples: 'shop', 'payment', 'CRM', 'cloud'"
-        ),
-        category: z
-            .string()
-            .optional()
-            .describe(
-                "Optional category filter. Available categories include: " +
-                "E-Commerce, CRM, Marketing, Cloud, DevTools, Payments, Communication, " +
-                "Collaboration, AI, Analytics, Social, Auth, Security, Design, Framework, " +
-                "Language, Storage, CDN, CMS, ERP, Entertainment, Tech"
-            ),
-        limit: z
-            .number()
-            .optional()
-            .default(25)
-            .describe("Maximum number of results to return. Defaults to 25."),
+        description:
+            "Search the curated database of 200+ companies and integrations. " +
+            "Find companies by name, category, or alias. " +
+            "Results come one page at a time with per-category counts (facets); " +
+            "leave the query empty to browse by name. " +
+            "Useful for discovering available logos before downloading.",
+        inputSchema: {
+            query: z
+                .string()
+                .optional()
+                .default("")
+                .describe(
+                    "Search query — matches against company names, aliases, and categories. " +
+                    "Examples: 'shop', 'payment', 'CRM', 'cloud'. Leave empty to list every company."
+                ),
+            category: z
+                .string()
+                .optional()
+                .describe(
+                    "Optional category filter. Available categories include: " +
+                    "E-Commerce, CRM, Marketing, Cloud, DevTools, Payments, Communication, " +
+                    "Collaboration, AI, Analytics, Social, Auth, Security, Design, Framework, " +
+                    "Language, Storage, CDN, CMS, ERP, Entertainment, Tech"
+                ),
+            categories: z
+                .array(z.string())
+                .optional()
+                .describe("Only companies in any of these categories (combined with category). Use list_categories to see them all."),
+            sort: z
+                .enum(["relevance", "name"])
+                .optional()
+                .default("relevance")
+                .describe("'relevance' (default) ranks best matches first; 'name' sorts alphabetically."),
+            offset: z.number().int().min(0).optional().describe("Results to skip. Defaults to 0."),
+            cursor: z
+                .string()
+                .optional()
+                .describe("nextCursor from a previous page, to continue the same search. Takes precedence over offset."),
+            limit: z
+                .number()
+                .int()
+                .min(1)
+                .max(100)
+                .optional()
+                .default(25)
+                .describe("Maximum number of results to return (1–100). Defaults to 25."),
+        },
+        outputSchema: searchCompaniesOutputSchema,
     },
-    async ({ query, category, limit }) => {
-        const results = searchCompanies(query, { category, limit });
+    async ({ query, category, categories: categoryList = [], sort, offset, cursor, limit }) => {
+        const categoryFilter = Array.from(new Set([...(category ? [category] : []), ...categoryList]));
+        let page: SearchPage;
+        try {
+            page = searchCompanyPage(query, { categories: categoryFilter, sort, offset, cursor, limit });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            return {
+                content: [{ type: "text" as const, text: `❌ ${message}` }],
+                isError: true,
+            };
+        }
+
+        const { results, total, nextCursor, facets } = page;
         const categories = getCategories();
         const totalCompanies = getCompanyCount();
+        const structured: SearchCompaniesOutput = {
+            query,
+            category,
+            categoryFilter,
+            sort,
+            results: results.map(({ name, domain, aliases, category }) => ({ name, domain, aliases, category })),
+            total,
+            offset: page.offset,
+            nextCursor,
+            facets,
+            totalCompanies,
+            categories,
+        };
+        const described = `${query ? `matching "${query}"` : "in the database"}${categoryFilter.length > 0 ? ` in ${categoryFilter.map((c) => `"${c}"`).join(", ")}` : ""}`;
 
         if (results.length === 0) {
             return {
+                structuredContent: structured,
                 content: [
                     {
                         type: "text" as const,
                         text: [
-                            `🔍 No companies found for "${query}"${category ? ` in category "${category}"` : ""}`,
+                            total > 0
+                                ? `🔍 No more companies ${described} — all ${total} were on earlier pages`
+                                : `🔍 No companies found ${described}`,
                             "",
                             `📊 Database: ${totalCompanies} companies across ${categories.length} categories`,
                             `📂 Categories: ${categories.join(", ")}`,
@@ -222,17 +666,22 @@ server.tool(
             (r) =>
                 `  • ${r.name.padEnd(20)} │ ${r.domain.padEnd(30)} │ ${r.category}${r.aliases.length > 0 ? ` │ aliases: ${r.aliases.join(", ")}` : ""}`
         );
+        const first = page.offset + 1;
+        const last = page.offset + results.length;
 
         return {
+            structuredContent: structured,
             content: [
                 {
                     type: "text" as const,
                     text: [
-                        `🔍 Found ${results.length} companies matching "${query}"${category ? ` in "${category}"` : ""}`,
+                        `🔍 Found ${total} companies ${described}${total > results.length ? ` (showing ${first}–${last})` : ""}`,
                         "",
                         ...rows,
                         "",
+                        `📂 By category: ${facets.map((f) => `${f.category} (${f.count})`).join(", ")}`,
                         `📊 Database: ${totalCompanies} companies | ${categories.length} categories`,
+                        ...(nextCursor ? [`➡️  More results: pass cursor "${nextCursor}"`] : []),
                         `💡 Use download_logo to download any of these logos`,
                     ].join("\n"),
                 },
@@ -243,37 +692,61 @@ server.tool(
 
 // ── Tool 3: download_bulk_logos ──────────────────────────────────────────────
 
-server.tool(
+server.registerTool(
     "download_bulk_logos",
-    "Download logos for multiple companies at once. " +
-    "Processes all companies in parallel for speed. " +
-    "Returns a summary of successes and failures.",
     {
-        companies: z
-            .array(z.string())
-            .min(1)
-            .max(20)
-            .describe(
-                "Array of company names to download logos for. Max 20 at a time. " +
-                "Example: ['shopify', 'hubspot', 'stripe', 'github']"
-            ),
-        size: z
-            .enum(["small", "medium", "large"])
-            .optional()
-            .default("large")
-            .describe("Desired logo size for all downloads. Defaults to 'large'."),
+        description:
+            "Download logos for multiple companies at once. " +
+            "Processes all companies in parallel for speed. " +
+            "Returns a summary of successes and failures.",
+        inputSchema: {
+            companies: z
+                .array(z.string())
+                .min(1)
+                .max(20)
+                .describe(
+                    "Array of company names (or domains, URLs, email addresses) to download logos for. Max 20 at a time. " +
+                    "Example: ['shopify', 'hubspot', 'stripe.com', 'github']"
+                ),
+            size: sizeSchema
+                .optional()
+                .default("large")
+                .describe("Desired logo size for all downloads: 'small', 'medium', 'large' or pixels. Defaults to 'large'."),
+            sizes: sizesSchema
+                .optional()
+                .describe("Produce several pixel sizes per company, e.g. [16, 32, 64]. Overrides 'size'."),
+            format: z
+                .enum(FORMAT_OPTIONS)
+                .optional()
+                .default("original")
+                .describe("Output format for all downloads: 'png', 'jpg', 'webp', 'ico' or 'original'. Defaults to 'original'."),
+            background: backgroundSchema,
+            strategy: strategySchema,
+            refresh: refreshSchema,
+            variant: variantSchema,
+            offline: offlineSchema,
+            inline: inlineSchema,
+            save: saveSchema,
+        },
+        outputSchema: bulkDownloadOutputSchema,
     },
-    async ({ companies, size }) => {
-        const assetsDir = await ensureAssetsDir();
-        const results: Array<{
-            company: string;
-            domain: string;
-            success: boolean;
-            filepath?: string;
-            error?: string;
-            source?: string;
-            confidence: string;
-        }> = [];
+    async ({ companies, size, sizes, format, background, strategy, refresh, variant, offline = isOfflineMode(), inline, save }) => {
+        if (!save && inline === "none") {
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: "❌ Nothing to return — set 'inline' to 'image' or 'resource', or leave 'save' enabled",
+                    },
+                ],
+                isError: true,
+            };
+        }
+
+        const assetsDir = save ? await ensureAssetsDir() : getAssetsDir();
+        const results: BulkDownloadOutput["results"] = [];
+        const hashes: Array<ImageHashes | null> = [];
+        const inlineContent: InlineContent[] = [];
 
         // Process in parallel with concurrency limit of 5
         const concurrencyLimit = 5;
@@ -285,52 +758,96 @@ server.tool(
         for (const chunk of chunks) {
             const chunkResults = await Promise.allSettled(
                 chunk.map(async (company) => {
-                    const resolved = await resolveDomain(company);
-                    const result = await fetchLogo(resolved.domain, resolved.company, size);
+                    const resolved = await resolveDomain(company, { offline });
+                    const result = await fetchLogo(resolved.domain, resolved.company, size, { strategy, refresh, offline, variant });
+                    const attempts = toAttemptsOutput(result.attempts);
 
                     if (result.success && result.logo) {
-                        const ext = result.logo.imageInfo.extension;
-                        const filename = `${sanitizeFilename(resolved.company)}.${ext}`;
-                        const filepath = join(assetsDir, filename);
-                        await writeFile(filepath, result.logo.buffer);
+                        const outputs = await renderLogo(result.logo, { format, size, sizes, background });
+                        const files = save ? await saveRenderedLogos(assetsDir, resolved.company, outputs, variant) : [];
+                        if (save) {
+                            await notifyLogoSaved(server, resolved.company, files.map((f) => f.path));
+                        }
+                        const embedded = inline !== "none" ? inlineRenderedLogos(resolved.company, outputs, inline, variant) : undefined;
 
                         return {
-                            company: resolved.company,
-                            domain: resolved.domain,
-                            success: true,
-                            filepath,
-                            source: result.logo.source,
-                            confidence: resolved.confidence,
+                            entry: {
+                                success: true,
+                                input: company,
+                                resolved: toResolvedOutput(resolved),
+                                files,
+                                inline: embedded?.inline,
+                                source: result.logo.source,
+                                pinned: result.logo.pinned,
+                                svg: result.logo.svg,
+                                palette: result.logo.palette,
+                                variant: result.logo.variant,
+                                disagreement: result.disagreement,
+                                attempts,
+                            },
+                            hashes: await hashLogo(result.logo.buffer, result.logo.imageInfo),
+                            content: embedded?.content ?? [],
                         };
                     } else {
                         return {
-                            company: resolved.company,
-                            domain: resolved.domain,
-                            success: false,
-                            error: result.error || "Unknown error",
-                            confidence: resolved.confidence,
+                            entry: {
+                                success: false,
+                                input: company,
+                                resolved: toResolvedOutput(resolved),
+                                files: [],
+                                attempts,
+                                error: result.error || "Unknown error",
+                            },
+                            hashes: null,
+                            content: [],
                         };
                     }
                 })
             );
 
-            for (const result of chunkResults) {
+            chunkResults.forEach((result, i) => {
                 if (result.status === "fulfilled") {
-                    results.push(result.value);
+                    results.push(result.value.entry);
+                    hashes.push(result.value.hashes);
+                    inlineContent.push(...result.value.content);
                 } else {
+                    hashes.push(null);
                     results.push({
-                        company: "unknown",
-                        domain: "unknown",
                         success: false,
+                        input: chunk[i],
+                        files: [],
+                        attempts: [],
                         error: result.reason?.message || "Unknown error",
-                        confidence: "unknown",
                     });
                 }
-            }
+            });
+        }
+
+        // Warn about companies that got the same image, within this download or
+        // compared with other companies' logos already in the assets directory
+        const batch = results.map((r, i) => ({ company: r.resolved?.company ?? r.input, hashes: hashes[i] }));
+        const batchDuplicates = findDuplicateLogos(batch);
+        const assetLogos = await listAssetLogos(assetsDir);
+        const batchFiles = batch.map((b) => sanitizeFilename(b.company));
+        for (const [i, r] of results.entries()) {
+            if (!r.success) continue;
+            const duplicates: DuplicateLogo[] = [
+                ...(batchDuplicates.get(batch[i].company) ?? []),
+                ...(await findAssetDuplicates(hashes[i], assetLogos, batchFiles)),
+            ];
+            if (duplicates.length > 0) r.duplicates = duplicates;
         }
 
         const successes = results.filter((r) => r.success);
         const failures = results.filter((r) => !r.success);
+        const label = (r: (typeof results)[number]) => {
+            const verification = r.resolved?.verification;
+            const flag =
+                verification && verification.verdict !== "verified"
+                    ? ` ⚠️ ${verification.verdict} domain (${verification.score}/100)`
+                    : "";
+            return r.resolved ? `${r.resolved.company} (${r.resolved.domain})${flag}` : r.input;
+        };
 
         const lines: string[] = [
             `📦 Bulk Logo Download Complete`,
@@ -341,7 +858,11 @@ server.tool(
         if (successes.length > 0) {
             lines.push("✅ Successfully downloaded:");
             for (const s of successes) {
-                lines.push(`   • ${s.company} (${s.domain}) → ${s.filepath} [${s.source}]`);
+                const delivered = [...s.files.map((f) => f.path), ...(s.inline ?? []).map((i) => `${i.uri} (inline)`)];
+                lines.push(`   • ${label(s)} → ${delivered.join(", ")} [${s.source}]`);
+                if (s.svg && s.svg.removed.length > 0) lines.push(`     🧼 SVG sanitized: ${describeSvgReport(s.svg)}`);
+                for (const d of s.duplicates ?? []) lines.push(`     ⚠️  ${describeDuplicate(d)}`);
+                if (s.disagreement) lines.push(`     ⚠️  ${describeDisagreement(s.disagreement)}`);
             }
         }
 
@@ -349,35 +870,605 @@ server.tool(
             lines.push("");
             lines.push("❌ Failed:");
             for (const f of failures) {
-                lines.push(`   • ${f.company} (${f.domain}) — ${f.error}`);
+                lines.push(`   • ${label(f)} — ${f.error}`);
             }
         }
 
         lines.push("");
-        lines.push(`📂 Assets saved to: ${assetsDir}`);
+        lines.push(save ? `📂 Assets saved to: ${assetsDir}` : `📨 Logos returned inline only (not saved)`);
+
+        const structured: BulkDownloadOutput = {
+            assetsDir,
+            succeeded: successes.length,
+            total: results.length,
+            results,
+        };
 
         return {
+            structuredContent: structured,
             content: [
                 {
                     type: "text" as const,
                     text: lines.join("\n"),
                 },
+                ...inlineContent,
             ],
         };
     }
 );
 
+// ── Tool 4: list_sources ─────────────────────────────────────────────────────
+
+server.registerTool(
+    "list_sources",
+    {
+        description:
+            "List the logo sources in the order they are queried, with their per-source settings " +
+            "(enabled, timeout, retries, headers, API key). Sources are configured via MCP_LOGO_* environment variables.",
+        inputSchema: {},
+        outputSchema: listSourcesOutputSchema,
+    },
+    async () => {
+        const sources = listSources();
+        const active = sources.filter((s) => s.settings.enabled);
+
+        const rows = sources.map((s, i) => {
+            const { enabled, timeoutMs, retries, headers, apiKey } = s.settings;
+            const headerNames = Object.keys(headers);
+            return [
+                `  ${enabled ? "✅" : "🚫"} ${String(i + 1).padStart(2)}. ${s.name.padEnd(20)} │ id: ${s.id.padEnd(16)}`,
+                `timeout ${timeoutMs}ms`,
+                `retries ${retries}`,
+                `API key ${apiKey ? "set" : "—"}`,
+                headerNames.length > 0 ? `headers: ${headerNames.join(", ")}` : "",
+            ]
+                .filter(Boolean)
+                .join(" │ ");
+        });
+
+        const structured: ListSourcesOutput = {
+            sources: sources.map((s, i) => ({
+                id: s.id,
+                name: s.name,
+                position: i + 1,
+                enabled: s.settings.enabled,
+                timeoutMs: s.settings.timeoutMs,
+                retries: s.settings.retries,
+                retryDelayMs: s.settings.retryDelayMs,
+                headerNames: Object.keys(s.settings.headers),
+                hasApiKey: !!s.settings.apiKey,
+            })),
+        };
+
+        return {
+            structuredContent: structured,
+            content: [
+                {
+                    type: "text" as const,
+                    text: [
+                        `🔌 Logo sources: ${active.length} active of ${sources.length} registered`,
+                        "",
+                        ...rows,
+                        "",
+                        `💡 Configure with MCP_LOGO_SOURCES_CONFIG, MCP_LOGO_SOURCE_ORDER, MCP_LOGO_DISABLED_SOURCES`,
+                        `   or MCP_LOGO_SOURCE_<ID>_{ENABLED,TIMEOUT_MS,RETRIES,API_KEY}`,
+                    ].join("\n"),
+                },
+            ],
+        };
+    }
+);
+
+// ── Tool 5: cache ────────────────────────────────────────────────────────────
+
+server.registerTool(
+    "cache",
+    {
+        description:
+            "Inspect and manage the on-disk logo cache. Fetched logos are cached per domain, source and size, " +
+            "and revalidated with ETag/Last-Modified once they expire. " +
+            "Actions: 'stats' (totals), 'list' (entries), 'purge' (delete entries), 'warm' (pre-fetch companies).",
+        inputSchema: {
+            action: z
+                .enum(["stats", "list", "purge", "warm"])
+                .describe("What to do: 'stats', 'list', 'purge' or 'warm'."),
+            company: z
+                .string()
+                .optional()
+                .describe("For 'list' and 'purge': only entries for this company (name or domain)."),
+            expiredOnly: z
+                .boolean()
+                .optional()
+                .default(false)
+                .describe("For 'purge': only remove entries older than the TTL. Defaults to false."),
+            companies: z
+                .array(z.string())
+                .min(1)
+                .max(50)
+                .optional()
+                .describe("For 'warm': company names to fetch into the cache, e.g. ['stripe', 'github']."),
+            size: sizeSchema
+                .optional()
+                .default("large")
+                .describe("For 'warm': logo size to cache. Defaults to 'large'."),
+            strategy: strategySchema,
+        },
+        outputSchema: cacheOutputSchema,
+    },
+    async ({ action, company, expiredOnly, companies, size, strategy }) => {
+        try {
+            const domain = company ? (await resolveDomain(company)).domain : undefined;
+            const lines: string[] = [];
+            const structured: CacheOutput = { action };
+
+            if (action === "stats") {
+                const stats = await getCacheStats();
+                structured.stats = stats;
+                lines.push(
+                    `🗄️  Logo cache ${stats.enabled ? "enabled" : "disabled"}`,
+                    `📂 Directory: ${stats.dir}`,
+                    `📋 Entries: ${stats.entries} (${stats.freshEntries} fresh, ${stats.entries - stats.freshEntries} expired)`,
+                    `💾 Stored: ${stats.blobs} images, ${formatFileSize(stats.totalBytes)} of ${formatFileSize(stats.maxBytes)}`,
+                    `⏱️  TTL: ${Math.round(stats.ttlMs / 3_600_000)}h`
+                );
+            } else if (action === "list") {
+                const entries = await listCacheEntries(domain);
+                structured.entries = entries.map((e) => ({
+                    domain: e.domain,
+                    source: e.source,
+                    px: e.px,
+                    variant: e.variant,
+                    sourceName: e.sourceName,
+                    sourceUrl: e.sourceUrl,
+                    imageInfo: toImageInfoOutput(e.imageInfo),
+                    fresh: e.fresh,
+                    fetchedAt: new Date(e.fetchedAt).toISOString(),
+                    lastAccessedAt: new Date(e.lastAccessedAt).toISOString(),
+                }));
+                lines.push(`🗄️  ${entries.length} cache entries${domain ? ` for ${domain}` : ""}`, "");
+                for (const e of entries) {
+                    lines.push(
+                        `  ${e.fresh ? "🟢" : "🟠"} ${e.domain.padEnd(24)} │ ${e.sourceName.padEnd(20)} │ ${String(e.px).padStart(4)}px${e.variant ? ` ${e.variant}` : ""} │ ` +
+                        `${e.imageInfo.format} ${formatFileSize(e.imageInfo.sizeBytes)} │ fetched ${new Date(e.fetchedAt).toISOString()}`
+                    );
+                }
+            } else if (action === "purge") {
+                const removed = await purgeCache({ domain, expiredOnly });
+                structured.removed = removed;
+                lines.push(
+                    `🧹 Removed ${removed} cache entries${domain ? ` for ${domain}` : ""}${expiredOnly ? " (expired only)" : ""}`
+                );
+            } else {
+                if (!companies) {
+                    throw new Error("'warm' requires a 'companies' list");
+                }
+                if (isOfflineMode()) {
+                    throw new Error("Cannot warm the cache in offline mode (MCP_LOGO_OFFLINE)");
+                }
+                if (!getCacheConfig().enabled) {
+                    throw new Error("The logo cache is disabled (MCP_LOGO_CACHE=off)");
+                }
+
+                lines.push(`🔥 Warming cache for ${companies.length} companies`, "");
+                structured.warmed = [];
+                for (const name of companies) {
+                    const resolved = await resolveDomain(name);
+                    const result = await fetchLogo(resolved.domain, resolved.company, size, { strategy, refresh: true });
+                    structured.warmed.push({
+                        input: name,
+                        domain: resolved.domain,
+                        success: result.success,
+                        source: result.logo?.source,
+                        error: result.error,
+                    });
+                    lines.push(
+                        result.success && result.logo
+                            ? `   ✅ ${resolved.company} (${resolved.domain}) — ${result.logo.source}`
+                            : `   ❌ ${resolved.company} (${resolved.domain}) — ${result.error || "Unknown error"}`
+                    );
+                }
+            }
+
+            return {
+                structuredContent: structured,
+                content: [{ type: "text" as const, text: lines.join("\n") }],
+            };
+        } catch (err) {
+            const errorMsg = err instanceof Error ? err.message : String(err);
+            return {
+                content: [{ type: "text" as const, text: `❌ Cache ${action} failed: ${errorMsg}` }],
+                isError: true,
+            };
+        }
+    }
+);
+
+// ── Tools 6–8: add_company, update_company, remove_company ──────────────────
+
+const aliasesSchema = z
+    .array(z.string())
+    .describe("Other names the company is known by, e.g. ['gh'] for GitHub. Must not collide with other companies.");
+
+const logosSchema = z
+    .array(
+        z.object({
+            src: z.string().describe("http(s) URL or file path on the server (relative paths resolve against its working directory)"),
+            size: z.number().int().optional().describe("Pixel size the logo is meant for; omit if it suits any size (e.g. SVG)"),
+            variant: z.enum(LOGO_VARIANTS).optional().describe("e.g. 'dark' or 'icon'; omit for the default variant"),
+        })
+    )
+    .describe("Pinned logos, used instead of querying logo sources — for brands the sources get wrong");
+
+function formatCompany(company: { name: string } & CompanyEntry): string {
+    return [
+        `${company.name} │ ${company.domain} │ ${company.category}`,
+        company.aliases.length > 0 ? `aliases: ${company.aliases.join(", ")}` : "",
+        company.logos?.length ? `📌 ${company.logos.length} pinned logo(s)` : "",
+    ]
+        .filter(Boolean)
+        .join(" │ ");
+}
+
+/**
+ * Run a company database edit and report it as a tool result.
+ */
+async function companyChangeResult(
+    action: CompanyChangeOutput["action"],
+    change: () => Promise<Pick<CompanyChangeOutput, "company" | "previous">>
+) {
+    try {
+        const { company, previous } = await change();
+        const structured: CompanyChangeOutput = { action, company, previous, userDatabase: getUserDatabasePath() };
+        const verb = { add: "Added", update: "Updated", remove: "Removed" }[action];
+
+        return {
+            structuredContent: structured,
+            content: [
+                {
+                    type: "text" as const,
+                    text: [
+                        `✅ ${verb} ${formatCompany(company)}`,
+                        ...(previous ? [`   was: ${formatCompany(previous)}`] : []),
+                        "",
+                        `💾 Saved to ${structured.userDatabase}`,
+                    ].join("\n"),
+                },
+            ],
+        };
+    } catch (err) {
+        const errorMsg = err instanceof Error ? err.message : String(err);
+        return {
+            content: [{ type: "text" as const, text: `❌ Could not ${action} company: ${errorMsg}` }],
+            isError: true,
+        };
+    }
+}
+
+server.registerTool(
+    "add_company",
+    {
+        description:
+            "Add a company to the database so its name resolves to the right domain. " +
+            "Saved in the user database, which persists across restarts.",
+        inputSchema: {
+            name: z.string().describe("Company name, e.g. 'Acme Corp'"),
+            domain: z.string().describe("Canonical domain without scheme, e.g. 'acme.io'"),
+            category: z.string().describe("Category, e.g. 'Payments' — may be a new one"),
+            aliases: aliasesSchema.optional().default([]),
+            logos: logosSchema.optional(),
+        },
+        outputSchema: companyChangeOutputSchema,
+    },
+    async ({ name, domain, category, aliases, logos }) =>
+        companyChangeResult("add", async () => ({ company: await addCompany(name, { domain, category, aliases, logos }) }))
+);
+
+server.registerTool(
+    "update_company",
+    {
+        description:
+            "Fix a company's domain, category, aliases or pinned logos — e.g. when a name resolves to the wrong domain " +
+            "or the sources keep picking the wrong logo. " +
+            "Works for built-in entries too; the change is saved in the user database.",
+        inputSchema: {
+            name: z.string().describe("Company name as listed by search_companies"),
+            domain: z.string().optional().describe("New domain"),
+            category: z.string().optional().describe("New category"),
+            aliases: aliasesSchema.optional().describe("New alias list (replaces the current one)"),
+            logos: logosSchema.optional().describe("New pinned logo list (replaces the current one; [] unpins all)"),
+        },
+        outputSchema: companyChangeOutputSchema,
+    },
+    async ({ name, domain, category, aliases, logos }) =>
+        companyChangeResult("update", () => updateCompany(name, { domain, category, aliases, logos }))
+);
+
+server.registerTool(
+    "remove_company",
+    {
+        description:
+            "Remove a company from the database. Built-in entries are hidden via the user database " +
+            "and come back if re-added with add_company.",
+        inputSchema: {
+            name: z.string().describe("Company name as listed by search_companies"),
+        },
+        outputSchema: companyChangeOutputSchema,
+    },
+    async ({ name }) => companyChangeResult("remove", async () => ({ company: await removeCompany(name) }))
+);
+
+// ── Tool 9: export_database ──────────────────────────────────────────────────
+
+server.registerTool(
+    "export_database",
+    {
+        description:
+            "Export the company database as a JSON or YAML file that can be loaded with MCP_LOGO_COMPANY_DB — " +
+            "either only the edits made with add/update/remove_company, or the whole merged database.",
+        inputSchema: {
+            scope: z
+                .enum(["user", "merged"])
+                .optional()
+                .default("user")
+                .describe("'user' exports only runtime edits; 'merged' exports every company"),
+            format: z.enum(["json", "yaml"]).optional().default("json"),
+        },
+        outputSchema: exportDatabaseOutputSchema,
+    },
+    async ({ scope, format }) => {
+        const data = exportCompanyDatabase(scope);
+        const structured: ExportDatabaseOutput = {
+            scope,
+            format,
+            companies: Object.keys(data.companies).length,
+            removed: data.remove.length,
+            content: serializeCompanyDatabase(data, format),
+        };
+
+        return {
+            structuredContent: structured,
+            content: [
+                {
+                    type: "text" as const,
+                    text: [
+                        `📤 ${scope === "user" ? "User edits" : "Merged database"}: ${structured.companies} companies` +
+                            (scope === "user" ? `, ${structured.removed} removed` : ""),
+                        "",
+                        structured.content,
+                    ].join("\n"),
+                },
+            ],
+        };
+    }
+);
+
+// ── Tool 10: resolve_company ─────────────────────────────────────────────────
+
+server.registerTool(
+    "resolve_company",
+    {
+        description:
+            "Show how a company name resolves to a domain, without downloading anything: " +
+            "a ranked list of candidates with a score (0–100) and the reason for each match, " +
+            "and whether the name is ambiguous. Use before download_logo when a name could mean several companies.",
+        inputSchema: {
+            company: z.string().describe("Company name, alias, abbreviation, domain, URL or email address, e.g. 'box', 'ms', 'acme.io'"),
+            limit: z.number().int().min(1).max(25).optional().default(5).describe("Maximum candidates to return. Defaults to 5."),
+            offline: offlineSchema,
+        },
+        outputSchema: resolveCompanyOutputSchema,
+    },
+    async ({ company, limit, offline = isOfflineMode() }) => {
+        const { resolved, candidates, ambiguity } = await resolveCandidates(company, { offline, limit });
+        const structured: ResolveCompanyOutput = {
+            input: company,
+            resolved: toResolvedOutput(resolved),
+            candidates: toDomainCandidatesOutput(candidates),
+            ambiguous: !!ambiguity,
+            ambiguity,
+        };
+
+        return {
+            structuredContent: structured,
+            content: [
+                {
+                    type: "text" as const,
+                    text: [
+                        `🎯 "${company}" → ${resolved.company} (${resolved.domain}), confidence: ${resolved.confidence}`,
+                        ...formatVerification(resolved),
+                        ...(ambiguity ? [`⚠️  Ambiguous: ${ambiguity}`] : []),
+                        "",
+                        `📋 Candidates (${candidates.length}):`,
+                        ...formatDomainCandidates(candidates),
+                    ].join("\n"),
+                },
+            ],
+        };
+    }
+);
+
+// ── Tool 11: list_categories ─────────────────────────────────────────────────
+
+server.registerTool(
+    "list_categories",
+    {
+        description:
+            "List every company category with the number of companies in it. " +
+            "Use the names as search_companies category filters.",
+        inputSchema: {},
+        outputSchema: listCategoriesOutputSchema,
+    },
+    async () => {
+        const categories = listCategoryCounts();
+        const structured: ListCategoriesOutput = { categories, totalCompanies: getCompanyCount() };
+        const width = Math.max(0, ...categories.map((c) => c.category.length));
+
+        return {
+            structuredContent: structured,
+            content: [
+                {
+                    type: "text" as const,
+                    text: [
+                        `📂 ${categories.length} categories, ${structured.totalCompanies} companies:`,
+                        "",
+                        ...categories.map((c) => `  • ${c.category.padEnd(width)} │ ${c.count}`),
+                        "",
+                        `💡 Filter search_companies by one or more of these with categories`,
+                    ].join("\n"),
+                },
+            ],
+        };
+    }
+);
+
+// ── Tool 12: get_brand_colors ────────────────────────────────────────────────
+
+server.registerTool(
+    "get_brand_colors",
+    {
+        description:
+            "Get a company's brand colours, extracted from its logo: the dominant colours as hex codes with their " +
+            "share of the logo, ignoring transparent and near-white background, plus a black or white text colour " +
+            "that reads well on each. Nothing is saved.",
+        inputSchema: {
+            company: z.string().describe(
+                "Company name, domain, website URL or email address, e.g. 'stripe', 'hubspot.com'"
+            ),
+            strategy: strategySchema,
+            refresh: refreshSchema,
+            variant: variantSchema,
+            offline: offlineSchema,
+        },
+        outputSchema: getBrandColorsOutputSchema,
+    },
+    async ({ company, strategy, refresh, variant, offline = isOfflineMode() }) => {
+        try {
+            const resolved = await resolveDomain(company, { offline });
+            const result = await fetchLogo(resolved.domain, resolved.company, "large", { strategy, refresh, offline, variant });
+            const { logo } = result;
+
+            const error = !result.success || !logo
+                ? result.error || "Unknown error"
+                : !logo.palette
+                    ? `Cannot read colours from ${logo.imageInfo.format} logos`
+                    : undefined;
+
+            const structured: GetBrandColorsOutput = {
+                success: !error,
+                input: company,
+                resolved: toResolvedOutput(resolved),
+                source: logo?.source,
+                sourceUrl: logo?.sourceUrl,
+                sourceImage: logo && toImageInfoOutput(logo.imageInfo),
+                palette: logo?.palette,
+                attempts: toAttemptsOutput(result.attempts),
+                error,
+            };
+
+            if (error || !logo?.palette) {
+                return {
+                    structuredContent: structured,
+                    content: [
+                        {
+                            type: "text" as const,
+                            text: [
+                                `❌ Could not get brand colours for "${company}": ${error}`,
+                                `   Resolved domain: ${resolved.domain} (confidence: ${resolved.confidence})`,
+                                "",
+                                summarizeFetchResult(result),
+                            ].join("\n"),
+                        },
+                    ],
+                };
+            }
+
+            const { palette } = logo;
+            return {
+                structuredContent: structured,
+                content: [
+                    {
+                        type: "text" as const,
+                        text: [
+                            `🎨 Brand colours for ${resolved.company} (${resolved.domain})`,
+                            ...formatVerification(resolved),
+                            "",
+                            ...(palette.colors.length === 0
+                                ? [`   No colours found — the logo is white or transparent`]
+                                : palette.colors.map(
+                                      (c, i) =>
+                                          `   ${i === 0 ? "★" : "•"} ${c.hex}  ${String(Math.round(c.proportion * 100)).padStart(3)}%` +
+                                          `  — text ${c.textColor} (contrast ${c.contrast}:1)`
+                                  )),
+                            "",
+                            `🔗 From: ${logo.source} (${logo.imageInfo.format} ${describeImageMetadata(logo.imageInfo)})`,
+                        ].join("\n"),
+                    },
+                ],
+            };
+        } catch (err) {
+            const errorMsg = err instanceof Error ? err.message : String(err);
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: `❌ Error getting brand colours for "${company}": ${errorMsg}`,
+                    },
+                ],
+                isError: true,
+            };
+        }
+    }
+);
+
+// ─── Resources ──────────────────────────────────────────────────────────────
+
+registerResources(server);
+
 // ─── Server Startup ─────────────────────────────────────────────────────────
 
 async function main() {
     // Ensure assets directory exists on startup
     const assetsDir = await ensureAssetsDir();
 
+    // Merge user company database files over the curated database
+    loadCompanyDatabaseFromEnv();
+    const databaseFiles = getCompanyDatabaseStatus();
+
+    // Apply source configuration from env vars / config file
+    loadSourceConfigFromEnv();
+    const activeSources = listSources().filter((s) => s.settings.enabled);
+
+    // Apply logo cache and offline settings from env vars
+    loadCacheConfigFromEnv();
+    loadOfflineConfigFromEnv();
+    loadVerificationConfigFromEnv();
+    loadPlaceholderConfigFromEnv();
+    const cache = getCacheConfig();
+    const offline = getOfflineConfig();
+    const verification = getVerificationConfig();
+
     // Log startup info to stderr (so it doesn't interfere with MCP stdio protocol)
     console.error(`🚀 MCP Logo Downloader v1.0.0`);
     console.error(`📂 Assets directory: ${assetsDir}`);
     console.error(`📊 Database: ${getCompanyCount()} companies | ${getCategories().length} categories`);
-    console.error(`🔧 Tools: download_logo, search_companies, download_bulk_logos`);
+    for (const file of databaseFiles) {
+        console.error(`   + ${file.path} (${file.companies} companies, ${file.removed} removed, watching for changes)`);
+    }
+    console.error(`   + user edits: ${getUserDatabasePath()}`);
+    console.error(`🔌 Sources: ${activeSources.map((s) => s.name).join(" → ") || "none enabled"}`);
+    console.error(`🗄️  Cache: ${cache.enabled ? cache.dir : "disabled"}`);
+    console.error(`🔐 Domain verification: ${verification.enabled ? `on (${verification.timeoutMs}ms timeout)` : "off"}`);
+    console.error(
+        `🚫 Placeholder check: ${getPlaceholderConfig().enabled ? `on (${getPlaceholderBlocklist().length} known placeholders)` : "off"}`
+    );
+    if (offline.enabled) {
+        console.error(`✈️  Offline mode: logos from ${offline.packPath ?? "(no pack configured — set MCP_LOGO_PACK)"}`);
+    }
+    console.error(
+        `🔧 Tools: download_logo, search_companies, download_bulk_logos, list_sources, cache, ` +
+            `add_company, update_company, remove_company, export_database, resolve_company, list_categories, get_brand_colors`
+    );
+    console.error(`📚 Resources: logo://, assets://, company-db://`);
     console.error(`⏳ Waiting for MCP client connection via stdio...`);
 
     // Start the MCP server with stdio transport
@@ -0,0 +1,392 @@
+/**
+ * Output Schemas — Machine-readable results for every MCP tool
+ *
+ * Each tool returns its usual human-readable text plus `structuredContent`
+ * matching one of these schemas. The schemas are declared as the tools'
+ * `outputSchema`, so clients can validate results instead of parsing text.
+ *
+ * Error results (`isError: true`) carry text only.
+ */
+
+import { z } from "zod";
+
+import type { DomainCandidate, ResolvedDomain } from "./services/domain-resolver.js";
+import type { ImageInfo } from "./services/image-validator.js";
+import type { FetchAttempt, LogoCandidate } from "./services/logo-fetcher.js";
+import { LOGO_VARIANTS } from "./services/logo-variant.js";
+
+// ─── Shared Building Blocks ──────────────────────────────────────────────────
+
+export const imageInfoSchema = z.object({
+    format: z.string().describe("Detected format, e.g. 'PNG', 'SVG'"),
+    extension: z.string(),
+    mimeType: z.string(),
+    sizeBytes: z.number(),
+    isValid: z.boolean(),
+    isSvg: z.boolean(),
+    width: z.number().optional(),
+    height: z.number().optional(),
+    bitDepth: z.number().optional().describe("Bits per pixel across all channels"),
+    hasAlpha: z.boolean().optional(),
+    frameCount: z.number().optional().describe("Animation frames, or images in an ICO file"),
+});
+
+export const domainVerificationSchema = z.object({
+    score: z.number().describe("Confidence from 0 to 100 that the domain belongs to the company"),
+    verdict: z.enum(["verified", "plausible", "unverified"]),
+    dns: z.boolean(),
+    https: z.boolean(),
+    siteName: z.string().optional().describe("Homepage og:site_name or <title>"),
+    nameMatch: z.number().describe("Site name match from 0 to 1"),
+    checks: z.array(z.string()),
+});
+
+export const resolvedDomainSchema = z.object({
+    domain: z.string(),
+    company: z.string().describe("Canonical company name"),
+    category: z.string(),
+    confidence: z.enum(["domain", "exact", "alias", "fuzzy", "live-search", "inferred"]),
+    matchedName: z.string().describe("The key or alias the input matched"),
+    verification: domainVerificationSchema
+        .optional()
+        .describe("Domain checks for live-search and inferred results"),
+});
+
+export const domainCandidateSchema = resolvedDomainSchema.extend({
+    confidence: z.enum(["domain", "exact", "alias", "fuzzy", "partial", "live-search", "inferred"]),
+    score: z.number().describe("Match quality from 0 to 100"),
+    reason: z.string().describe("Why this candidate matched"),
+});
+
+export const fetchAttemptSchema = z.object({
+    source: z.string(),
+    url: z.string(),
+    success: z.boolean(),
+    error: z.string().optional(),
+    durationMs: z.number(),
+    cached: z.enum(["hit", "revalidated"]).optional(),
+    pinned: z.boolean().optional().describe("Attempt at a logo pinned on the company's database entry"),
+});
+
+export const candidateSchema = z.object({
+    source: z.string(),
+    sourceUrl: z.string(),
+    imageInfo: imageInfoSchema,
+    score: z.object({
+        total: z.number().describe("Score out of 100"),
+        breakdown: z.object({
+            resolution: z.number(),
+            format: z.number(),
+            aspectRatio: z.number(),
+            transparency: z.number(),
+            fileSize: z.number(),
+        }),
+    }),
+});
+
+export const savedFileSchema = z.object({
+    path: z.string(),
+    imageInfo: imageInfoSchema,
+});
+
+export const inlineLogoSchema = z.object({
+    uri: z.string().describe("Identifies the logo; matches the embedded resource URI"),
+    as: z.enum(["image", "resource"]).describe("Which content block carries the bytes"),
+    mimeType: z.string(),
+    imageInfo: imageInfoSchema,
+});
+
+export const svgReportSchema = z.object({
+    removed: z.array(
+        z.object({
+            item: z.string().describe("e.g. '<script>', 'onload attribute', 'comment'"),
+            count: z.number(),
+            unsafe: z.boolean().describe("Could run code or load external content, rather than editor cruft"),
+        })
+    ),
+    changes: z.array(z.string()).describe("Other changes, e.g. viewBox normalization"),
+    bytesBefore: z.number(),
+    bytesAfter: z.number(),
+});
+
+export const brandPaletteSchema = z.object({
+    colors: z
+        .array(
+            z.object({
+                hex: z.string().describe("e.g. '#635bff'"),
+                proportion: z.number().describe("Share of the logo's non-background pixels, 0–1"),
+                textColor: z.string().describe("'#000000' or '#ffffff', whichever reads better on this colour"),
+                contrast: z.number().describe("WCAG contrast ratio of textColor on this colour"),
+            })
+        )
+        .describe("Dominant colours, most common first; transparent and near-white pixels are ignored"),
+    primary: z.string().optional().describe("The most common colour"),
+    textColor: z.string().optional().describe("Text colour to use on the primary colour"),
+    sampledPixels: z.number(),
+});
+
+export const variantInfoSchema = z.object({
+    requested: z.enum(LOGO_VARIANTS).optional().describe("The variant asked for"),
+    matched: z
+        .boolean()
+        .optional()
+        .describe("Whether the logo looks like the requested variant; false means no source had one and this is the closest"),
+    traits: z.array(z.enum(LOGO_VARIANTS)).describe("Every variant the logo looks like, judged from its pixels"),
+});
+
+export const duplicateLogoSchema = z.object({
+    company: z.string().describe("The other company with a visually identical logo"),
+    file: z.string().optional().describe("Its file in the assets directory, for matches found there"),
+    dhashDistance: z.number(),
+    phashDistance: z.number(),
+});
+
+export const sourceDisagreementSchema = z.object({
+    source: z.string().describe("Source of the chosen logo"),
+    disagreeing: z
+        .array(z.object({ source: z.string(), dhashDistance: z.number(), phashDistance: z.number() }))
+        .describe("Sources whose logo looks nothing like the chosen one"),
+});
+
+export const pinnedLogoSchema = z.object({
+    src: z.string().describe("http(s) URL or local file path"),
+    size: z.number().optional().describe("Pixel size the logo is meant for; omit if it suits any size"),
+    variant: z.enum(LOGO_VARIANTS).optional().describe("e.g. 'dark' or 'icon'; omitted means the default logo"),
+});
+
+const companySchema = z.object({
+    name: z.string(),
+    domain: z.string(),
+    aliases: z.array(z.string()),
+    category: z.string(),
+    logos: z.array(pinnedLogoSchema).optional().describe("Pinned logos, tried before any source"),
+});
+
+// ─── Tool Outputs ────────────────────────────────────────────────────────────
+
+export const downloadLogoOutputSchema = z.object({
+    success: z.boolean(),
+    input: z.string().describe("The company name as given"),
+    resolved: resolvedDomainSchema,
+    files: z.array(savedFileSchema).describe("Saved files; empty on failure or with save: false"),
+    inline: z.array(inlineLogoSchema).optional().describe("Logos returned inline as content blocks"),
+    source: z.string().optional().describe("Source the logo came from"),
+    sourceUrl: z.string().optional(),
+    pinned: z.boolean().optional().describe("The logo is pinned on the company's database entry"),
+    sourceImage: imageInfoSchema.optional().describe("The image as downloaded, before conversion"),
+    svg: svgReportSchema.optional().describe("What sanitizing removed from an SVG logo"),
+    palette: brandPaletteSchema.optional().describe("Dominant colours of the source image"),
+    variant: variantInfoSchema.optional().describe("Which kind of mark the logo is, against the requested variant"),
+    duplicates: z.array(duplicateLogoSchema).optional().describe("Other companies' saved logos that look identical"),
+    disagreement: sourceDisagreementSchema.optional().describe("Sources returned unrelated images ('best' strategy only)"),
+    candidates: z.array(candidateSchema).optional().describe("Ranked candidates ('best' strategy only)"),
+    matches: z.array(domainCandidateSchema).optional().describe("Ranked company matches (strict mode only)"),
+    attempts: z.array(fetchAttemptSchema),
+    error: z.string().optional(),
+});
+
+export const getBrandColorsOutputSchema = z.object({
+    success: z.boolean(),
+    input: z.string().describe("The company name as given"),
+    resolved: resolvedDomainSchema,
+    source: z.string().optional().describe("Source of the logo the colours were taken from"),
+    sourceUrl: z.string().optional(),
+    sourceImage: imageInfoSchema.optional(),
+    palette: brandPaletteSchema.optional(),
+    attempts: z.array(fetchAttemptSchema),
+    error: z.string().optional(),
+});
+
+export const resolveCompanyOutputSchema = z.object({
+    input: z.string(),
+    resolved: resolvedDomainSchema.describe("What download_logo would use"),
+    candidates: z.array(domainCandidateSchema),
+    ambiguous: z.boolean(),
+    ambiguity: z.string().optional().describe("Why the input is ambiguous; strict downloads refuse it"),
+});
+
+const categoryCountSchema = z.object({
+    category: z.string(),
+    count: z.number(),
+});
+
+export const searchCompaniesOutputSchema = z.object({
+    query: z.string(),
+    category: z.string().optional(),
+    categoryFilter: z.array(z.string()).describe("Categories results are limited to (from category and categories); empty for all"),
+    sort: z.enum(["relevance", "name"]),
+    results: z.array(companySchema).describe("This page of results"),
+    total: z.number().describe("Matches across all pages"),
+    offset: z.number().describe("Position of the first result on this page"),
+    nextCursor: z.string().optional().describe("Pass as cursor for the next page; missing on the last page"),
+    facets: z.array(categoryCountSchema).describe("Matches per category, before the category filter"),
+    totalCompanies: z.number(),
+    categories: z.array(z.string()),
+});
+
+export const listCategoriesOutputSchema = z.object({
+    categories: z.array(categoryCountSchema).describe("Every category with its number of companies, by name"),
+    totalCompanies: z.number(),
+});
+
+export const bulkDownloadOutputSchema = z.object({
+    assetsDir: z.string().describe("Where files were saved (unused with save: false)"),
+    succeeded: z.number(),
+    total: z.number(),
+    results: z.array(
+        z.object({
+            success: z.boolean(),
+            input: z.string(),
+            resolved: resolvedDomainSchema.optional().describe("Missing if resolution itself failed"),
+            files: z.array(savedFileSchema),
+            inline: z.array(inlineLogoSchema).optional(),
+            source: z.string().optional(),
+            pinned: z.boolean().optional(),
+            svg: svgReportSchema.optional(),
+            palette: brandPaletteSchema.optional(),
+            variant: variantInfoSchema.optional(),
+            duplicates: z
+                .array(duplicateLogoSchema)
+                .optional()
+                .describe("Companies in this download or the assets directory with an identical logo"),
+            disagreement: sourceDisagreementSchema.optional(),
+            attempts: z.array(fetchAttemptSchema),
+            error: z.string().optional(),
+        })
+    ),
+});
+
+export const listSourcesOutputSchema = z.object({
+    sources: z.array(
+        z.object({
+            id: z.string(),
+            name: z.string(),
+            position: z.number().describe("1-based query order"),
+            enabled: z.boolean(),
+            timeoutMs: z.number(),
+            retries: z.number(),
+            retryDelayMs: z.number(),
+            headerNames: z.array(z.string()).describe("Names only — values may be secrets"),
+            hasApiKey: z.boolean(),
+        })
+    ),
+});
+
+const cacheEntrySchema = z.object({
+    domain: z.string(),
+    source: z.string(),
+    px: z.number(),
+    variant: z.string().optional().describe("Logo variant the entry was fetched for"),
+    sourceName: z.string(),
+    sourceUrl: z.string(),
+    imageInfo: imageInfoSchema,
+    fresh: z.boolean(),
+    fetchedAt: z.string().describe("ISO timestamp"),
+    lastAccessedAt: z.string().describe("ISO timestamp"),
+});
+
+export const cacheOutputSchema = z.object({
+    action: z.enum(["stats", "list", "purge", "warm"]),
+    stats: z
+        .object({
+            enabled: z.boolean(),
+            dir: z.string(),
+            entries: z.number(),
+            freshEntries: z.number(),
+            blobs: z.number(),
+            totalBytes: z.number(),
+            maxBytes: z.number(),
+            ttlMs: z.number(),
+        })
+        .optional(),
+    entries: z.array(cacheEntrySchema).optional(),
+    removed: z.number().optional(),
+    warmed: z
+        .array(
+            z.object({
+                input: z.string(),
+                domain: z.string(),
+                success: z.boolean(),
+                source: z.string().optional(),
+                error: z.string().optional(),
+            })
+        )
+        .optional(),
+});
+
+export const companyChangeOutputSchema = z.object({
+    action: z.enum(["add", "update", "remove"]),
+    company: companySchema.describe("The entry as added or updated, or the entry removed"),
+    previous: companySchema.optional().describe("The entry before an update"),
+    userDatabase: z.string().describe("File the change was saved to"),
+});
+
+export const exportDatabaseOutputSchema = z.object({
+    scope: z.enum(["user", "merged"]),
+    format: z.enum(["json", "yaml"]),
+    companies: z.number(),
+    removed: z.number().describe("Names the user layer removes (scope 'user' only)"),
+    content: z.string().describe("Database file contents, loadable via MCP_LOGO_COMPANY_DB"),
+});
+
+export type DownloadLogoOutput = z.infer<typeof downloadLogoOutputSchema>;
+export type SearchCompaniesOutput = z.infer<typeof searchCompaniesOutputSchema>;
+export type ListCategoriesOutput = z.infer<typeof listCategoriesOutputSchema>;
+export type GetBrandColorsOutput = z.infer<typeof getBrandColorsOutputSchema>;
+export type ResolveCompanyOutput = z.infer<typeof resolveCompanyOutputSchema>;
+export type BulkDownloadOutput = z.infer<typeof bulkDownloadOutputSchema>;
+export type ListSourcesOutput = z.infer<typeof listSourcesOutputSchema>;
+export type CacheOutput = z.infer<typeof cacheOutputSchema>;
+export type CompanyChangeOutput = z.infer<typeof companyChangeOutputSchema>;
+export type ExportDatabaseOutput = z.infer<typeof exportDatabaseOutputSchema>;
+export type SavedFile = z.infer<typeof savedFileSchema>;
+export type InlineLogo = z.infer<typeof inlineLogoSchema>;
+
+// ─── Converters ──────────────────────────────────────────────────────────────
+
+/**
+ * Copy only the schema's fields, so internal extras never leak into the output.
+ */
+export function toImageInfoOutput(info: ImageInfo): z.infer<typeof imageInfoSchema> {
+    const { format, extension, mimeType, sizeBytes, isValid, isSvg, width, height, bitDepth, hasAlpha, frameCount } = info;
+    return { format, extension, mimeType, sizeBytes, isValid, isSvg, width, height, bitDepth, hasAlpha, frameCount };
+}
+
+export function toResolvedOutput(resolved: ResolvedDomain): z.infer<typeof resolvedDomainSchema> {
+    const { domain, company, category, confidence, matchedName, verification } = resolved;
+    return { domain, company, category, confidence, matchedName, ...(verification && { verification }) };
+}
+
+export function toDomainCandidatesOutput(candidates: DomainCandidate[]): Array<z.infer<typeof domainCandidateSchema>> {
+    return candidates.map(({ domain, company, category, confidence, matchedName, score, reason, verification }) => ({
+        domain,
+        company,
+        category,
+        confidence,
+        matchedName,
+        score,
+        reason,
+        ...(verification && { verification }),
+    }));
+}
+
+export function toAttemptsOutput(attempts: FetchAttempt[]): Array<z.infer<typeof fetchAttemptSchema>> {
+    return attempts.map(({ source, url, success, error, durationMs, cached, pinned }) => ({
+        source,
+        url,
+        success,
+        error,
+        durationMs,
+        cached,
+        pinned,
+    }));
+}
+
+export function toCandidatesOutput(candidates: LogoCandidate[]): Array<z.infer<typeof candidateSchema>> {
+    return candidates.map(({ source, sourceUrl, imageInfo, score }) => ({
+        source,
+        sourceUrl,
+        imageInfo: toImageInfoOutput(imageInfo),
+        score,
+    }));
+}
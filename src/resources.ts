@@ -0,0 +1,273 @@
+/**
+ * MCP Resources — Browse logos and the company database without tool calls
+ *
+ * - logo://{company}                  — logo bytes, from the assets directory,
+ *                                        then the logo cache, then the logo pack
+ * - assets://{filename}               — any file in the assets directory (listed)
+ * - company-db://{name}               — one company database entry (JSON)
+ * - company-db://category/{category}  — every entry in a category (JSON)
+ *
+ * Clients can subscribe to logo:// and assets:// URIs. Saving a logo sends
+ * resources/list_changed, plus resources/updated for subscribed URIs. Reloaded
+ * company database files send resources/list_changed too.
+ */
+
+import { readFile } from "node:fs/promises";
+import { basename, join } from "node:path";
+
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+    ErrorCode,
+    McpError,
+    SubscribeRequestSchema,
+    UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import { getAssetsDir, listAssetFiles, parseAssetFilename, sanitizeFilename } from "./assets.js";
+import { getCategories, getCompany, listCompanies } from "./services/domain-resolver.js";
+import { onCompanyDatabaseChange } from "./services/company-database.js";
+import { getCachedLogo, listCacheEntries } from "./services/logo-cache.js";
+import { getOfflineConfig, getPackLogo } from "./services/logo-pack.js";
+
+const subscriptions = new Set<string>();
+
+export function logoUri(company: string): string {
+    return `logo://${encodeURIComponent(sanitizeFilename(company))}`;
+}
+
+export function assetUri(filename: string): string {
+    return `assets://${encodeURIComponent(filename)}`;
+}
+
+function variable(value: string | string[]): string {
+    return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+function notFound(message: string): McpError {
+    return new McpError(ErrorCode.InvalidParams, message);
+}
+
+// ─── Logo Lookup ─────────────────────────────────────────────────────────────
+
+/**
+ * Find a company's logo: a saved asset (the default variant before others,
+ * then the unsuffixed file, else the largest size), then the most recently
+ * used cache entry, then the logo pack. `stripe--dark` asks for one variant.
+ */
+async function readLogo(company: string): Promise<{ buffer: Buffer; mimeType: string } | null> {
+    const dir = getAssetsDir();
+    const key = sanitizeFilename(company);
+
+    const assets = (await listAssetFiles(dir))
+        .filter(
+            (file) =>
+                file.company === key ||
+                (file.variant && sanitizeFilename(file.company, file.variant) === company.toLowerCase()) ||
+                file.filename === company
+        )
+        .sort(
+            (a, b) =>
+                Number(a.variant !== undefined) - Number(b.variant !== undefined) ||
+                (a.px === undefined ? -1 : b.px === undefined ? 1 : b.px - a.px)
+        );
+    if (assets.length > 0) {
+        const [best] = assets;
+        return { buffer: await readFile(join(dir, best.filename)), mimeType: best.mimeType };
+    }
+
+    const entry = getCompany(company);
+    for (const lookup of [entry?.domain, company].filter((v): v is string => !!v)) {
+        const [latest] = await listCacheEntries(lookup);
+        const cached = latest && (await getCachedLogo(latest));
+        if (cached) {
+            return { buffer: cached.logo.buffer, mimeType: cached.logo.imageInfo.mimeType };
+        }
+    }
+
+    if (getOfflineConfig().packPath) {
+        const packed = await getPackLogo(entry?.name ?? company, entry?.domain).catch(() => null);
+        if (packed) {
+            return { buffer: packed.buffer, mimeType: packed.imageInfo.mimeType };
+        }
+    }
+
+    return null;
+}
+
+// ─── Registration ────────────────────────────────────────────────────────────
+
+/**
+ * Register all resources and resource subscriptions on the server.
+ * Must be called before the server connects.
+ */
+export function registerResources(server: McpServer): void {
+    const completeCompany = (value: string) =>
+        listCompanies()
+            .map((c) => c.name)
+            .filter((name) => name.startsWith(value.toLowerCase()))
+            .slice(0, 50);
+
+    // ── logo://{company} ──
+    server.registerResource(
+        "logo",
+        new ResourceTemplate("logo://{company}", {
+            list: async () => {
+                const companies = new Map<string, string>();
+                for (const file of await listAssetFiles()) {
+                    if (!companies.has(file.company)) companies.set(file.company, file.mimeType);
+                }
+                return {
+                    resources: Array.from(companies, ([company, mimeType]) => ({
+                        uri: logoUri(company),
+                        name: company,
+                        mimeType,
+                    })),
+                };
+            },
+            complete: { company: completeCompany },
+        }),
+        {
+            title: "Company logo",
+            description:
+                "A company's logo bytes — the downloaded file if there is one, otherwise the cached or packed logo.",
+        },
+        async (uri, { company }) => {
+            const name = variable(company);
+            const logo = await readLogo(name);
+            if (!logo) {
+                throw notFound(`No logo for "${name}" — download it with download_logo first`);
+            }
+            return {
+                contents: [{ uri: uri.href, mimeType: logo.mimeType, blob: logo.buffer.toString("base64") }],
+            };
+        }
+    );
+
+    // ── assets://{filename} ──
+    server.registerResource(
+        "assets",
+        new ResourceTemplate("assets://{filename}", {
+            list: async () => ({
+                resources: (await listAssetFiles()).map((file) => ({
+                    uri: assetUri(file.filename),
+                    name: file.filename,
+                    mimeType: file.mimeType,
+                })),
+            }),
+            complete: {
+                filename: async (value) =>
+                    (await listAssetFiles()).map((f) => f.filename).filter((f) => f.startsWith(value)),
+            },
+        }),
+        {
+            title: "Assets directory file",
+            description: "Every file saved in the assets directory.",
+        },
+        async (uri, { filename }) => {
+            const name = variable(filename);
+            if (basename(name) !== name || name.startsWith(".")) {
+                throw notFound(`Invalid asset name "${name}"`);
+            }
+            const buffer = await readFile(join(getAssetsDir(), name)).catch(() => null);
+            if (!buffer) {
+                throw notFound(`No file "${name}" in the assets directory`);
+            }
+            return {
+                contents: [{ uri: uri.href, mimeType: parseAssetFilename(name).mimeType, blob: buffer.toString("base64") }],
+            };
+        }
+    );
+
+    // ── company-db://category/{category} ──
+    server.registerResource(
+        "company-db-category",
+        new ResourceTemplate("company-db://category/{category}", {
+            list: async () => ({
+                resources: getCategories().map((category) => ({
+                    uri: `company-db://category/${encodeURIComponent(category)}`,
+                    name: `${category} companies`,
+                    mimeType: "application/json",
+                })),
+            }),
+            complete: {
+                category: (value) => getCategories().filter((c) => c.toLowerCase().startsWith(value.toLowerCase())),
+            },
+        }),
+        {
+            title: "Company database category",
+            description: "All company database entries in one category, as JSON.",
+            mimeType: "application/json",
+        },
+        async (uri, { category }) => {
+            const name = variable(category);
+            const companies = listCompanies(name);
+            if (companies.length === 0) {
+                throw notFound(`Unknown category "${name}" — available: ${getCategories().join(", ")}`);
+            }
+            return {
+                contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(companies, null, 2) }],
+            };
+        }
+    );
+
+    // ── company-db://{name} ──
+    server.registerResource(
+        "company-db",
+        new ResourceTemplate("company-db://{name}", {
+            list: async () => ({
+                resources: listCompanies().map((company) => ({
+                    uri: `company-db://${encodeURIComponent(company.name)}`,
+                    name: company.name,
+                    description: `${company.domain} · ${company.category}`,
+                    mimeType: "application/json",
+                })),
+            }),
+            complete: { name: completeCompany },
+        }),
+        {
+            title: "Company database entry",
+            description: "One company database entry (domain, aliases, category), as JSON.",
+            mimeType: "application/json",
+        },
+        async (uri, { name }) => {
+            const key = variable(name);
+            const company = getCompany(key);
+            if (!company) {
+                throw notFound(`"${key}" is not in the company database`);
+            }
+            return {
+                contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(company, null, 2) }],
+            };
+        }
+    );
+
+    // ── Subscriptions ──
+    server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        subscriptions.add(request.params.uri);
+        return {};
+    });
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        subscriptions.delete(request.params.uri);
+        return {};
+    });
+
+    onCompanyDatabaseChange(() => {
+        if (server.isConnected()) server.sendResourceListChanged();
+    });
+}
+
+/**
+ * Tell clients that logos were saved: the resource list changed, and any
+ * subscribed logo:// or assets:// URIs for these files were updated.
+ */
+export async function notifyLogoSaved(server: McpServer, company: string, filepaths: string[]): Promise<void> {
+    if (!server.isConnected()) return;
+
+    server.sendResourceListChanged();
+
+    const uris = [logoUri(company), ...filepaths.map((path) => assetUri(basename(path)))];
+    for (const uri of uris.filter((u) => subscriptions.has(u))) {
+        await server.server.sendResourceUpdated({ uri }).catch(() => undefined);
+    }
+}
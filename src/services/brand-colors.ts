@@ -0,0 +1,226 @@
+/**
+ * Brand Colors — Dominant palette of a logo
+ *
+ * Decodes the logo (rasterizing SVGs), drops transparent and near-white
+ * pixels — the background, not the brand — and reduces the rest to a few
+ * colours with median cut: the box of pixels with the widest channel range
+ * is split at its median until there are enough boxes, and each box becomes
+ * its mean colour. Near-identical colours (anti-aliasing, JPEG noise) are
+ * merged and slivers under 2% dropped.
+ *
+ * Each colour comes with its share of the logo's pixels and whichever of
+ * black or white text reads better on it (WCAG contrast ratio).
+ */
+
+import { decodeImage, type RasterImage, type RgbColor } from "./image-converter.js";
+import type { ImageInfo } from "./image-validator.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface BrandColor {
+    /** e.g. "#635bff" */
+    hex: string;
+    /** Share of the logo's coloured (non-background) pixels, 0–1. */
+    proportion: number;
+    /** "#000000" or "#ffffff", whichever contrasts more with this colour. */
+    textColor: string;
+    /** WCAG contrast ratio of textColor on this colour, 1–21. */
+    contrast: number;
+}
+
+export interface BrandPalette {
+    /** Most common first; empty when the logo is all white or transparent. */
+    colors: BrandColor[];
+    /** The most common colour's hex, if any. */
+    primary?: string;
+    /** Text colour to use on the primary colour. */
+    textColor?: string;
+    /** Coloured pixels the palette was computed from (after sampling). */
+    sampledPixels: number;
+}
+
+export const DEFAULT_PALETTE_SIZE = 5;
+
+/** Pixels less opaque than this are background. */
+const MIN_ALPHA = 128;
+/** Pixels with every channel at least this bright are (near-)white background. */
+const NEAR_WHITE = 240;
+/** Larger images are sampled on a grid down to about this many pixels. */
+const MAX_SAMPLES = 20000;
+/** Colours closer than this (RGB distance) are merged. */
+const MERGE_DISTANCE = 28;
+/** Colours covering less than this share of the logo are dropped. */
+const MIN_PROPORTION = 0.02;
+
+// ─── Median Cut ──────────────────────────────────────────────────────────────
+
+type Pixel = [number, number, number];
+
+interface Box {
+    pixels: Pixel[];
+    /** Channel with the widest range, and that range. */
+    channel: 0 | 1 | 2;
+    range: number;
+}
+
+function makeBox(pixels: Pixel[]): Box {
+    let channel: 0 | 1 | 2 = 0;
+    let range = -1;
+    for (const c of [0, 1, 2] as const) {
+        let min = 255;
+        let max = 0;
+        for (const p of pixels) {
+            if (p[c] < min) min = p[c];
+            if (p[c] > max) max = p[c];
+        }
+        if (max - min > range) {
+            range = max - min;
+            channel = c;
+        }
+    }
+    return { pixels, channel, range };
+}
+
+function meanColor(pixels: Pixel[]): RgbColor {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    for (const p of pixels) {
+        r += p[0];
+        g += p[1];
+        b += p[2];
+    }
+    return { r: r / pixels.length, g: g / pixels.length, b: b / pixels.length };
+}
+
+function medianCut(pixels: Pixel[], count: number): Array<{ color: RgbColor; weight: number }> {
+    const boxes: Box[] = [makeBox(pixels)];
+
+    while (boxes.length < count) {
+        // Split the box whose spread covers the most pixels; uniform boxes stay whole
+        let target = -1;
+        for (let i = 0; i < boxes.length; i++) {
+            const box = boxes[i];
+            if (box.range < MERGE_DISTANCE / 2 || box.pixels.length < 2) continue;
+            if (target < 0 || box.range * box.pixels.length > boxes[target].range * boxes[target].pixels.length) {
+                target = i;
+            }
+        }
+        if (target < 0) break;
+
+        const { pixels: members, channel } = boxes[target];
+        members.sort((a, b) => a[channel] - b[channel]);
+        const mid = Math.floor(members.length / 2);
+        boxes.splice(target, 1, makeBox(members.slice(0, mid)), makeBox(members.slice(mid)));
+    }
+
+    return boxes.map((box) => ({ color: meanColor(box.pixels), weight: box.pixels.length }));
+}
+
+// ─── Colour Helpers ──────────────────────────────────────────────────────────
+
+function toHex({ r, g, b }: RgbColor): string {
+    return "#" + [r, g, b].map((c) => Math.round(c).toString(16).padStart(2, "0")).join("");
+}
+
+function distance(a: RgbColor, b: RgbColor): number {
+    return Math.hypot(a.r - b.r, a.g - b.g, a.b - b.b);
+}
+
+/** WCAG relative luminance, 0 (black) to 1 (white). */
+function luminance({ r, g, b }: RgbColor): number {
+    const linear = (c: number) => {
+        const s = c / 255;
+        return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+    };
+    return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+}
+
+/**
+ * Black or white, whichever has the higher WCAG contrast ratio on `color`.
+ */
+export function contrastingTextColor(color: RgbColor): { textColor: string; contrast: number } {
+    const l = luminance(color);
+    const onBlack = (l + 0.05) / 0.05;
+    const onWhite = 1.05 / (l + 0.05);
+    return onBlack >= onWhite
+        ? { textColor: "#000000", contrast: Math.round(onBlack * 10) / 10 }
+        : { textColor: "#ffffff", contrast: Math.round(onWhite * 10) / 10 };
+}
+
+// ─── Extraction ──────────────────────────────────────────────────────────────
+
+/**
+ * Extract up to `count` dominant colours from a decoded image.
+ */
+export function extractPalette(image: RasterImage, count: number = DEFAULT_PALETTE_SIZE): BrandPalette {
+    const step = Math.max(1, Math.ceil(Math.sqrt((image.width * image.height) / MAX_SAMPLES)));
+    const pixels: Pixel[] = [];
+
+    for (let y = 0; y < image.height; y += step) {
+        for (let x = 0; x < image.width; x += step) {
+            const i = (y * image.width + x) * 4;
+            const r = image.data[i];
+            const g = image.data[i + 1];
+            const b = image.data[i + 2];
+            if (image.data[i + 3] < MIN_ALPHA) continue;
+            if (r >= NEAR_WHITE && g >= NEAR_WHITE && b >= NEAR_WHITE) continue;
+            pixels.push([r, g, b]);
+        }
+    }
+
+    if (pixels.length === 0) return { colors: [], sampledPixels: 0 };
+
+    // Merge near-identical colours, heaviest first so they absorb the slivers
+    const merged: Array<{ color: RgbColor; weight: number }> = [];
+    for (const entry of medianCut(pixels, count).sort((a, b) => b.weight - a.weight)) {
+        const near = merged.find((m) => distance(m.color, entry.color) < MERGE_DISTANCE);
+        if (!near) {
+            merged.push({ ...entry });
+            continue;
+        }
+        const weight = near.weight + entry.weight;
+        near.color = {
+            r: (near.color.r * near.weight + entry.color.r * entry.weight) / weight,
+            g: (near.color.g * near.weight + entry.color.g * entry.weight) / weight,
+            b: (near.color.b * near.weight + entry.color.b * entry.weight) / weight,
+        };
+        near.weight = weight;
+    }
+
+    const colors: BrandColor[] = merged
+        .map(({ color, weight }) => ({
+            hex: toHex(color),
+            proportion: Math.round((weight / pixels.length) * 1000) / 1000,
+            ...contrastingTextColor(color),
+        }))
+        .filter((c) => c.proportion >= MIN_PROPORTION)
+        .sort((a, b) => b.proportion - a.proportion);
+
+    return { colors, primary: colors[0]?.hex, textColor: colors[0]?.textColor, sampledPixels: pixels.length };
+}
+
+/**
+ * Decode a validated logo and extract its palette. Returns null for formats
+ * that can't be decoded, or when decoding fails.
+ */
+export async function extractLogoPalette(
+    buffer: Buffer,
+    info: ImageInfo,
+    count: number = DEFAULT_PALETTE_SIZE
+): Promise<BrandPalette | null> {
+    try {
+        return extractPalette(await decodeImage(buffer, info), count);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * One-line summary, e.g. `#635bff 72%, #0a2540 28% (text on primary: #ffffff)`.
+ */
+export function describePalette(palette: BrandPalette): string {
+    if (palette.colors.length === 0) return "none (the logo is white or transparent)";
+    const colors = palette.colors.map((c) => `${c.hex} ${Math.round(c.proportion * 100)}%`).join(", ");
+    return `${colors} (text on primary: ${palette.textColor})`;
+}
@@ -0,0 +1,420 @@
+/**
+ * Company Database Files — User-supplied entries merged over the built-in database
+ *
+ * Each file adds or replaces companies and can remove built-in ones:
+ *
+ *   companies:
+ *     acme:
+ *       domain: acme.io
+ *       aliases: [acme corp]
+ *       category: Partners
+ *       logos:                      # optional pinned logos, tried before any source
+ *         - { src: ./logos/acme.svg }
+ *         - { src: https://cdn.acme.io/acme-dark.png, size: 256, variant: dark }
+ *   remove: [godot]
+ *
+ * Files are JSON (.json) or YAML (.yaml / .yml) and are applied in order on
+ * top of the built-in database, so later files win. An entry replaces any
+ * existing entry of the same name; `remove` deletes names from everything
+ * applied before it. Every file is validated against the `CompanyEntry` shape.
+ *
+ * Files are watched and reloaded when they change. A file that fails to parse
+ * or validate on reload keeps its last good contents.
+ *
+ * Above all files sits the user layer: a database file of the same format that
+ * the add/update/remove company tools edit, saved after every change.
+ *
+ * Configuration: MCP_LOGO_COMPANY_DB — file paths separated by the platform
+ * path delimiter (":" on Linux and macOS, ";" on Windows); MCP_LOGO_USER_DB —
+ * the user layer file (default ~/.config/mcp-logo-downloader/companies.json).
+ */
+
+import { readFileSync, watch, type FSWatcher } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { basename, delimiter, dirname, extname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { z } from "zod";
+
+import type { CompanyEntry } from "./domain-resolver.js";
+import { LOGO_VARIANTS } from "./logo-variant.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface CompanyDatabaseLayer {
+    path: string;
+    /** Companies added or replaced, keyed by name as written in the file. */
+    companies: Record<string, CompanyEntry>;
+    /** Names removed from the database below this layer. */
+    remove: string[];
+}
+
+export interface CompanyDatabaseFileStatus {
+    path: string;
+    loaded: boolean;
+    companies: number;
+    removed: number;
+    /** Last load error; set while the file's previous contents stay in effect. */
+    error?: string;
+}
+
+/** A hostname, optionally followed by a path (the curated database has a few, e.g. elastic.co/kibana). */
+const DOMAIN_PATTERN = /^(?=[^/]{1,253}(\/|$))([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}(\/[^\s?#]*)?$/;
+
+/**
+ * Pinned logo sources are URLs or local paths. Relative paths resolve against
+ * `baseDir` (the database file's directory), and `~/` against the home directory.
+ */
+function pinnedLogoSchema(baseDir: string) {
+    return z
+        .object({
+            src: z
+                .string()
+                .trim()
+                .min(1)
+                .transform((src) => {
+                    if (/^https?:\/\//i.test(src)) return src;
+                    if (/^file:\/\//i.test(src)) return fileURLToPath(src);
+                    if (src.startsWith("~/")) return join(homedir(), src.slice(2));
+                    return resolve(baseDir, src);
+                }),
+            size: z.number().int().min(8).max(4096).optional(),
+            variant: z.string().trim().toLowerCase().pipe(z.enum(LOGO_VARIANTS)).optional(),
+        })
+        .strict();
+}
+
+function companyEntrySchema(baseDir: string) {
+    return z
+        .object({
+            domain: z
+                .string()
+                .transform((domain) => domain.trim().toLowerCase())
+                .refine((domain) => DOMAIN_PATTERN.test(domain), "must be a domain such as example.com, without a scheme"),
+            aliases: z.array(z.string().trim().min(1)).default([]),
+            category: z.string().trim().min(1),
+            logos: z.array(pinnedLogoSchema(baseDir)).optional(),
+        })
+        .strict();
+}
+
+function databaseFileSchema(baseDir: string) {
+    return z
+        .object({
+            companies: z.record(z.string().trim().min(1), companyEntrySchema(baseDir)).default({}),
+            remove: z.array(z.string().trim().min(1)).default([]),
+        })
+        .strict();
+}
+
+let files: string[] = [];
+let layers = new Map<string, CompanyDatabaseLayer>();
+let errors = new Map<string, string>();
+let watchers: FSWatcher[] = [];
+let generation = 0;
+/** Names each recent generation changed, oldest first; null names mean anything may have. */
+let changeLog: Array<{ generation: number; names: string[] | null }> = [];
+
+let userPath = join(homedir(), ".config", "mcp-logo-downloader", "companies.json");
+let userLayer: CompanyDatabaseLayer = { path: userPath, companies: {}, remove: [] };
+let userWrites: Promise<unknown> = Promise.resolve();
+
+const listeners = new Set<() => void>();
+
+// ─── Parsing & Validation ────────────────────────────────────────────────────
+
+/**
+ * Validate parsed file contents and return them as a layer. Throws with every
+ * problem listed by its location in the file.
+ */
+export function parseCompanyDatabase(data: unknown, path: string): CompanyDatabaseLayer {
+    const result = databaseFileSchema(dirname(path)).safeParse(data ?? {});
+    if (!result.success) {
+        throw new Error(`Invalid company database file ${path}:\n  ${formatIssues(result.error).join("\n  ")}`);
+    }
+    return { path, ...result.data };
+}
+
+/**
+ * Validate a single entry (trimming values, lowercasing the domain and making
+ * pinned logo paths absolute against `baseDir`).
+ */
+export function parseCompanyEntry(data: unknown, baseDir: string = process.cwd()): CompanyEntry {
+    const result = companyEntrySchema(baseDir).safeParse(data);
+    if (!result.success) {
+        throw new Error(`Invalid company entry — ${formatIssues(result.error).join("; ")}`);
+    }
+    return result.data;
+}
+
+function formatIssues(error: z.ZodError): string[] {
+    return error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+}
+
+/**
+ * Serialize database contents in the file format, for export.
+ */
+export function serializeCompanyDatabase(
+    data: Pick<CompanyDatabaseLayer, "companies" | "remove">,
+    format: "json" | "yaml"
+): string {
+    const file = data.remove.length > 0 ? { companies: data.companies, remove: data.remove } : { companies: data.companies };
+    return format === "yaml" ? stringifyYaml(file) : `${JSON.stringify(file, null, 2)}\n`;
+}
+
+function readLayer(path: string): CompanyDatabaseLayer {
+    const raw = readFileSync(path, "utf-8");
+    const ext = extname(path).toLowerCase();
+
+    let data: unknown;
+    try {
+        data = ext === ".yaml" || ext === ".yml" ? parseYaml(raw) : JSON.parse(raw);
+    } catch (err) {
+        throw new Error(`Cannot parse company database file ${path}: ${err instanceof Error ? err.message : err}`);
+    }
+    return parseCompanyDatabase(data, path);
+}
+
+// ─── Loading & Reloading ─────────────────────────────────────────────────────
+
+/** Generations kept in the change log; readers further behind start over. */
+const MAX_CHANGE_LOG = 64;
+
+/**
+ * Names whose entries or removal differ between two versions of a layer, as
+ * written in the layers.
+ */
+function changedNames(before: CompanyDatabaseLayer | undefined, after: CompanyDatabaseLayer): string[] {
+    const names = new Set<string>();
+    const previous = before?.companies ?? {};
+    for (const name of new Set([...Object.keys(previous), ...Object.keys(after.companies)])) {
+        if (JSON.stringify(previous[name]) !== JSON.stringify(after.companies[name])) names.add(name);
+    }
+    const removedBefore = new Set(before?.remove ?? []);
+    const removedAfter = new Set(after.remove);
+    for (const name of removedBefore) if (!removedAfter.has(name)) names.add(name);
+    for (const name of removedAfter) if (!removedBefore.has(name)) names.add(name);
+    return Array.from(names);
+}
+
+function changed(names: string[] | null = null): void {
+    generation++;
+    changeLog.push({ generation, names });
+    if (changeLog.length > MAX_CHANGE_LOG) changeLog = changeLog.slice(-MAX_CHANGE_LOG);
+    for (const listener of listeners) listener();
+}
+
+/**
+ * Reload one file. Returns false (and keeps the previous contents) on error.
+ */
+function reloadFile(path: string): boolean {
+    try {
+        const layer = readLayer(path);
+        const names = changedNames(layers.get(path), layer);
+        layers.set(path, layer);
+        errors.delete(path);
+        changed(names);
+        return true;
+    } catch (err) {
+        errors.set(path, err instanceof Error ? err.message : String(err));
+        return false;
+    }
+}
+
+function stopWatching(): void {
+    for (const watcher of watchers) watcher.close();
+    watchers = [];
+}
+
+/**
+ * Watch each file's directory rather than the file itself, so editors that
+ * save by replacing the file are still noticed.
+ */
+function startWatching(): void {
+    const byDir = new Map<string, string[]>();
+    for (const path of files) {
+        byDir.set(dirname(path), [...(byDir.get(dirname(path)) ?? []), path]);
+    }
+
+    for (const [dir, paths] of byDir) {
+        const timers = new Map<string, NodeJS.Timeout>();
+        const watcher = watch(dir, { persistent: false }, (_event, filename) => {
+            const path = paths.find((p) => basename(p) === filename?.toString());
+            if (!path) return;
+
+            // Editors often write in several steps — reload once things settle
+            clearTimeout(timers.get(path));
+            timers.set(
+                path,
+                setTimeout(() => {
+                    if (!reloadFile(path)) {
+                        console.error(`⚠️  Keeping previous company database entries: ${errors.get(path)}`);
+                    }
+                }, 100)
+            );
+        });
+        watcher.on("error", () => undefined);
+        watchers.push(watcher);
+    }
+}
+
+/**
+ * Load database files, replacing any loaded before. Throws if a file is
+ * missing or invalid, so a broken setup fails at startup rather than silently.
+ */
+export function configureCompanyDatabase(paths: string[], options: { watch?: boolean } = {}): void {
+    const { watch: shouldWatch = true } = options;
+    const resolved = paths.map((path) => resolve(path));
+    const loaded = new Map(resolved.map((path) => [path, readLayer(path)]));
+
+    stopWatching();
+    files = resolved;
+    layers = loaded;
+    errors = new Map();
+    changed();
+
+    if (shouldWatch && files.length > 0) startWatching();
+}
+
+/**
+ * Load database files named by MCP_LOGO_COMPANY_DB and the user layer from
+ * MCP_LOGO_USER_DB (see the module header).
+ */
+export function loadCompanyDatabaseFromEnv(
+    env: NodeJS.ProcessEnv = process.env,
+    options: { watch?: boolean } = {}
+): void {
+    const paths = (env.MCP_LOGO_COMPANY_DB ?? "")
+        .split(delimiter)
+        .map((path) => path.trim())
+        .filter(Boolean);
+    configureCompanyDatabase(paths, options);
+
+    configureUserDatabase(env.MCP_LOGO_USER_DB || userPath);
+}
+
+/**
+ * Re-read every configured file now. Invalid files keep their previous contents.
+ */
+export function reloadCompanyDatabase(): CompanyDatabaseFileStatus[] {
+    for (const path of files) reloadFile(path);
+    return getCompanyDatabaseStatus();
+}
+
+// ─── User Layer ──────────────────────────────────────────────────────────────
+
+/**
+ * Point the user layer at a file and load it. A missing file is an empty layer;
+ * an invalid one throws.
+ */
+export function configureUserDatabase(path: string): void {
+    const resolved = resolve(path);
+    let layer: CompanyDatabaseLayer;
+    try {
+        layer = readLayer(resolved);
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+        layer = { path: resolved, companies: {}, remove: [] };
+    }
+
+    userPath = resolved;
+    userLayer = layer;
+    changed();
+}
+
+export function getUserDatabasePath(): string {
+    return userPath;
+}
+
+/**
+ * The user layer's current contents.
+ */
+export function getUserLayer(): CompanyDatabaseLayer {
+    return userLayer;
+}
+
+/**
+ * Change the user layer and save it. `mutate` receives a copy of the layer;
+ * if it throws, nothing changes. Updates run one at a time, so `mutate` always
+ * sees the result of the previous one.
+ */
+export function updateUserLayer<T>(mutate: (layer: CompanyDatabaseLayer) => T): Promise<T> {
+    const update = userWrites
+        .catch(() => undefined)
+        .then(async () => {
+            const layer: CompanyDatabaseLayer = structuredClone(userLayer);
+            const result = mutate(layer);
+            layer.remove = Array.from(new Set(layer.remove)).sort();
+
+            // Write through a temp file so a crash never leaves a half-written layer
+            await mkdir(dirname(layer.path), { recursive: true });
+            const temp = `${layer.path}.${process.pid}.tmp`;
+            await writeFile(temp, serializeCompanyDatabase(layer, /\.ya?ml$/i.test(layer.path) ? "yaml" : "json"));
+            await rename(temp, layer.path);
+
+            const names = changedNames(userLayer, layer);
+            userLayer = layer;
+            changed(names);
+            return result;
+        });
+    userWrites = update;
+    return update;
+}
+
+// ─── Inspection ──────────────────────────────────────────────────────────────
+
+/**
+ * The loaded layers, in the order they apply: files, then the user layer.
+ */
+export function getCompanyDatabaseLayers(): CompanyDatabaseLayer[] {
+    const fileLayers = files.map((path) => layers.get(path)).filter((layer): layer is CompanyDatabaseLayer => !!layer);
+    return [...fileLayers, userLayer];
+}
+
+/**
+ * Increments whenever the layers change; lets readers cache the merged database.
+ */
+export function getCompanyDatabaseGeneration(): number {
+    return generation;
+}
+
+/**
+ * Names (as written in the layers) whose entries may have changed since a
+ * generation, so a reader can update just those. Null when that is unknown —
+ * files were reconfigured, or the generation is too old — and the reader
+ * should start over.
+ */
+export function getCompanyDatabaseChanges(since: number): string[] | null {
+    if (since === generation) return [];
+    const start = changeLog.findIndex((change) => change.generation === since + 1);
+    if (start < 0) return null;
+
+    const names = new Set<string>();
+    for (const change of changeLog.slice(start)) {
+        if (!change.names) return null;
+        for (const name of change.names) names.add(name);
+    }
+    return Array.from(names);
+}
+
+export function getCompanyDatabaseStatus(): CompanyDatabaseFileStatus[] {
+    return files.map((path) => {
+        const layer = layers.get(path);
+        return {
+            path,
+            loaded: !!layer,
+            companies: layer ? Object.keys(layer.companies).length : 0,
+            removed: layer ? layer.remove.length : 0,
+            error: errors.get(path),
+        };
+    });
+}
+
+/**
+ * Call `listener` whenever the database files change. Returns an unsubscribe function.
+ */
+export function onCompanyDatabaseChange(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
@@ -0,0 +1,665 @@
+/**
+ * Company Index — In-memory lookups for large company databases
+ *
+ * Scoring a query with the name matcher against every name and alias is fine
+ * for the curated 200 companies, not for a 100k-company database. The index
+ * narrows a query down to the names that can match at all, then only those
+ * are scored:
+ *
+ *   exact, acronym, phonetic   hash lookups on precomputed keys
+ *   edit distance              partition index: names are cut into segments,
+ *                              one of which survives any allowed edits intact
+ *   prefix, containment        trigram index (names containing the query), and
+ *                              substring lookups (names inside the query)
+ *   shared words               names by word set (names made only of query
+ *                              words) and inverted word index (names containing
+ *                              all of them), with one-typo word lookups
+ *   categories                 inverted category index, with counts
+ *   domains                    domain → companies
+ *
+ * The index is built once per database and then kept in step with it entry by
+ * entry (`set`, `delete`, `sync`) instead of being rebuilt.
+ */
+
+import type { CompanyEntry } from "./domain-resolver.js";
+import { matchName, maxEdits, normalizeName, prepareName, type PreparedName } from "./name-matcher.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** One name a company can be found by: its database key or an alias. */
+export interface IndexedName {
+    name: PreparedName;
+    /** The alias as written in the database; unset for the company key. */
+    alias?: string;
+}
+
+/** A company as indexed. */
+export interface IndexedCompany {
+    readonly key: string;
+    /** Position in the database, for stable ordering of equal scores. */
+    readonly ordinal: number;
+    /** The names it can be found by, key first. */
+    readonly names: IndexedName[];
+    /** Normalized category. */
+    readonly category: string;
+    /** The entry as last indexed; merged databases reuse unchanged entry objects. */
+    readonly entry: CompanyEntry;
+}
+
+interface CompanyRecord extends IndexedCompany {
+    entry: CompanyEntry;
+    /** Aliases and category, to tell whether `sync` needs to re-index an entry. */
+    signature: string;
+}
+
+/** Words shorter than this only match exactly (see `wordsMatch`). */
+const MIN_TYPO_WORD_LENGTH = 5;
+
+function addTo<K, V>(map: Map<K, Set<V>>, key: K, value: V): void {
+    let set = map.get(key);
+    if (!set) map.set(key, (set = new Set()));
+    set.add(value);
+}
+
+function removeFrom<K, V>(map: Map<K, Set<V>>, key: K, value: V): void {
+    const set = map.get(key);
+    if (!set) return;
+    set.delete(value);
+    if (set.size === 0) map.delete(key);
+}
+
+// ─── Edit Distance Index ─────────────────────────────────────────────────────
+
+/** Cut a length into `count` near-equal segments, longer ones last. */
+function partition(length: number, count: number): Array<{ start: number; size: number }> {
+    const base = Math.floor(length / count);
+    const longer = length % count;
+    const segments: Array<{ start: number; size: number }> = [];
+    for (let i = 0, start = 0; i < count; i++) {
+        const size = base + (i >= count - longer ? 1 : 0);
+        segments.push({ start, size });
+        start += size;
+    }
+    return segments;
+}
+
+/**
+ * Letters of a string as two bit masks, a bit per letter a–z (and one for
+ * anything else): the letters that occur, and those that occur more than once.
+ */
+function lettersOf(value: string): [number, number] {
+    let once = 0;
+    let twice = 0;
+    for (let i = 0; i < value.length; i++) {
+        const letter = value.charCodeAt(i) - 97;
+        const bit = letter >= 0 && letter < 26 ? 1 << letter : 1 << 26;
+        twice |= once & bit;
+        once |= bit;
+    }
+    return [once, twice];
+}
+
+/**
+ * Letter pairs of a string, hashed to a bit each. An edit removes at most two
+ * of a string's pairs, so strings within k edits each have at most 2k pair
+ * bits the other lacks.
+ */
+function pairsOf(value: string): number {
+    let mask = 0;
+    for (let i = 1; i < value.length; i++) mask |= 1 << ((value.charCodeAt(i - 1) * 31 + value.charCodeAt(i)) & 31);
+    return mask;
+}
+
+function bitCount(mask: number): number {
+    const pairs = mask - ((mask >>> 1) & 0x55555555);
+    const nibbles = (pairs & 0x33333333) + ((pairs >>> 2) & 0x33333333);
+    return Math.imul((nibbles + (nibbles >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+}
+
+let bandRows: [Int32Array, Int32Array] = [new Int32Array(64), new Int32Array(64)];
+
+/**
+ * Whether two strings are at most `max` edits apart (Levenshtein). A shared
+ * prefix and suffix don't change the distance, so they are skipped — names
+ * that differ only in a short first word ("cin logistics", "bu logistics")
+ * are compared by that word alone. Of the rest, only the band of cells within
+ * `max` of the diagonal is computed, and it stops at the first row entirely
+ * over the limit — most strings that merely share a segment with the query
+ * are ruled out after a few characters.
+ */
+function withinEdits(a: string, b: string, max: number): boolean {
+    if (Math.abs(a.length - b.length) > max) return false;
+    let start = 0;
+    while (start < a.length && start < b.length && a.charCodeAt(start) === b.charCodeAt(start)) start++;
+    let aEnd = a.length;
+    let bEnd = b.length;
+    while (aEnd > start && bEnd > start && a.charCodeAt(aEnd - 1) === b.charCodeAt(bEnd - 1)) {
+        aEnd--;
+        bEnd--;
+    }
+    const aLength = aEnd - start;
+    const bLength = bEnd - start;
+    if (aLength === 0 || bLength === 0) return Math.max(aLength, bLength) <= max;
+
+    if (bandRows[0].length <= bLength) bandRows = [new Int32Array(2 * bLength + 2), new Int32Array(2 * bLength + 2)];
+    let previous = bandRows[0];
+    let current = bandRows[1];
+    const over = max + 1;
+
+    for (let j = 0; j <= bLength; j++) previous[j] = j <= max ? j : over;
+    for (let i = 1; i <= aLength; i++) {
+        const from = Math.max(1, i - max);
+        const to = Math.min(bLength, i + max);
+        current[from - 1] = from === 1 ? i : over;
+        let rowMin = current[from - 1];
+        const letter = a.charCodeAt(start + i - 1);
+        for (let j = from; j <= to; j++) {
+            let cell = previous[j - 1] + (letter === b.charCodeAt(start + j - 1) ? 0 : 1);
+            if (previous[j] + 1 < cell) cell = previous[j] + 1;
+            if (current[j - 1] + 1 < cell) cell = current[j - 1] + 1;
+            current[j] = cell;
+            if (cell < rowMin) rowMin = cell;
+        }
+        if (to < bLength) current[to + 1] = over;
+        if (rowMin > max) return false;
+        const done = previous;
+        previous = current;
+        current = done;
+    }
+    return previous[bLength] <= max;
+}
+
+/** Strings that share one segment, with their ids and letter masks. */
+interface Posting {
+    values: string[];
+    ids: number[];
+    once: number[];
+    twice: number[];
+    pairs: number[];
+}
+
+/**
+ * Strings indexed for edit-distance lookups by partition: each string is cut
+ * into one more segment than the edits its length allows, so a string within
+ * that many edits of a query keeps at least one segment intact, found in the
+ * query near the segment's own position. A lookup is a few dozen hash probes
+ * rather than a scan; strings that merely share a segment (a common ending
+ * like "… cloud") are mostly ruled out by the letters they contain, the rest
+ * by `withinEdits` after a few characters.
+ *
+ * `editsFor` gives the edits allowed between two strings by the shorter one's
+ * length, and must not decrease as the length grows.
+ */
+class EditIndex {
+    /** Length → segment number → segment → strings, with their masks. */
+    private segments = new Map<number, Array<Map<string, Posting>>>();
+    /** String ids, reused once removed; a lookup stamps the ids it has checked. */
+    private nextId = 0;
+    private freeIds: number[] = [];
+    private checked = new Uint32Array(1024);
+    private lookup = 0;
+
+    constructor(private readonly editsFor: (length: number) => number) {}
+
+    add(value: string): void {
+        const [once, twice] = lettersOf(value);
+        const pairs = pairsOf(value);
+        const id = this.freeIds.pop() ?? this.nextId++;
+        const bySegment = this.segmentsOf(value.length);
+        this.forEachSegment(value, (segment, i) => {
+            let posting = bySegment[i].get(segment);
+            if (!posting) bySegment[i].set(segment, (posting = { values: [], ids: [], once: [], twice: [], pairs: [] }));
+            posting.values.push(value);
+            posting.ids.push(id);
+            posting.once.push(once);
+            posting.twice.push(twice);
+            posting.pairs.push(pairs);
+        });
+    }
+
+    remove(value: string): void {
+        const bySegment = this.segments.get(value.length);
+        if (!bySegment) return;
+        let id: number | undefined;
+        this.forEachSegment(value, (segment, i) => {
+            const posting = bySegment[i].get(segment);
+            const at = posting?.values.indexOf(value) ?? -1;
+            if (!posting || at < 0) return;
+            id = posting.ids[at];
+            for (const list of [posting.values, posting.ids, posting.once, posting.twice, posting.pairs] as unknown[][]) {
+                list[at] = list[list.length - 1];
+                list.pop();
+            }
+            if (posting.values.length === 0) bySegment[i].delete(segment);
+        });
+        if (id !== undefined) this.freeIds.push(id);
+    }
+
+    private segmentsOf(length: number): Array<Map<string, Posting>> {
+        let bySegment = this.segments.get(length);
+        if (!bySegment) {
+            bySegment = Array.from({ length: this.editsFor(length) + 1 }, () => new Map<string, Posting>());
+            this.segments.set(length, bySegment);
+        }
+        return bySegment;
+    }
+
+    private forEachSegment(value: string, fn: (segment: string, i: number) => void): void {
+        partition(value.length, this.editsFor(value.length) + 1).forEach(({ start, size }, i) => fn(value.slice(start, start + size), i));
+    }
+
+    /** Strings within the edits allowed between them and the query. */
+    near(query: string): string[] {
+        const found: string[] = [];
+        // A string sharing several segments with the query is only checked once
+        if (this.checked.length < this.nextId) this.checked = new Uint32Array(2 * this.nextId);
+        if (++this.lookup === 0xffffffff) {
+            this.checked.fill(0);
+            this.lookup = 1;
+        }
+        const { checked, lookup } = this;
+        const reach = this.editsFor(query.length);
+        const [queryOnce, queryTwice] = lettersOf(query);
+        const queryPairs = pairsOf(query);
+
+        for (let length = Math.max(1, query.length - reach); length <= query.length + reach; length++) {
+            const shift = query.length - length;
+            const edits = this.editsFor(Math.min(query.length, length));
+            const bySegment = this.segments.get(length);
+            if (Math.abs(shift) > edits || !bySegment) continue;
+
+            // Segment i can only have moved by the edits before it (at most i)
+            // and the length change plus the edits after it (at most τ - i)
+            const tau = this.editsFor(length);
+            partition(length, tau + 1).forEach(({ start, size }, i) => {
+                const from = Math.max(0, start - i, start + shift - (tau - i));
+                const to = Math.min(query.length - size, start + i, start + shift + (tau - i));
+                for (let at = from; at <= to; at++) {
+                    const posting = bySegment[i].get(query.slice(at, at + size));
+                    if (!posting) continue;
+                    const { values, ids, once, twice, pairs } = posting;
+                    for (let j = 0; j < values.length; j++) {
+                        if (checked[ids[j]] === lookup) continue;
+                        checked[ids[j]] = lookup;
+                        // Each edit changes the count of at most two letters by one
+                        if (bitCount(once[j] ^ queryOnce) + bitCount(twice[j] ^ queryTwice) > 2 * edits) continue;
+                        if (bitCount(pairs[j] & ~queryPairs) > 2 * edits || bitCount(queryPairs & ~pairs[j]) > 2 * edits) continue;
+                        if (withinEdits(values[j], query, edits)) found.push(values[j]);
+                    }
+                }
+            });
+        }
+        return found;
+    }
+}
+
+// ─── Trigram Index ───────────────────────────────────────────────────────────
+
+/** Distinct trigrams of a string. */
+function trigrams(value: string): string[] {
+    const grams = new Set<string>();
+    for (let i = 0; i < value.length - 2; i++) grams.add(value.slice(i, i + 3));
+    return Array.from(grams);
+}
+
+/** Strings indexed by their trigrams, for containment lookups, each with an item. */
+class TrigramIndex<T> {
+    /** Trigram → strings with it → their items. */
+    private postings = new Map<string, Map<string, T>>();
+
+    add(value: string, item: T): void {
+        for (const gram of trigrams(value)) {
+            let values = this.postings.get(gram);
+            if (!values) this.postings.set(gram, (values = new Map()));
+            values.set(value, item);
+        }
+    }
+
+    remove(value: string): void {
+        for (const gram of trigrams(value)) {
+            const values = this.postings.get(gram);
+            values?.delete(value);
+            if (values?.size === 0) this.postings.delete(gram);
+        }
+    }
+
+    /**
+     * Items of the strings containing the query (at least three characters
+     * long). They all contain its rarest trigram, so only that one's strings
+     * are checked.
+     */
+    containing(query: string): T[] {
+        let rarest: Map<string, T> | undefined;
+        for (const gram of trigrams(query)) {
+            const values = this.postings.get(gram);
+            if (!values) return [];
+            if (!rarest || values.size < rarest.size) rarest = values;
+        }
+        const found: T[] = [];
+        for (const [value, item] of rarest ?? []) {
+            if (value.includes(query)) found.push(item);
+        }
+        return found;
+    }
+}
+
+// ─── Company Index ───────────────────────────────────────────────────────────
+
+/** A name's distinct words, sorted. */
+function wordSetOf(name: PreparedName): string[] {
+    return Array.from(new Set(name.words)).sort();
+}
+
+export class CompanyIndex {
+    private companies = new Map<string, CompanyRecord>();
+    private nextOrdinal = 0;
+
+    /** Normalized name → companies known by it. */
+    private names = new Map<string, Set<CompanyRecord>>();
+    private prepared = new Map<string, PreparedName>();
+    /** Lookup keys → companies with a name that has them. */
+    private compacts = new Map<string, Set<CompanyRecord>>();
+    private acronyms = new Map<string, Set<CompanyRecord>>();
+    private phonetics = new Map<string, Set<CompanyRecord>>();
+    /** Words → normalized names. */
+    private words = new Map<string, Set<string>>();
+    /** Distinct words, sorted and space-joined → names made of exactly those. */
+    private wordSets = new Map<string, Set<string>>();
+    /** Leading words of those word sets → how many names' sets start with them. */
+    private wordSetPrefixes = new Map<string, number>();
+    /** Compact names and words, for edit-distance and containment lookups; containment yields the companies directly. */
+    private compactEdits = new EditIndex(maxEdits);
+    private compactGrams = new TrigramIndex<Set<CompanyRecord>>();
+    private wordEdits = new EditIndex((length) => (length >= MIN_TYPO_WORD_LENGTH ? 1 : 0));
+    /** Normalized category → companies; plus the category as written, and prepared for matching. */
+    private categories = new Map<string, Set<string>>();
+    private categoryNames = new Map<string, { written: string; name: PreparedName }>();
+    /** Lowercased domain → companies with it. */
+    private domains = new Map<string, Set<string>>();
+
+    static build(database: Record<string, CompanyEntry>): CompanyIndex {
+        const index = new CompanyIndex();
+        for (const [key, entry] of Object.entries(database)) index.set(key, entry);
+        return index;
+    }
+
+    get size(): number {
+        return this.companies.size;
+    }
+
+    /**
+     * Add a company, or re-index it if it changed. Keys must be normalized.
+     * Updated companies keep their position.
+     */
+    set(key: string, entry: CompanyEntry): void {
+        const existing = this.companies.get(key);
+        if (existing?.entry === entry) return;
+        const signature = `${entry.category}\n${entry.aliases.join("\n")}`;
+        if (existing?.signature === signature) {
+            removeFrom(this.domains, existing.entry.domain.toLowerCase(), key);
+            addTo(this.domains, entry.domain.toLowerCase(), key);
+            existing.entry = entry;
+            return;
+        }
+        if (existing) this.unindex(key, existing);
+
+        const names: IndexedName[] = [{ name: this.nameFor(key) }];
+        for (const alias of entry.aliases) {
+            const normalized = normalizeName(alias);
+            if (normalized && !names.some((n) => n.name.value === normalized)) {
+                names.push({ name: this.nameFor(normalized), alias });
+            }
+        }
+
+        const category = normalizeName(entry.category);
+        const record: CompanyRecord = { key, ordinal: existing?.ordinal ?? this.nextOrdinal++, names, category, entry, signature };
+        this.companies.set(key, record);
+        for (const { name } of names) this.indexName(name, record);
+        addTo(this.domains, entry.domain.toLowerCase(), key);
+
+        addTo(this.categories, category, key);
+        if (this.categoryNames.get(category)?.written !== entry.category) {
+            this.categoryNames.set(category, { written: entry.category, name: prepareName(category) });
+        }
+    }
+
+    delete(key: string): boolean {
+        const record = this.companies.get(key);
+        if (!record) return false;
+        this.unindex(key, record);
+        this.companies.delete(key);
+        return true;
+    }
+
+    /**
+     * Bring the index in line with a database: new entries are added, changed
+     * ones re-indexed and missing ones removed — only the differences are
+     * touched.
+     */
+    sync(database: Record<string, CompanyEntry>): { added: number; updated: number; removed: number } {
+        let added = 0;
+        let updated = 0;
+        let removed = 0;
+
+        for (const key of Array.from(this.companies.keys())) {
+            if (!Object.hasOwn(database, key)) {
+                this.delete(key);
+                removed++;
+            }
+        }
+        for (const [key, entry] of Object.entries(database)) {
+            const before = this.companies.get(key);
+            this.set(key, entry);
+            if (!before) added++;
+            else if (this.companies.get(key) !== before) updated++;
+        }
+        return { added, updated, removed };
+    }
+
+    get(key: string): IndexedCompany | undefined {
+        return this.companies.get(key);
+    }
+
+    /** The names a company can be found by, key first. */
+    namesOf(key: string): IndexedName[] {
+        return this.companies.get(key)?.names ?? [];
+    }
+
+    /** Companies known by a normalized name, as their key or an alias. */
+    companiesNamed(name: string): string[] {
+        return Array.from(this.names.get(name) ?? [], (record) => record.key);
+    }
+
+    /** Companies with a name (key or alias) that has a word, e.g. "ms" for alias "ms teams". */
+    companiesWithWord(word: string): string[] {
+        const keys = new Set<string>();
+        for (const name of this.words.get(word) ?? []) {
+            for (const record of this.names.get(name) ?? []) keys.add(record.key);
+        }
+        return Array.from(keys);
+    }
+
+    /** The first company, in database order, with a domain (lowercase). */
+    byDomain(domain: string): string | undefined {
+        let first: string | undefined;
+        for (const key of this.domains.get(domain) ?? []) {
+            if (first === undefined || this.ordinal(key) < this.ordinal(first)) first = key;
+        }
+        return first;
+    }
+
+    /** Position of a company in the database; ties in ranking keep this order. */
+    ordinal(key: string): number {
+        return this.companies.get(key)?.ordinal ?? Infinity;
+    }
+
+    /**
+     * Companies with at least one name the query can match in any way the
+     * name matcher scores (see name-matcher.ts), in database order. Every
+     * company `matchName` would score is included; most others are not.
+     * They come with their names and entries, so callers scoring many
+     * candidates don't look each one up again.
+     */
+    candidates(query: PreparedName): IndexedCompany[] {
+        const found = new Set<CompanyRecord>();
+        const add = (records: Iterable<CompanyRecord> | undefined) => {
+            for (const record of records ?? []) found.add(record);
+        };
+        const addNames = (names: Iterable<string>) => {
+            for (const name of names) add(this.names.get(name));
+        };
+        const { compact } = query;
+        if (!compact) return [];
+
+        // Exact and acronym matches
+        add(this.compacts.get(compact));
+        add(this.acronyms.get(compact));
+        if (query.acronym) add(this.compacts.get(query.acronym));
+
+        // Sounds alike
+        if (query.phonetic.length >= 3) add(this.phonetics.get(query.phonetic));
+
+        // Edit distance
+        for (const value of this.compactEdits.near(compact)) add(this.compacts.get(value));
+
+        // Prefix and containment: names containing the query, names inside it
+        if (compact.length >= 3) {
+            for (const companies of this.compactGrams.containing(compact)) add(companies);
+            for (let start = 0; start < compact.length; start++) {
+                for (let end = start + 3; end <= compact.length; end++) {
+                    add(this.compacts.get(compact.slice(start, end)));
+                }
+            }
+        }
+
+        // Shared words, one typo allowed in longer words: names made only of
+        // query words, and names containing every word of a multi-word query
+        const variants = query.words.map((word) => this.wordEdits.near(word));
+        addNames(this.namesWithin(Array.from(new Set(variants.flat())).sort()));
+        if (variants.length >= 2 && variants.every((words) => words.length > 0)) {
+            const postings = variants.map((words) => words.map((word) => this.words.get(word)!));
+            const sizes = postings.map((lists) => lists.reduce((sum, names) => sum + names.size, 0));
+            const wanted = variants.map((words) => new Set(words));
+            for (const names of postings[sizes.indexOf(Math.min(...sizes))]) {
+                for (const name of names) {
+                    const words = this.prepared.get(name)!.words;
+                    if (wanted.every((set) => words.some((word) => set.has(word)))) add(this.names.get(name));
+                }
+            }
+        }
+
+        return Array.from(found).sort((a, b) => a.ordinal - b.ordinal);
+    }
+
+    /** Categories as written, keyed by normalized name. */
+    listCategories(): Map<string, string> {
+        return new Map(Array.from(this.categoryNames, ([category, { written }]) => [category, written]));
+    }
+
+    /** Categories (normalized names) the query matches by name, e.g. "crm" or "payment". */
+    matchingCategories(query: PreparedName): string[] {
+        return Array.from(this.categoryNames)
+            .filter(([, { name }]) => matchName(query, name))
+            .map(([category]) => category);
+    }
+
+    /** Number of companies in a category (normalized name). */
+    categorySize(category: string): number {
+        return this.categories.get(category)?.size ?? 0;
+    }
+
+    /** Companies in a category (normalized name), in database order. */
+    inCategory(category: string): string[] {
+        return Array.from(this.categories.get(category) ?? []).sort((a, b) => this.ordinal(a) - this.ordinal(b));
+    }
+
+    // ── Internals ──
+
+    /**
+     * Names whose words are all in a sorted list of distinct words: subsets of
+     * the list are built up word by word, only while some name's word set
+     * starts with them.
+     */
+    private namesWithin(vocabulary: string[]): string[] {
+        const names: string[] = [];
+        const extend = (prefix: string, from: number) => {
+            for (let i = from; i < vocabulary.length; i++) {
+                const key = prefix ? `${prefix} ${vocabulary[i]}` : vocabulary[i];
+                if (!this.wordSetPrefixes.has(key)) continue;
+                names.push(...(this.wordSets.get(key) ?? []));
+                extend(key, i + 1);
+            }
+        };
+        extend("", 0);
+        return names;
+    }
+
+    private nameFor(normalized: string): PreparedName {
+        return this.prepared.get(normalized) ?? prepareName(normalized);
+    }
+
+    private indexName(name: PreparedName, record: CompanyRecord): void {
+        if (!this.compacts.has(name.compact)) {
+            const companies = new Set<CompanyRecord>();
+            this.compacts.set(name.compact, companies);
+            this.compactEdits.add(name.compact);
+            this.compactGrams.add(name.compact, companies);
+        }
+        addTo(this.compacts, name.compact, record);
+        if (name.acronym) addTo(this.acronyms, name.acronym, record);
+        if (name.phonetic) addTo(this.phonetics, name.phonetic, record);
+
+        const value = name.value;
+        const isNew = !this.names.has(value);
+        addTo(this.names, value, record);
+        if (!isNew) return;
+
+        this.prepared.set(value, name);
+        for (const word of new Set(name.words)) {
+            if (!this.words.has(word)) this.wordEdits.add(word);
+            addTo(this.words, word, value);
+        }
+        const wordSet = wordSetOf(name);
+        addTo(this.wordSets, wordSet.join(" "), value);
+        for (let i = 1; i <= wordSet.length; i++) {
+            const prefix = wordSet.slice(0, i).join(" ");
+            this.wordSetPrefixes.set(prefix, (this.wordSetPrefixes.get(prefix) ?? 0) + 1);
+        }
+    }
+
+    /** Only used to unindex a whole company, so it leaves every key its names have. */
+    private unindexName(name: PreparedName, record: CompanyRecord): void {
+        removeFrom(this.compacts, name.compact, record);
+        if (!this.compacts.has(name.compact)) {
+            this.compactEdits.remove(name.compact);
+            this.compactGrams.remove(name.compact);
+        }
+        if (name.acronym) removeFrom(this.acronyms, name.acronym, record);
+        if (name.phonetic) removeFrom(this.phonetics, name.phonetic, record);
+
+        const value = name.value;
+        removeFrom(this.names, value, record);
+        if (this.names.has(value)) return;
+
+        this.prepared.delete(value);
+        for (const word of new Set(name.words)) {
+            removeFrom(this.words, word, value);
+            if (!this.words.has(word)) this.wordEdits.remove(word);
+        }
+        const wordSet = wordSetOf(name);
+        removeFrom(this.wordSets, wordSet.join(" "), value);
+        for (let i = 1; i <= wordSet.length; i++) {
+            const prefix = wordSet.slice(0, i).join(" ");
+            const count = this.wordSetPrefixes.get(prefix)! - 1;
+            if (count > 0) this.wordSetPrefixes.set(prefix, count);
+            else this.wordSetPrefixes.delete(prefix);
+        }
+    }
+
+    private unindex(key: string, record: CompanyRecord): void {
+        for (const { name } of record.names) this.unindexName(name, record);
+        removeFrom(this.domains, record.entry.domain.toLowerCase(), key);
+        removeFrom(this.categories, record.category, key);
+        if (!this.categories.has(record.category)) this.categoryNames.delete(record.category);
+    }
+}
@@ -3,18 +3,50 @@
  *
  * Resolves company/integration names to their canonical domains with high accuracy.
  * Uses a curated database of 200+ companies, fuzzy matching for typo tolerance,
- * and smart domain inference as a final fallback.
+ * and smart domain inference as a final fallback. Domain names, URLs and email
+ * addresses are taken as given (reduced to their registrable domain). User database files (see
+ * company-database.ts) are merged over the curated entries.
  */
 
-import { distance } from "fastest-levenshtein";
+import { createHash } from "node:crypto";
+
 import * as cheerio from "cheerio";
+import { parse as parseHostname } from "tldts";
+import { isOfflineMode } from "./logo-pack.js";
+import { CompanyIndex, type IndexedCompany } from "./company-index.js";
+import { describeMatch, matchName, MATCH_SCORES, normalizeName, prepareName, type NameMatch } from "./name-matcher.js";
+import { describeVerification, getVerificationConfig, verifyDomain, type DomainVerification } from "./domain-verifier.js";
+import type { LogoVariant } from "./logo-variant.js";
+import {
+    getCompanyDatabaseChanges,
+    getCompanyDatabaseGeneration,
+    getCompanyDatabaseLayers,
+    getUserLayer,
+    parseCompanyEntry,
+    updateUserLayer,
+    type CompanyDatabaseLayer,
+} from "./company-database.js";
 
 // ─── Curated Company → Domain Database ──────────────────────────────────────
 
+/**
+ * A logo pinned to a company, used instead of querying logo sources.
+ */
+export interface PinnedLogo {
+    /** http(s) URL or absolute local file path. */
+    src: string;
+    /** Pixel size the logo is meant for; omit for logos that suit any size (e.g. SVG). */
+    size?: number;
+    /** Variant, e.g. "dark" or "icon". Omitted means the default logo. */
+    variant?: LogoVariant;
+}
+
 export interface CompanyEntry {
     domain: string;
     aliases: string[];
     category: string;
+    /** Pinned logos, tried before any logo source. */
+    logos?: PinnedLogo[];
 }
 
 /**
@@ -165,7 +197,7 @@ const COMPANY_DATABASE: Record<string, CompanyEntry> = {
     tableau: { domain: "tableau.com", aliases: [], category: "Analytics" },
     powerbi: { domain: "powerbi.microsoft.com", aliases: ["power bi", "microsoft power bi"], category: "Analytics" },
     snowflake: { domain: "snowflake.com", aliases: [], category: "Analytics" },
-    databricks: { domain: "databricks.com", aliases: ["data bricks"], category: "Analytics" },
+    databricks: { domain: "databricks.com", aliases: ["data bricks", "unity catalog"], category: "Analytics" },
     dbt: { domain: "getdbt.com", aliases: ["data build tool"], category: "Analytics" },
 
     // ── Social Media ──
@@ -275,25 +307,186 @@ const COMPANY_DATABASE: Record<string, CompanyEntry> = {
     box: { domain: "box.com", aliases: [], category: "Tech" },
     twitch: { domain: "twitch.tv", aliases: [], category: "Entertainment" },
     epic: { domain: "epicgames.com", aliases: ["epic games"], category: "Entertainment" },
+    "epic systems": { domain: "epic.com", aliases: [], category: "Tech" },
     unity: { domain: "unity.com", aliases: ["unity3d"], category: "DevTools" },
     unreal: { domain: "unrealengine.com", aliases: ["unreal engine", "ue"], category: "DevTools" },
     godot: { domain: "godotengine.org", aliases: ["godot engine"], category: "DevTools" },
 };
 
+let merged: { generation: number; database: Record<string, CompanyEntry>; index: CompanyIndex } | null = null;
+
+/** A layer's entries and removals by normalized name, as `mergeLayers` applies them. */
+const normalizedLayers = new WeakMap<CompanyDatabaseLayer, { companies: Map<string, CompanyEntry>; removed: Set<string> }>();
+
+function normalizedLayer(layer: CompanyDatabaseLayer): { companies: Map<string, CompanyEntry>; removed: Set<string> } {
+    let normalized = normalizedLayers.get(layer);
+    if (!normalized) {
+        normalized = {
+            companies: new Map(Object.entries(layer.companies).map(([name, entry]) => [normalizeName(name), entry])),
+            removed: new Set(layer.remove.map(normalizeName)),
+        };
+        normalizedLayers.set(layer, normalized);
+    }
+    return normalized;
+}
+
+/**
+ * Apply database layers in order over the curated database: entries replace
+ * same-named ones, `remove` lists delete names.
+ */
+function mergeLayers(layers: CompanyDatabaseLayer[]): Record<string, CompanyEntry> {
+    const database: Record<string, CompanyEntry> = { ...COMPANY_DATABASE };
+    for (const layer of layers) {
+        const { companies, removed } = normalizedLayer(layer);
+        for (const key of removed) {
+            delete database[key];
+        }
+        for (const [key, entry] of companies) {
+            database[key] = entry;
+        }
+    }
+    return database;
+}
+
+/**
+ * One company's entry after the layers are applied, or undefined if it is
+ * not in the merged database — `mergeLayers` for a single name.
+ */
+function mergedEntry(key: string, layers: CompanyDatabaseLayer[]): CompanyEntry | undefined {
+    let entry = Object.hasOwn(COMPANY_DATABASE, key) ? COMPANY_DATABASE[key] : undefined;
+    for (const layer of layers) {
+        const { companies, removed } = normalizedLayer(layer);
+        if (companies.has(key)) entry = companies.get(key);
+        else if (removed.has(key)) entry = undefined;
+    }
+    return entry;
+}
+
+/**
+ * The curated database with database files and the user layer applied, and
+ * its search index. Cached until any layer changes; then only the names the
+ * change touched are merged again and re-indexed, unless the files were
+ * reconfigured, which merges everything and syncs the index.
+ */
+function mergedDatabase(): { database: Record<string, CompanyEntry>; index: CompanyIndex } {
+    const generation = getCompanyDatabaseGeneration();
+    if (merged?.generation === generation) return merged;
+
+    const layers = getCompanyDatabaseLayers();
+    const changes = merged ? getCompanyDatabaseChanges(merged.generation) : null;
+    if (!merged || !changes) {
+        const database = mergeLayers(layers);
+        const index = merged?.index ?? new CompanyIndex();
+        index.sync(database);
+        merged = { generation, database, index };
+        return merged;
+    }
+
+    const { database, index } = merged;
+    for (const key of new Set(changes.map(normalizeName))) {
+        const entry = mergedEntry(key, layers);
+        if (entry) {
+            database[key] = entry;
+            index.set(key, entry);
+        } else {
+            delete database[key];
+            index.delete(key);
+        }
+    }
+    merged.generation = generation;
+    return merged;
+}
+
+function companyDatabase(): Record<string, CompanyEntry> {
+    return mergedDatabase().database;
+}
+
 // ─── Resolution Engine ──────────────────────────────────────────────────────
 
 export interface ResolvedDomain {
     domain: string;
     company: string;
     category: string;
-    confidence: "exact" | "alias" | "fuzzy" | "live-search" | "inferred";
+    confidence: "domain" | "exact" | "alias" | "fuzzy" | "live-search" | "inferred";
     matchedName: string;
+    /** DNS/HTTPS/site-name checks; set for live-search and inferred domains when verification is enabled. */
+    verification?: DomainVerification;
+}
+
+/**
+ * A domain name, URL or email address given in place of a company name.
+ */
+export interface DomainInput {
+    kind: "domain" | "url" | "email";
+    /** Full hostname, e.g. "www.bbc.co.uk". */
+    hostname: string;
+    /**
+     * Registrable domain under the public suffix list, e.g. "bbc.co.uk".
+     * Private suffixes count, so "acme.github.io" stays as is.
+     */
+    domain: string;
+    /** The domain without its public suffix, e.g. "bbc". */
+    label: string;
+}
+
+const URL_PATTERN = /^[a-z][a-z0-9+.-]*:\/\//i;
+const EMAIL_PATTERN = /^(?:mailto:)?[^\s@/]+@([^\s@/]+)$/i;
+
+/**
+ * Detect a domain name ("shopify.com"), URL ("https://www.shopify.com/pricing")
+ * or email address ("jane@acme.io"). Hostnames must end in a known public
+ * suffix, so names like "node.js" are left to name matching. Returns null for
+ * anything else, including IP addresses and bare hostnames like "localhost".
+ */
+export function parseDomainInput(input: string): DomainInput | null {
+    const value = input.trim();
+    if (!value || /\s/.test(value)) return null;
+
+    const email = EMAIL_PATTERN.exec(value);
+    const kind: DomainInput["kind"] = email ? "email" : URL_PATTERN.test(value) ? "url" : "domain";
+    let host = email ? email[1] : value;
+    if (kind === "url") {
+        try {
+            host = new URL(value).hostname;
+        } catch {
+            return null;
+        }
+    }
+
+    const parsed = parseHostname(host, { allowPrivateDomains: true });
+    if (parsed.isIp || !parsed.domain || !parsed.hostname || !parsed.domainWithoutSuffix) return null;
+    if (!parsed.isIcann && !parsed.isPrivate) return null;
+    // A bare word ending in a suffix ("com") is a name, not a domain
+    if (kind === "domain" && !parsed.hostname.includes(".")) return null;
+
+    return {
+        kind,
+        hostname: parsed.hostname,
+        domain: parsed.domain,
+        label: parsed.domainWithoutSuffix,
+    };
+}
+
+/**
+ * The database entry for a domain: an exact hostname match first, then the
+ * registrable domain.
+ */
+function findCompanyByDomain(input: DomainInput): [string, CompanyEntry] | null {
+    const { database, index } = mergedDatabase();
+    for (const domain of [input.hostname, input.domain]) {
+        const key = index.byDomain(domain);
+        if (key) return [key, database[key]];
+    }
+    return null;
 }
 
+/** Live-search results checked before giving up on the web search. */
+const MAX_LIVE_RESULTS = 3;
+
 /**
- * Fetch search results securely from DuckDuckGo HTML version and extract the first valid external domain.
+ * Fetch search results securely from DuckDuckGo HTML version and extract the first valid external domains.
  */
-async function searchWebForDomain(companyName: string): Promise<string | null> {
+async function searchWebForDomains(companyName: string): Promise<string[]> {
     const query = encodeURIComponent(`${companyName} official website`);
     const url = `https://html.duckduckgo.com/html/?q=${query}`;
 
@@ -306,12 +499,12 @@ async function searchWebForDomain(companyName: string): Promise<string | null> {
             signal: AbortSignal.timeout(5000), // 5s timeout
         });
 
-        if (!response.ok) return null;
+        if (!response.ok) return [];
 
         const html = await response.text();
         const $ = cheerio.load(html);
 
-        let foundDomain: string | null = null;
+        const foundDomains: string[] = [];
         $(".result__url").each((_, el) => {
             const resultUrlText = $(el).text().trim();
 
@@ -321,191 +514,617 @@ async function searchWebForDomain(companyName: string): Promise<string | null> {
             // Exclude wikipedia, app stores, social media, review sites
             const exclusions = ["wikipedia.org", "linkedin.com", "facebook.com", "twitter.com", "instagram.com", "youtube.com", "apps.apple.com", "play.google.com", "g2.com", "trustpilot.com", "capterra.com", "crunchbase.com", "bloomberg.com", "forbes.com", "github.com", "duckduckgo.com"];
 
-            if (cleanUrl && !exclusions.some(ex => cleanUrl.includes(ex))) {
-                foundDomain = cleanUrl;
-                return false; // break the each loop
+            if (cleanUrl && !exclusions.some(ex => cleanUrl.includes(ex)) && !foundDomains.includes(cleanUrl)) {
+                foundDomains.push(cleanUrl);
+                if (foundDomains.length >= MAX_LIVE_RESULTS) return false; // break the each loop
             }
         });
 
-        return foundDomain;
+        return foundDomains;
     } catch (err) {
         console.error(`Dynamic search failed for '${companyName}':`, err);
-        return null;
+        return [];
+    }
+}
+
+/**
+ * The first live-search result that passes verification (at least
+ * "plausible"). Unverified results are rejected; with verification disabled
+ * the first result is taken as is.
+ */
+async function searchVerifiedDomain(
+    companyName: string
+): Promise<{ domain: string; verification?: DomainVerification } | null> {
+    const domains = await searchWebForDomains(companyName);
+    if (!getVerificationConfig().enabled) {
+        return domains.length > 0 ? { domain: domains[0] } : null;
+    }
+
+    const rejected: string[] = [];
+    for (const domain of domains) {
+        const verification = await verifyDomain(domain, companyName);
+        if (verification.verdict !== "unverified") {
+            return { domain, verification };
+        }
+        rejected.push(`${domain} (${verification.score}/100)`);
     }
+    if (rejected.length > 0) {
+        console.error(`Rejected unverified search results for '${companyName}': ${rejected.join(", ")}`);
+    }
+    return null;
 }
 
 /**
- * Normalize an input string for matching: lowercase, trim, remove special chars.
+ * A possible resolution, with how well and why it matched. "partial" matches
+ * (the input is part of a company name, or the reverse) are suggestions only —
+ * `resolveDomain` never returns them.
  */
-function normalize(input: string): string {
-    return input
-        .toLowerCase()
-        .trim()
-        .replace(/[._\-]/g, "")
-        .replace(/\s+/g, " ");
+export interface DomainCandidate extends Omit<ResolvedDomain, "confidence"> {
+    confidence: ResolvedDomain["confidence"] | "partial";
+    /** Match quality from 0 to 100. */
+    score: number;
+    /** Why this candidate matched, e.g. `alias "gh"`. */
+    reason: string;
+}
+
+export interface CandidateResolution {
+    /** What `resolveDomain` returns: the best candidate that isn't a partial match. */
+    resolved: ResolvedDomain;
+    /** Ranked candidates, best first. */
+    candidates: DomainCandidate[];
+    /** Set when the input is ambiguous or only a guess (see `strict` in download_logo). */
+    ambiguity?: string;
+}
+
+const SCORES = {
+    domain: 100,
+    exact: MATCH_SCORES.exact,
+    alias: 95,
+    liveSearch: 50,
+    inferred: 10,
+};
+
+/**
+ * Database matches scoring below this are suggestions, not resolutions: two
+ * edits away, or a prefix covering half the name.
+ */
+const MIN_RESOLVE_SCORE = 70;
+
+/** Top candidates this close or closer are treated as ambiguous. */
+const AMBIGUITY_MARGIN = 10;
+
+/** Names this short or shorter can stand for too many companies to resolve unflagged. */
+const SHORT_NAME_LENGTH = 3;
+
+/** Search results: name matches rank above category matches, which rank above containment. */
+const SEARCH_SCORES = {
+    /** Subtracted from alias matches, so a company's own name ranks first. */
+    aliasPenalty: 5,
+    category: 45,
+};
+
+function confidenceOf(match: NameMatch): DomainCandidate["confidence"] {
+    return match.kind === "exact" ? "exact" : match.kind === "contains" ? "partial" : "fuzzy";
+}
+
+/**
+ * Score the input against the database with the name matcher (see
+ * name-matcher.ts), keeping each company's best match. Only companies the
+ * index finds can match are scored. Aliases match like names, except that
+ * containment only counts against the company name. Ties keep database order.
+ */
+function matchDatabase(normalized: string): DomainCandidate[] {
+    const { index } = mergedDatabase();
+    const query = prepareName(normalized);
+    const matches: DomainCandidate[] = [];
+
+    for (const { key, names, entry } of index.candidates(query)) {
+        // The best-scoring name; only its match is described
+        let best: NameMatch | null = null;
+        let bestScore = 0;
+        let bestAlias: string | undefined;
+        for (const { name, alias } of names) {
+            const match = matchName(query, name);
+            if (!match || (alias !== undefined && match.kind === "contains")) continue;
+            const score = alias !== undefined && match.kind === "exact" ? SCORES.alias : match.score;
+            if (!best || score > bestScore) {
+                best = match;
+                bestScore = score;
+                bestAlias = alias;
+            }
+        }
+        if (!best) continue;
+
+        let confidence: DomainCandidate["confidence"];
+        let reason: string;
+        if (bestAlias === undefined) {
+            confidence = confidenceOf(best);
+            reason = best.kind === "exact" ? "exact name match" : describeMatch(best, `"${key}"`);
+        } else if (best.kind === "exact") {
+            confidence = "alias";
+            reason = `alias "${bestAlias}"`;
+        } else {
+            confidence = "fuzzy";
+            reason = describeMatch(best, `alias "${bestAlias}"`);
+        }
+        matches.push({ domain: entry.domain, company: key, category: entry.category, confidence, matchedName: bestAlias ?? key, score: bestScore, reason });
+    }
+
+    return matches.sort((a, b) => b.score - a.score);
+}
+
+function toResolvedDomain(candidate: DomainCandidate): ResolvedDomain {
+    return {
+        domain: candidate.domain,
+        company: candidate.company,
+        category: candidate.category,
+        confidence: candidate.confidence as ResolvedDomain["confidence"],
+        matchedName: candidate.matchedName,
+        ...(candidate.verification && { verification: candidate.verification }),
+    };
+}
+
+function describeAmbiguity(input: string, resolved: ResolvedDomain, candidates: DomainCandidate[]): string | undefined {
+    const { verification } = resolved;
+    if (resolved.confidence === "inferred") {
+        const checked = verification ? ` (${describeVerification(verification)})` : "";
+        return `"${input}" is not in the database and no website was found — ${resolved.domain} is only a guess${checked}`;
+    }
+    if (verification && verification.verdict !== "verified") {
+        return `${resolved.domain} was found by web search but could not be fully verified (${describeVerification(verification)})`;
+    }
+
+    // Database matches under the resolve threshold only win for want of anything better
+    const top = candidates.find((c) => c.confidence !== "partial");
+    if (top && top.score < MIN_RESOLVE_SCORE && (top.confidence === "exact" || top.confidence === "alias" || top.confidence === "fuzzy")) {
+        return `"${input}" only loosely matches "${top.company}" (${top.domain}): ${top.score} pts, under the ${MIN_RESOLVE_SCORE} needed to resolve`;
+    }
+
+    const [first, second] = candidates;
+    if (second && first.score - second.score <= AMBIGUITY_MARGIN) {
+        return `"${first.company}" (${first.domain}) and "${second.company}" (${second.domain}) match "${input}" almost equally well`;
+    }
+    if (resolved.confidence === "domain" || resolved.confidence === "live-search") return undefined;
+
+    // Even a clear match is doubtful when the input is also a word of other
+    // companies' names ("unity" in "unity catalog"), only an alias, or short
+    const name = normalizeName(input).replace(/\s+/g, "");
+    const others = mergedDatabase().index.companiesWithWord(name).filter((key) => key !== resolved.company);
+    if (others.length > 0) {
+        const other = others.map((key) => `"${key}"`).slice(0, 3).join(", ");
+        return `"${input}" is also part of the name of ${other} — ${resolved.domain} ("${resolved.company}") is only the closest match`;
+    }
+    if (resolved.confidence === "alias") {
+        return `"${input}" is only an alias of "${resolved.company}" (${resolved.domain}), other companies may go by it`;
+    }
+    if (name.length <= SHORT_NAME_LENGTH) {
+        return `"${input}" is too short to identify a company reliably — ${resolved.domain} ("${resolved.company}") is only the closest match`;
+    }
+    return undefined;
+}
+
+/**
+ * Rank the possible resolutions of a company name, with a score and reason
+ * for each.
+ *
+ * A domain name, URL or email address resolves directly to its registrable
+ * domain (confidence "domain"), named after its database entry if it has one.
+ * Otherwise database matches (exact name, alias, fuzzy, partial) come first. If none is
+ * strong enough to resolve to, a LIVE SEARCH (DuckDuckGo HTML, skipped
+ * offline) is added, or failing that a smart-inference guess ({name}.com).
+ * Online, both are checked with `verifyDomain`: search results that fail
+ * verification are rejected, and the guess carries its verification score.
+ */
+export async function resolveCandidates(
+    input: string,
+    options: { offline?: boolean; limit?: number } = {}
+): Promise<CandidateResolution> {
+    const normalized = normalizeName(input);
+    const { offline = isOfflineMode(), limit = 5 } = options;
+
+    // ── Domain, URL or email address: taken as given ──
+    const direct = parseDomainInput(input);
+    if (direct) {
+        const known = findCompanyByDomain(direct);
+        const candidate: DomainCandidate = {
+            domain: known ? known[1].domain : direct.domain,
+            company: known ? known[0] : direct.label,
+            category: known ? known[1].category : "Unknown",
+            confidence: "domain",
+            matchedName: direct.hostname,
+            score: SCORES.domain,
+            reason: `${direct.kind === "domain" ? "domain name" : direct.kind === "url" ? "URL" : "email address"}${known ? `, in the database as "${known[0]}"` : ""}`,
+        };
+        return { resolved: toResolvedDomain(candidate), candidates: [candidate] };
+    }
+
+    const candidates = matchDatabase(normalized);
+
+    if (!candidates.some((c) => c.confidence !== "partial" && c.score >= MIN_RESOLVE_SCORE)) {
+        // ── Live Search (DuckDuckGo HTML) ──
+        const live = offline ? null : await searchVerifiedDomain(input);
+        if (live) {
+            candidates.push({
+                domain: live.domain,
+                company: input,
+                category: "Unknown (Live Search)",
+                confidence: "live-search",
+                matchedName: input,
+                score: SCORES.liveSearch,
+                reason: live.verification
+                    ? `found by web search, ${live.verification.verdict} (${live.verification.score}/100)`
+                    : "found by web search",
+                verification: live.verification,
+            });
+        } else {
+            // ── Smart domain inference ──
+            const sanitized = normalized.replace(/\s/g, "");
+            const domain = `${sanitized}.com`;
+            const verification =
+                offline || !getVerificationConfig().enabled ? undefined : await verifyDomain(domain, input);
+            candidates.push({
+                domain,
+                company: sanitized,
+                category: "Unknown",
+                confidence: "inferred",
+                matchedName: input,
+                score: SCORES.inferred,
+                reason: verification
+                    ? `guessed from the name, ${verification.verdict} (${verification.score}/100)`
+                    : "guessed from the name",
+                verification,
+            });
+        }
+        candidates.sort((a, b) => b.score - a.score);
+    }
+
+    const resolved = toResolvedDomain(candidates.find((c) => c.confidence !== "partial")!);
+
+    return {
+        resolved,
+        candidates: candidates.slice(0, limit),
+        ambiguity: describeAmbiguity(input, resolved, candidates),
+    };
 }
 
 /**
  * Resolve a company name or alias to its canonical domain.
  *
  * Resolution order:
+ * 0. Domain names, URLs and email addresses: their registrable domain
  * 1. Exact match against curated database keys
  * 2. Exact match against aliases
- * 3. Fuzzy match (Levenshtein distance ≤ 2) against keys and aliases
- * 4. LIVE SEARCH: DuckDuckGo HTML search for official website
- * 5. Smart domain inference: try {name}.com
+ * 3. Fuzzy match against keys and aliases: edit distance scaled by length,
+ *    word sets, prefixes, acronyms and sound-alike spellings (name-matcher.ts)
+ * 4. LIVE SEARCH: DuckDuckGo HTML search for official website (skipped offline),
+ *    keeping the first result that passes domain verification
+ * 5. Smart domain inference: try {name}.com, flagged with its verification score
+ *
+ * This is the top candidate from `resolveCandidates`.
  */
-export async function resolveDomain(input: string): Promise<ResolvedDomain> {
-    const normalized = normalize(input);
-
-    // ── 1. Exact key match ──
-    if (COMPANY_DATABASE[normalized]) {
-        const entry = COMPANY_DATABASE[normalized];
-        return {
-            domain: entry.domain,
-            company: normalized,
-            category: entry.category,
-            confidence: "exact",
-            matchedName: normalized,
-        };
+export async function resolveDomain(
+    input: string,
+    options: { offline?: boolean } = {}
+): Promise<ResolvedDomain> {
+    return (await resolveCandidates(input, options)).resolved;
+}
+
+// ─── Search and Listing ─────────────────────────────────────────────────────
+
+export interface SearchOptions {
+    /** Only companies in any of these categories (case-insensitive). */
+    categories?: string[];
+    /** "relevance" (the default) ranks best matches first; "name" is alphabetical. Without a query both list by name. */
+    sort?: "relevance" | "name";
+    /** Results to skip. */
+    offset?: number;
+    /** Continue where a previous page ended (its `nextCursor`); takes precedence over `offset`. */
+    cursor?: string;
+    limit?: number;
+}
+
+export interface SearchPage {
+    results: Array<{ name: string } & CompanyEntry>;
+    /** Matches across all pages. */
+    total: number;
+    offset: number;
+    /** Cursor for the next page; unset on the last one. */
+    nextCursor?: string;
+    /** Matches per category, ignoring the category filter, most first. */
+    facets: Array<{ category: string; count: number }>;
+}
+
+/** Identifies a search, so a cursor can't be replayed against a different one. */
+function searchFingerprint(normalized: string, categories: string[], sort: string): string {
+    return createHash("sha256").update(JSON.stringify([normalized, categories, sort])).digest("base64url").slice(0, 12);
+}
+
+function encodeCursor(offset: number, fingerprint: string): string {
+    return Buffer.from(JSON.stringify({ offset, search: fingerprint })).toString("base64url");
+}
+
+function decodeCursor(cursor: string, fingerprint: string): number {
+    let decoded: unknown;
+    try {
+        decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    } catch {
+        throw new Error(`Invalid cursor "${cursor}"`);
+    }
+    const { offset, search } = (decoded ?? {}) as { offset?: unknown; search?: unknown };
+    if (!Number.isInteger(offset) || (offset as number) < 0 || typeof search !== "string") {
+        throw new Error(`Invalid cursor "${cursor}"`);
     }
+    if (search !== fingerprint) {
+        throw new Error("This cursor belongs to a different search — repeat the query, categories and sort it came from");
+    }
+    return offset as number;
+}
 
-    // ── 2. Alias match ──
-    for (const [key, entry] of Object.entries(COMPANY_DATABASE)) {
-        for (const alias of entry.aliases) {
-            if (normalize(alias) === normalized) {
-                return {
-                    domain: entry.domain,
-                    company: key,
-                    category: entry.category,
-                    confidence: "alias",
-                    matchedName: alias,
-                };
-            }
+/**
+ * Score every company matching a normalized query: names and aliases with the
+ * name matcher, and every company in a matching category below those.
+ */
+function scoreSearch(normalized: string, index: CompanyIndex): Map<IndexedCompany, number> {
+    const scores = new Map<IndexedCompany, number>();
+    const raise = (company: IndexedCompany, score: number) => {
+        if (score > (scores.get(company) ?? 0)) scores.set(company, score);
+    };
+
+    const prepared = prepareName(normalized);
+    for (const company of index.candidates(prepared)) {
+        let best = 0;
+        for (const { name, alias } of company.names) {
+            const score = matchName(prepared, name)?.score ?? 0;
+            best = Math.max(best, alias === undefined ? score : score - SEARCH_SCORES.aliasPenalty);
         }
+        raise(company, best);
+    }
+    for (const name of index.matchingCategories(prepared)) {
+        for (const key of index.inCategory(name)) raise(index.get(key)!, SEARCH_SCORES.category);
     }
+    return scores;
+}
 
-    // ── 3. Fuzzy match (Levenshtein) ──
-    let bestMatch: { key: string; entry: CompanyEntry; dist: number; via: string } | null = null;
+/**
+ * Search the company database, one page at a time. With a query, names and
+ * aliases are scored with the same matcher as resolution (so typos, prefixes,
+ * acronyms and partial names all match), and a category match ranks every
+ * company in it below the name matches; without one, every company matches.
+ * Facets count the matches per category before the category filter, so a
+ * picker can show what the other categories would add.
+ */
+export function searchCompanyPage(query: string, options: SearchOptions = {}): SearchPage {
+    const normalized = normalizeName(query);
+    const { sort = "relevance", limit = 25 } = options;
+    const { database, index } = mergedDatabase();
+    const allCategories = index.listCategories();
+    const wanted = Array.from(new Set((options.categories ?? []).map(normalizeName))).sort();
 
-    for (const [key, entry] of Object.entries(COMPANY_DATABASE)) {
-        // Match against key
-        const keyDist = distance(normalized, key);
-        if (keyDist <= 2 && (!bestMatch || keyDist < bestMatch.dist)) {
-            bestMatch = { key, entry, dist: keyDist, via: key };
-        }
+    const fingerprint = searchFingerprint(normalized, wanted, sort);
+    const offset = options.cursor !== undefined ? decodeCursor(options.cursor, fingerprint) : (options.offset ?? 0);
 
-        // Match against aliases
-        for (const alias of entry.aliases) {
-            const aliasDist = distance(normalized, normalize(alias));
-            if (aliasDist <= 2 && (!bestMatch || aliasDist < bestMatch.dist)) {
-                bestMatch = { key, entry, dist: aliasDist, via: alias };
+    let matches: string[];
+    let total: number;
+    const facetCounts = new Map<string, number>();
+    if (normalized) {
+        let scored = Array.from(scoreSearch(normalized, index));
+        for (const [{ category }] of scored) facetCounts.set(category, (facetCounts.get(category) ?? 0) + 1);
+        if (wanted.length > 0) {
+            scored = scored.filter(([{ category }]) => wanted.includes(category));
+        }
+        total = scored.length;
+        if (sort === "relevance") {
+            // Only the matches up to the end of the page need ranking: those
+            // scoring at least the page's lowest score, found by a numeric sort
+            const end = offset + Math.max(0, limit);
+            if (end > 0 && end < scored.length) {
+                const scores = new Float64Array(scored.length);
+                scored.forEach(([, score], i) => (scores[i] = score));
+                const lowest = scores.sort()[scored.length - end];
+                scored = scored.filter(([, score]) => score >= lowest);
             }
+            // Higher score = better match; ties keep database order
+            scored.sort((a, b) => b[1] - a[1] || a[0].ordinal - b[0].ordinal);
         }
+        matches = scored.map(([{ key }]) => key);
+    } else {
+        for (const category of allCategories.keys()) facetCounts.set(category, index.categorySize(category));
+        matches = wanted.length > 0 ? wanted.flatMap((category) => index.inCategory(category)) : Object.keys(database);
+        total = matches.length;
     }
 
-    if (bestMatch) {
-        return {
-            domain: bestMatch.entry.domain,
-            company: bestMatch.key,
-            category: bestMatch.entry.category,
-            confidence: "fuzzy",
-            matchedName: bestMatch.via,
-        };
-    }
-
-    // ── 4. Live Search (DuckDuckGo HTML) ──
-    const liveDomain = await searchWebForDomain(input);
-    if (liveDomain) {
-        return {
-            domain: liveDomain,
-            company: input,
-            category: "Unknown (Live Search)",
-            confidence: "live-search",
-            matchedName: input,
-        };
-    }
+    const byName = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+    if (sort === "name" || !normalized) matches.sort(byName);
 
-    // ── 5. Smart domain inference ──
-    const sanitized = normalized.replace(/\s/g, "");
-    const inferredDomain = `${sanitized}.com`;
+    const page = matches.slice(offset, offset + Math.max(0, limit));
+    const facets = Array.from(facetCounts, ([category, count]) => ({ category: allCategories.get(category) ?? category, count }))
+        .sort((a, b) => b.count - a.count || byName(a.category, b.category));
 
     return {
-        domain: inferredDomain,
-        company: sanitized,
-        category: "Unknown",
-        confidence: "inferred",
-        matchedName: input,
+        results: page.map((key) => ({ name: key, ...database[key] })),
+        total,
+        offset,
+        // Only a page that made progress gets a cursor, so a caller can't loop on the same offset
+        ...(page.length > 0 && offset + page.length < total && { nextCursor: encodeCursor(offset + page.length, fingerprint) }),
+        facets,
     };
 }
 
 /**
- * Search the company database by query. Returns all matching entries.
- * Matches against keys, aliases, and categories using substring search.
+ * Search the company database by query. Returns the first `limit` matching
+ * entries, best first (see `searchCompanyPage`).
  */
 export function searchCompanies(
     query: string,
     options: { category?: string; limit?: number } = {}
 ): Array<{ name: string } & CompanyEntry> {
-    const normalized = normalize(query);
-    const { category, limit = 25 } = options;
+    const { category, limit } = options;
+    return searchCompanyPage(query, { categories: category ? [category] : [], limit }).results;
+}
 
-    const results: Array<{ name: string; score: number } & CompanyEntry> = [];
+/**
+ * Look up one company by its database name (case-insensitive). No fuzzy matching.
+ */
+export function getCompany(name: string): ({ name: string } & CompanyEntry) | null {
+    const database = companyDatabase();
+    const key = [name.toLowerCase().trim(), normalizeName(name)].find((k) => database[k]);
+    return key ? { name: key, ...database[key] } : null;
+}
 
-    for (const [key, entry] of Object.entries(COMPANY_DATABASE)) {
-        // Category filter
-        if (category && entry.category.toLowerCase() !== category.toLowerCase()) continue;
+/**
+ * List every company in the database, optionally limited to one category.
+ */
+export function listCompanies(category?: string): Array<{ name: string } & CompanyEntry> {
+    return Object.entries(companyDatabase())
+        .filter(([, entry]) => !category || entry.category.toLowerCase() === category.toLowerCase())
+        .map(([name, entry]) => ({ name, ...entry }));
+}
 
-        let score = Infinity;
+/**
+ * Every category with its number of companies, by name.
+ */
+export function listCategoryCounts(): Array<{ category: string; count: number }> {
+    const { index } = mergedDatabase();
+    return Array.from(index.listCategories(), ([normalized, category]) => ({ category, count: index.categorySize(normalized) }))
+        .sort((a, b) => (a.category < b.category ? -1 : a.category > b.category ? 1 : 0));
+}
 
-        // Exact substring in key
-        if (key.includes(normalized)) {
-            score = Math.min(score, key === normalized ? 0 : 1);
-        }
+/**
+ * Get all available categories in the database.
+ */
+export function getCategories(): string[] {
+    return Array.from(mergedDatabase().index.listCategories().values()).sort();
+}
 
-        // Substring in aliases
-        for (const alias of entry.aliases) {
-            if (normalize(alias).includes(normalized)) {
-                score = Math.min(score, 2);
+/**
+ * Get the total count of companies in the database.
+ */
+export function getCompanyCount(): number {
+    return mergedDatabase().index.size;
+}
+
+// ─── Editing (User Layer) ───────────────────────────────────────────────────
+
+/**
+ * Reject aliases that would shadow another company: an alias may not equal
+ * another company's name or alias, and a new company's name may not equal
+ * another company's alias.
+ */
+function checkCollisions(key: string, aliases: string[], isNew: boolean): void {
+    const { database, index } = mergedDatabase();
+    const problems: string[] = [];
+
+    for (const alias of aliases) {
+        const normalized = normalizeName(alias);
+        if (normalized === key) {
+            problems.push(`alias "${alias}" is the company's own name`);
+        } else if (database[normalized]) {
+            problems.push(`alias "${alias}" is already the company "${normalized}"`);
+        } else {
+            for (const other of index.companiesNamed(normalized)) {
+                if (other !== key) problems.push(`alias "${normalized}" already belongs to "${other}"`);
             }
         }
+    }
 
-        // Substring in category
-        if (entry.category.toLowerCase().includes(normalized)) {
-            score = Math.min(score, 3);
+    if (isNew) {
+        for (const other of index.companiesNamed(key)) {
+            if (other !== key) problems.push(`"${key}" is already an alias of "${other}"`);
         }
+    }
+
+    if (problems.length > 0) {
+        throw new Error(`Conflicts with existing entries: ${problems.join("; ")}`);
+    }
+}
 
-        // Fuzzy match on key
-        const dist = distance(normalized, key);
-        if (dist <= 3) {
-            score = Math.min(score, 4 + dist);
+function dedupeAliases(entry: CompanyEntry): CompanyEntry {
+    const seen = new Set<string>();
+    const aliases = entry.aliases.filter((alias) => {
+        const normalized = normalizeName(alias);
+        return !seen.has(normalized) && !!seen.add(normalized);
+    });
+    return { ...entry, aliases };
+}
+
+/**
+ * Add a company to the user layer. Fails if the name is already taken.
+ */
+export async function addCompany(name: string, entry: unknown): Promise<{ name: string } & CompanyEntry> {
+    const key = normalizeName(name);
+    if (!key) throw new Error("Company name must not be empty");
+    const validated = dedupeAliases(parseCompanyEntry(entry));
+
+    return updateUserLayer((layer) => {
+        const database = companyDatabase();
+        if (database[key]) {
+            throw new Error(`"${key}" is already in the database (${database[key].domain}) — use update_company to change it`);
         }
+        checkCollisions(key, validated.aliases, true);
+
+        layer.companies[key] = validated;
+        layer.remove = layer.remove.filter((removed) => normalizeName(removed) !== key);
+        return { name: key, ...validated };
+    });
+}
 
-        if (score < Infinity) {
-            results.push({ name: key, score, ...entry });
+/**
+ * Change fields of an existing company (built-in, file or user entry). The
+ * updated entry is saved in the user layer. `aliases` replaces the list.
+ */
+export async function updateCompany(
+    name: string,
+    changes: Partial<CompanyEntry>
+): Promise<{ previous: { name: string } & CompanyEntry; company: { name: string } & CompanyEntry }> {
+    return updateUserLayer((layer) => {
+        const previous = getCompany(name);
+        if (!previous) {
+            throw new Error(`"${name}" is not in the database — use add_company to add it`);
         }
-    }
 
-    // Sort by relevance (lower score = better match)
-    results.sort((a, b) => a.score - b.score);
+        const { name: key, ...current } = previous;
+        const defined = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+        const updated = dedupeAliases(parseCompanyEntry({ ...current, ...defined }));
+
+        // Only newly added aliases are checked, so existing overlaps don't block unrelated edits
+        const existing = new Set(current.aliases.map(normalizeName));
+        checkCollisions(key, updated.aliases.filter((alias) => !existing.has(normalizeName(alias))), false);
 
-    return results.slice(0, limit).map(({ score: _score, ...rest }) => rest);
+        layer.companies[key] = updated;
+        return { previous, company: { name: key, ...updated } };
+    });
 }
 
 /**
- * Get all available categories in the database.
+ * Remove a company. User-added entries are deleted from the user layer;
+ * built-in and file entries are hidden with a `remove` entry.
  */
-export function getCategories(): string[] {
-    const categories = new Set<string>();
-    for (const entry of Object.values(COMPANY_DATABASE)) {
-        categories.add(entry.category);
-    }
-    return Array.from(categories).sort();
+export async function removeCompany(name: string): Promise<{ name: string } & CompanyEntry> {
+    return updateUserLayer((layer) => {
+        const company = getCompany(name);
+        if (!company) {
+            throw new Error(`"${name}" is not in the database`);
+        }
+
+        delete layer.companies[company.name];
+        if (mergedEntry(company.name, getCompanyDatabaseLayers().filter((l) => l !== getUserLayer()))) {
+            layer.remove.push(company.name);
+        }
+        return company;
+    });
 }
 
 /**
- * Get the total count of companies in the database.
+ * The user layer's edits, or the whole merged database, in the file format
+ * accepted by MCP_LOGO_COMPANY_DB.
  */
-export function getCompanyCount(): number {
-    return Object.keys(COMPANY_DATABASE).length;
+export function exportCompanyDatabase(scope: "user" | "merged"): Pick<CompanyDatabaseLayer, "companies" | "remove"> {
+    if (scope === "user") {
+        const { companies, remove } = getUserLayer();
+        return { companies, remove };
+    }
+
+    const database = companyDatabase();
+    const companies = Object.fromEntries(Object.keys(database).sort().map((key) => [key, database[key]]));
+    return { companies, remove: [] };
 }
@@ -0,0 +1,250 @@
+/**
+ * Domain Verifier — Check that a guessed domain really belongs to the company
+ *
+ * Live-search results and inferred {name}.com guesses are not curated, so
+ * before they are used the domain is checked:
+ *   1. DNS — the hostname resolves
+ *   2. HTTPS — the homepage answers over HTTPS
+ *   3. Name — the homepage <title> or og:site_name plausibly matches the company
+ *
+ * Each check adds to a 0–100 score: 25 for DNS, 25 for HTTPS and up to 50 for
+ * the name match. 80 or more is "verified", 65 or more "plausible", anything
+ * lower "unverified" — a reachable site whose name has nothing to do with the
+ * company (a parked domain, a directory listing) stays unverified.
+ *
+ * Configuration: MCP_LOGO_VERIFY_DOMAINS (set to "0"/"false"/"off" to skip
+ * verification) and MCP_LOGO_VERIFY_TIMEOUT_MS (per-check timeout, default 5000).
+ */
+
+import { lookup as dnsLookup } from "node:dns/promises";
+
+import * as cheerio from "cheerio";
+import { distance } from "fastest-levenshtein";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface DomainVerification {
+    /** Confidence that the domain belongs to the company, from 0 to 100. */
+    score: number;
+    verdict: "verified" | "plausible" | "unverified";
+    dns: boolean;
+    https: boolean;
+    /** Homepage og:site_name or <title>, whichever matched the company best. */
+    siteName?: string;
+    /** How well the site name matches the company name, from 0 to 1. */
+    nameMatch: number;
+    /** One note per check, e.g. `title "Stripe | Payments" matches`. */
+    checks: string[];
+}
+
+export interface VerificationConfig {
+    enabled: boolean;
+    /** Timeout for the DNS lookup and for the homepage request, each. */
+    timeoutMs: number;
+}
+
+/** Network access used by `verifyDomain`; replaceable for tests. */
+export interface VerificationDeps {
+    lookup: (hostname: string) => Promise<unknown>;
+    fetch: typeof fetch;
+}
+
+export const VERIFIED_SCORE = 80;
+export const PLAUSIBLE_SCORE = 65;
+
+const WEIGHTS = { dns: 25, https: 25, name: 50 };
+
+/** Homepages are only read this far; <title> and og:site_name live in <head>. */
+const MAX_HTML_BYTES = 512 * 1024;
+
+/** Words that say nothing about which company a site belongs to. */
+const NOISE_WORDS = new Set(["the", "inc", "llc", "ltd", "co", "corp", "corporation", "company", "gmbh", "group", "official", "website", "home", "homepage"]);
+
+const MAX_CACHED = 200;
+
+let config: VerificationConfig = { enabled: true, timeoutMs: 5000 };
+const cache = new Map<string, Promise<DomainVerification>>();
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+
+export function configureVerification(overrides: Partial<VerificationConfig>): void {
+    config = { ...config, ...overrides };
+    cache.clear();
+}
+
+export function getVerificationConfig(): VerificationConfig {
+    return { ...config };
+}
+
+/**
+ * Load verification settings from the environment (see the module header).
+ */
+export function loadVerificationConfigFromEnv(env: NodeJS.ProcessEnv = process.env): void {
+    const overrides: Partial<VerificationConfig> = {};
+
+    if (env.MCP_LOGO_VERIFY_DOMAINS !== undefined) {
+        overrides.enabled = !/^(0|false|no|off)$/i.test(env.MCP_LOGO_VERIFY_DOMAINS.trim());
+    }
+    if (env.MCP_LOGO_VERIFY_TIMEOUT_MS) {
+        const ms = Number(env.MCP_LOGO_VERIFY_TIMEOUT_MS);
+        if (!Number.isInteger(ms) || ms <= 0) {
+            throw new Error(`MCP_LOGO_VERIFY_TIMEOUT_MS must be a positive integer, got "${env.MCP_LOGO_VERIFY_TIMEOUT_MS}"`);
+        }
+        overrides.timeoutMs = ms;
+    }
+
+    configureVerification(overrides);
+}
+
+// ─── Name Matching ───────────────────────────────────────────────────────────
+
+function compact(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function words(value: string): string[] {
+    return value
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter((w) => w.length > 1 && !NOISE_WORDS.has(w));
+}
+
+/**
+ * How plausibly a site name (homepage title or og:site_name) belongs to a
+ * company, from 0 to 1: 1 when the site name contains the company name, else
+ * the better of the share of company words found in it and the edit-distance
+ * similarity to its closest segment ("Acme | Rockets" → "Acme", "Rockets").
+ */
+export function matchSiteName(company: string, siteName: string): number {
+    const name = compact(company);
+    const site = compact(siteName);
+    if (!name || !site) return 0;
+    if (site.includes(name)) return 1;
+
+    const companyWords = words(company);
+    const siteText = words(siteName).join(" ");
+    const wordShare =
+        companyWords.length > 0 ? companyWords.filter((w) => siteText.includes(w)).length / companyWords.length : 0;
+
+    const similarity = Math.max(
+        0,
+        ...siteName
+            .split(/\s+[|\-–—:·•]\s+/)
+            .map(compact)
+            .filter(Boolean)
+            .map((segment) => 1 - distance(name, segment) / Math.max(name.length, segment.length))
+    );
+
+    return Math.round(Math.max(wordShare, similarity) * 100) / 100;
+}
+
+function verdictFor(score: number): DomainVerification["verdict"] {
+    return score >= VERIFIED_SCORE ? "verified" : score >= PLAUSIBLE_SCORE ? "plausible" : "unverified";
+}
+
+// ─── Verification ────────────────────────────────────────────────────────────
+
+function withTimeout<T>(promise: Promise<T>, ms: number, what: string): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`${what} timed out after ${ms}ms`)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function readHomepageNames(response: Response): Promise<string[]> {
+    const type = response.headers.get("content-type") ?? "";
+    if (!type.includes("html")) return [];
+
+    const html = (await response.text()).slice(0, MAX_HTML_BYTES);
+    const $ = cheerio.load(html);
+    return [
+        $('meta[property="og:site_name"]').attr("content"),
+        $("title").first().text(),
+    ]
+        .map((name) => name?.replace(/\s+/g, " ").trim())
+        .filter((name): name is string => !!name);
+}
+
+async function runChecks(domain: string, company: string, deps: VerificationDeps): Promise<DomainVerification> {
+    const hostname = domain.split("/")[0];
+    const checks: string[] = [];
+    let dns = false;
+    let https = false;
+    let siteName: string | undefined;
+    let nameMatch = 0;
+
+    try {
+        await withTimeout(deps.lookup(hostname), config.timeoutMs, "DNS lookup");
+        dns = true;
+        checks.push("DNS resolves");
+    } catch (err) {
+        checks.push(`DNS lookup failed (${err instanceof Error ? err.message : String(err)})`);
+    }
+
+    if (dns) {
+        try {
+            const response = await deps.fetch(`https://${hostname}/`, {
+                headers: {
+                    "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+                    Accept: "text/html",
+                },
+                redirect: "follow",
+                signal: AbortSignal.timeout(config.timeoutMs),
+            });
+            https = true;
+            checks.push(`HTTPS ${response.status}`);
+
+            for (const name of await readHomepageNames(response)) {
+                const match = matchSiteName(company, name);
+                if (siteName === undefined || match > nameMatch) {
+                    siteName = name;
+                    nameMatch = match;
+                }
+            }
+        } catch (err) {
+            checks.push(`HTTPS request failed (${err instanceof Error ? err.message : String(err)})`);
+        }
+    }
+
+    if (siteName !== undefined) {
+        const quoted = siteName.length > 60 ? `${siteName.slice(0, 57)}...` : siteName;
+        checks.push(`site name "${quoted}" ${nameMatch >= 0.8 ? "matches" : nameMatch >= 0.5 ? "partly matches" : "does not match"}`);
+    } else if (https) {
+        checks.push("no site name on the homepage");
+    }
+
+    const score = (dns ? WEIGHTS.dns : 0) + (https ? WEIGHTS.https : 0) + Math.round(WEIGHTS.name * nameMatch);
+    return { score, verdict: verdictFor(score), dns, https, siteName, nameMatch, checks };
+}
+
+/**
+ * Check that a domain resolves, answers over HTTPS and has a homepage whose
+ * title or og:site_name plausibly matches the company name. Never throws:
+ * failed checks just lower the score. Results are cached per domain and
+ * company unless `deps` is given.
+ */
+export function verifyDomain(
+    domain: string,
+    company: string,
+    deps?: Partial<VerificationDeps>
+): Promise<DomainVerification> {
+    const resolved: VerificationDeps = { lookup: dnsLookup, fetch, ...deps };
+    if (deps) return runChecks(domain, company, resolved);
+
+    const key = `${domain.toLowerCase()}\n${compact(company)}`;
+    let result = cache.get(key);
+    if (!result) {
+        if (cache.size >= MAX_CACHED) cache.delete(cache.keys().next().value!);
+        result = runChecks(domain, company, resolved);
+        cache.set(key, result);
+    }
+    return result;
+}
+
+/**
+ * One-line summary, e.g. `verified (100/100): DNS resolves · HTTPS 200 · site name "Stripe" matches`.
+ */
+export function describeVerification(verification: DomainVerification): string {
+    return `${verification.verdict} (${verification.score}/100): ${verification.checks.join(" · ")}`;
+}
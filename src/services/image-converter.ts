@@ -0,0 +1,425 @@
+/**
+ * Image Converter — Offline transcoding between raster logo formats
+ *
+ * Decodes downloaded logos into raw RGBA pixels and re-encodes them into the
+ * format the caller asked for. All codecs are pure JS or bundled WASM, so
+ * conversion works without network access or native image libraries.
+ *
+ * Supported conversions (input → output):
+ * - PNG, JPEG, WebP, ICO → PNG, JPEG, WebP, ICO
+ * - SVG → PNG, JPEG, WebP, ICO, rendered by resvg (WASM) at the target size
+ * - Transparent pixels are flattened onto a background colour for JPEG
+ * - Optional exact resizing via the image resizer, including multi-size ICOs
+ */
+
+import { readFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { dirname, join } from "node:path";
+import { PNG } from "pngjs";
+import jpeg from "jpeg-js";
+import decodeIco from "decode-ico";
+import encodeWebp, { init as initWebpEncoder } from "@jsquash/webp/encode.js";
+import decodeWebp, { init as initWebpDecoder } from "@jsquash/webp/decode.js";
+import { Resvg, initWasm as initResvg } from "@resvg/resvg-wasm";
+
+import { validateImage, type ImageInfo } from "./image-validator.js";
+import { fitToSquare } from "./image-resizer.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type OutputFormat = "png" | "jpg" | "webp" | "ico";
+
+/**
+ * A decoded image: 8-bit RGBA pixels in row-major order.
+ */
+export interface RasterImage {
+    width: number;
+    height: number;
+    data: Uint8Array;
+}
+
+export interface RgbColor {
+    r: number;
+    g: number;
+    b: number;
+}
+
+export interface ConvertOptions {
+    /** Background colour used when flattening transparency (JPEG only). */
+    background?: RgbColor;
+    /** Encoder quality for lossy formats, 1–100. */
+    quality?: number;
+    /** Resize to exactly `size` × `size` pixels, padding non-square images. */
+    size?: number;
+}
+
+export interface ConvertResult {
+    buffer: Buffer;
+    imageInfo: ImageInfo;
+    /** False when the source bytes were returned untouched. */
+    converted: boolean;
+}
+
+/** The `ImageInfo.format` each output format must validate as. */
+const OUTPUT_FORMATS: Record<OutputFormat, string> = {
+    png: "PNG",
+    jpg: "JPEG",
+    webp: "WEBP",
+    ico: "ICO",
+};
+
+const DEFAULT_BACKGROUND: RgbColor = { r: 255, g: 255, b: 255 };
+const DEFAULT_QUALITY = 90;
+const MAX_ICO_SIZE = 256;
+
+// ─── WebP Codec (WASM) ───────────────────────────────────────────────────────
+
+let webpReady: Promise<void> | null = null;
+
+/**
+ * Load the WebP encoder/decoder WASM modules from the installed package.
+ * The default loader uses fetch(), which cannot read local files in Node,
+ * so we compile the modules ourselves and hand them over.
+ */
+function ensureWebpCodec(): Promise<void> {
+    if (!webpReady) {
+        webpReady = (async () => {
+            const require = createRequire(import.meta.url);
+            const codecDir = join(dirname(require.resolve("@jsquash/webp/package.json")), "codec");
+
+            const [encWasm, decWasm] = await Promise.all([
+                readFile(join(codecDir, "enc", "webp_enc_simd.wasm")),
+                readFile(join(codecDir, "dec", "webp_dec.wasm")),
+            ]);
+
+            await initWebpEncoder(await WebAssembly.compile(encWasm));
+            await initWebpDecoder(await WebAssembly.compile(decWasm));
+        })();
+        webpReady.catch(() => {
+            webpReady = null;
+        });
+    }
+    return webpReady;
+}
+
+// ─── SVG Rasterizer (WASM) ───────────────────────────────────────────────────
+
+let resvgReady: Promise<void> | null = null;
+
+/**
+ * Load the resvg WASM module from the installed package, compiled from the
+ * local file like the WebP codec.
+ */
+function ensureResvg(): Promise<void> {
+    if (!resvgReady) {
+        resvgReady = (async () => {
+            const require = createRequire(import.meta.url);
+            const wasm = await readFile(require.resolve("@resvg/resvg-wasm/index_bg.wasm"));
+            await initResvg(await WebAssembly.compile(wasm));
+        })();
+        resvgReady.catch(() => {
+            resvgReady = null;
+        });
+    }
+    return resvgReady;
+}
+
+/**
+ * Render an SVG to RGBA pixels on a transparent background. With `size`, the
+ * longest side is rendered at exactly `size` pixels and the other keeps the
+ * aspect ratio; without it, at the SVG's intrinsic size. Nothing is fetched:
+ * external images are not resolved, and text renders only with fonts
+ * embedded as paths (no system fonts are loaded).
+ */
+export async function rasterizeSvg(buffer: Buffer, size?: number): Promise<RasterImage> {
+    await ensureResvg();
+
+    let resvg: InstanceType<typeof Resvg> | undefined;
+    try {
+        resvg = new Resvg(buffer, { font: { loadSystemFonts: false } });
+        if (size !== undefined) {
+            const fitTo = resvg.width >= resvg.height ? { mode: "width" as const, value: size } : { mode: "height" as const, value: size };
+            resvg.free();
+            resvg = new Resvg(buffer, { font: { loadSystemFonts: false }, fitTo });
+        }
+
+        const rendered = resvg.render();
+        try {
+            // PNG stores straight (not premultiplied) alpha, which is what the rest of the pipeline expects
+            return decodePng(Buffer.from(rendered.asPng()));
+        } finally {
+            rendered.free();
+        }
+    } catch (err) {
+        throw new Error(`Cannot rasterize SVG: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+        resvg?.free();
+    }
+}
+
+// ─── Decoding ────────────────────────────────────────────────────────────────
+
+/**
+ * Pick the largest image from an ICO file and decode it.
+ * ICO entries are either embedded PNGs or uncompressed BMP bitmaps.
+ */
+function decodeIcoImage(buffer: Buffer): RasterImage {
+    const entries = decodeIco(buffer);
+    if (entries.length === 0) {
+        throw new Error("ICO file contains no images");
+    }
+
+    const largest = entries.reduce((best, entry) =>
+        entry.width * entry.height > best.width * best.height ? entry : best
+    );
+
+    if (largest.type === "png") {
+        return decodePng(Buffer.from(largest.data));
+    }
+
+    return {
+        width: largest.width,
+        height: largest.height,
+        data: new Uint8Array(largest.data.buffer, largest.data.byteOffset, largest.data.byteLength),
+    };
+}
+
+function decodePng(buffer: Buffer): RasterImage {
+    const png = PNG.sync.read(buffer);
+    return { width: png.width, height: png.height, data: png.data };
+}
+
+/**
+ * Decode an image buffer into RGBA pixels.
+ * The format is taken from the `ImageInfo` produced by `validateImage`.
+ */
+export async function decodeImage(buffer: Buffer, info: ImageInfo): Promise<RasterImage> {
+    switch (info.format) {
+        case "PNG":
+            return decodePng(buffer);
+        case "JPEG": {
+            const decoded = jpeg.decode(buffer, { useTArray: true, formatAsRGBA: true });
+            return { width: decoded.width, height: decoded.height, data: decoded.data };
+        }
+        case "WEBP": {
+            await ensureWebpCodec();
+            const arrayBuffer = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+            const decoded = await decodeWebp(arrayBuffer);
+            return {
+                width: decoded.width,
+                height: decoded.height,
+                data: new Uint8Array(decoded.data.buffer, decoded.data.byteOffset, decoded.data.byteLength),
+            };
+        }
+        case "ICO":
+            return decodeIcoImage(buffer);
+        case "SVG":
+            return rasterizeSvg(buffer);
+        default:
+            throw new Error(`Cannot convert from ${info.format} — supported inputs are PNG, JPEG, WebP, ICO and SVG`);
+    }
+}
+
+// ─── Encoding ────────────────────────────────────────────────────────────────
+
+/**
+ * Composite every pixel over an opaque background colour.
+ */
+export function flattenAlpha(image: RasterImage, background: RgbColor): RasterImage {
+    const data = new Uint8Array(image.data.length);
+
+    for (let i = 0; i < image.data.length; i += 4) {
+        const alpha = image.data[i + 3] / 255;
+        data[i] = Math.round(image.data[i] * alpha + background.r * (1 - alpha));
+        data[i + 1] = Math.round(image.data[i + 1] * alpha + background.g * (1 - alpha));
+        data[i + 2] = Math.round(image.data[i + 2] * alpha + background.b * (1 - alpha));
+        data[i + 3] = 255;
+    }
+
+    return { width: image.width, height: image.height, data };
+}
+
+function encodePng(image: RasterImage): Buffer {
+    const png = new PNG({ width: image.width, height: image.height });
+    png.data = Buffer.from(image.data.buffer, image.data.byteOffset, image.data.byteLength);
+    return PNG.sync.write(png);
+}
+
+/**
+ * Wrap PNG-compressed images in an ICO container, one directory entry each.
+ * PNG payloads inside ICO files are supported since Windows Vista and by all
+ * modern browsers. Dimensions of 256px or more are stored as 0, per the spec.
+ */
+export function encodeIco(images: RasterImage[]): Buffer {
+    const HEADER_SIZE = 6;
+    const ENTRY_SIZE = 16;
+    const payloads = images.map(encodePng);
+
+    const header = Buffer.alloc(HEADER_SIZE + ENTRY_SIZE * images.length);
+    header.writeUInt16LE(0, 0); // reserved
+    header.writeUInt16LE(1, 2); // type: icon
+    header.writeUInt16LE(images.length, 4);
+
+    let offset = header.length;
+    images.forEach((image, i) => {
+        const entry = HEADER_SIZE + ENTRY_SIZE * i;
+        header.writeUInt8(image.width >= 256 ? 0 : image.width, entry);
+        header.writeUInt8(image.height >= 256 ? 0 : image.height, entry + 1);
+        header.writeUInt8(0, entry + 2); // no palette
+        header.writeUInt8(0, entry + 3); // reserved
+        header.writeUInt16LE(1, entry + 4); // colour planes
+        header.writeUInt16LE(32, entry + 6); // bits per pixel
+        header.writeUInt32LE(payloads[i].length, entry + 8);
+        header.writeUInt32LE(offset, entry + 12);
+        offset += payloads[i].length;
+    });
+
+    return Buffer.concat([header, ...payloads]);
+}
+
+/**
+ * Encode RGBA pixels into the requested output format.
+ */
+export async function encodeImage(
+    image: RasterImage,
+    format: OutputFormat,
+    options: ConvertOptions = {}
+): Promise<Buffer> {
+    const quality = options.quality ?? DEFAULT_QUALITY;
+
+    switch (format) {
+        case "png":
+            return encodePng(image);
+        case "jpg": {
+            const flat = flattenAlpha(image, options.background ?? DEFAULT_BACKGROUND);
+            return jpeg.encode({ width: flat.width, height: flat.height, data: flat.data }, quality).data;
+        }
+        case "webp": {
+            await ensureWebpCodec();
+            const encoded = await encodeWebp(
+                {
+                    width: image.width,
+                    height: image.height,
+                    data: new Uint8ClampedArray(image.data),
+                    colorSpace: "srgb",
+                },
+                { quality }
+            );
+            return Buffer.from(encoded);
+        }
+        case "ico":
+            return encodeIco([image]);
+    }
+}
+
+// ─── Conversion Pipeline ─────────────────────────────────────────────────────
+
+/**
+ * Parse a CSS-style hex colour ("#fff", "#ffffff" or without the hash).
+ */
+export function parseHexColor(input: string): RgbColor {
+    const hex = input.trim().replace(/^#/, "");
+    const full = hex.length === 3 ? hex.split("").map((c) => c + c).join("") : hex;
+
+    if (!/^[0-9a-f]{6}$/i.test(full)) {
+        throw new Error(`Invalid colour "${input}" — expected a hex colour like "#ffffff"`);
+    }
+
+    return {
+        r: parseInt(full.slice(0, 2), 16),
+        g: parseInt(full.slice(2, 4), 16),
+        b: parseInt(full.slice(4, 6), 16),
+    };
+}
+
+/**
+ * Map a validated image to the output format that re-encodes it losslessly
+ * in kind, or null when we have no encoder for it (SVG, GIF, TIFF, ...).
+ */
+export function outputFormatOf(info: ImageInfo): OutputFormat | null {
+    const entry = Object.entries(OUTPUT_FORMATS).find(([, format]) => format === info.format);
+    return entry ? (entry[0] as OutputFormat) : null;
+}
+
+/**
+ * Run encoder output back through `validateImage` to make sure the codec
+ * produced what we asked for before anything is written to disk.
+ */
+function validateOutput(output: Buffer, expected: string): ImageInfo {
+    const validation = validateImage(output);
+    if (!validation.valid || validation.info!.format !== expected) {
+        throw new Error(
+            `${expected} encoder produced invalid output: ${validation.reason || `detected ${validation.info!.format}`}`
+        );
+    }
+    return validation.info!;
+}
+
+function assertIcoSize(size: number): void {
+    if (size > MAX_ICO_SIZE) {
+        throw new Error(`ICO images are limited to ${MAX_ICO_SIZE}px (requested ${size}px)`);
+    }
+}
+
+/**
+ * Convert a validated image buffer to another format, optionally resizing it
+ * to an exact `size` × `size` square on the way.
+ *
+ * If the source already has the requested format (and size), it is returned
+ * untouched. Otherwise it is decoded, resized and re-encoded.
+ */
+export async function convertImage(
+    buffer: Buffer,
+    info: ImageInfo,
+    format: OutputFormat,
+    options: ConvertOptions = {}
+): Promise<ConvertResult> {
+    const expected = OUTPUT_FORMATS[format];
+    const { size } = options;
+
+    if (info.format === expected && size === undefined) {
+        return { buffer, imageInfo: info, converted: false };
+    }
+
+    if (format === "ico" && size !== undefined) {
+        assertIcoSize(size);
+    }
+
+    // SVGs are rendered at the target size rather than rendered and then scaled
+    const decoded = info.isSvg ? await rasterizeSvg(buffer, size) : await decodeImage(buffer, info);
+
+    if (info.format === expected && decoded.width === size && decoded.height === size) {
+        return { buffer, imageInfo: info, converted: false };
+    }
+
+    const image = size === undefined ? decoded : fitToSquare(decoded, size);
+    const output = await encodeImage(image, format, options);
+
+    return { buffer: output, imageInfo: validateOutput(output, expected), converted: true };
+}
+
+/**
+ * Build a multi-resolution ICO file (e.g. 16/32/48 for a favicon) from a
+ * single source image. The source is decoded once and resized per entry.
+ */
+export async function createIcon(
+    buffer: Buffer,
+    info: ImageInfo,
+    sizes: number[]
+): Promise<ConvertResult> {
+    sizes.forEach(assertIcoSize);
+
+    const unique = Array.from(new Set(sizes)).sort((a, b) => a - b);
+    let images: RasterImage[];
+    if (info.isSvg) {
+        // Render each entry at its own size, so small icons stay crisp
+        images = [];
+        for (const size of unique) images.push(fitToSquare(await rasterizeSvg(buffer, size), size));
+    } else {
+        const decoded = await decodeImage(buffer, info);
+        images = unique.map((size) => fitToSquare(decoded, size));
+    }
+    const output = encodeIco(images);
+
+    return { buffer: output, imageInfo: validateOutput(output, OUTPUT_FORMATS.ico), converted: true };
+}
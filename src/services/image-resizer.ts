@@ -0,0 +1,178 @@
+/**
+ * Image Resizer — Exact pixel resizing for decoded logos
+ *
+ * Logo sources return whatever resolution they have on hand, so a "large"
+ * request can come back as a 32px favicon or a 1024px Clearbit PNG. This module
+ * resamples decoded RGBA pixels to the exact dimension the caller asked for.
+ *
+ * - Lanczos-3 resampling, widened when downscaling so every source pixel counts
+ * - Premultiplied alpha, so transparent edges don't bleed dark fringes
+ * - Non-square logos are scaled to fit and centred on a transparent square canvas
+ */
+
+import type { RasterImage } from "./image-converter.js";
+
+// ─── Resampling Filter ───────────────────────────────────────────────────────
+
+const LANCZOS_LOBES = 3;
+
+function lanczos(x: number): number {
+    if (x === 0) return 1;
+    if (x <= -LANCZOS_LOBES || x >= LANCZOS_LOBES) return 0;
+    const px = Math.PI * x;
+    return (LANCZOS_LOBES * Math.sin(px) * Math.sin(px / LANCZOS_LOBES)) / (px * px);
+}
+
+interface Contribution {
+    start: number;
+    weights: Float32Array;
+}
+
+/**
+ * Precompute, for each destination pixel along one axis, which source pixels
+ * contribute to it and with what (normalized) weight.
+ */
+function computeContributions(srcSize: number, dstSize: number): Contribution[] {
+    const scale = dstSize / srcSize;
+    // When shrinking, stretch the filter so it averages over the whole footprint
+    const filterScale = Math.min(scale, 1);
+    const support = LANCZOS_LOBES / filterScale;
+    const contributions: Contribution[] = [];
+
+    for (let i = 0; i < dstSize; i++) {
+        const center = (i + 0.5) / scale;
+        const start = Math.max(0, Math.floor(center - support));
+        const end = Math.min(srcSize - 1, Math.ceil(center + support));
+        const weights = new Float32Array(end - start + 1);
+
+        let total = 0;
+        for (let j = start; j <= end; j++) {
+            const w = lanczos((j + 0.5 - center) * filterScale);
+            weights[j - start] = w;
+            total += w;
+        }
+        if (total !== 0) {
+            for (let k = 0; k < weights.length; k++) weights[k] /= total;
+        }
+
+        contributions.push({ start, weights });
+    }
+
+    return contributions;
+}
+
+// ─── Resizing ────────────────────────────────────────────────────────────────
+
+/**
+ * Resample an image to exactly `width` × `height` pixels.
+ * Aspect ratio is not preserved — use `fitToSquare` for that.
+ */
+export function resizeImage(image: RasterImage, width: number, height: number): RasterImage {
+    if (width === image.width && height === image.height) {
+        return image;
+    }
+
+    const { width: srcW, height: srcH, data } = image;
+
+    // Premultiply alpha into floating point working space
+    const src = new Float32Array(srcW * srcH * 4);
+    for (let i = 0; i < data.length; i += 4) {
+        const alpha = data[i + 3] / 255;
+        src[i] = data[i] * alpha;
+        src[i + 1] = data[i + 1] * alpha;
+        src[i + 2] = data[i + 2] * alpha;
+        src[i + 3] = data[i + 3];
+    }
+
+    // Horizontal pass: srcW × srcH → width × srcH
+    const horizontal = computeContributions(srcW, width);
+    const mid = new Float32Array(width * srcH * 4);
+    for (let y = 0; y < srcH; y++) {
+        for (let x = 0; x < width; x++) {
+            const { start, weights } = horizontal[x];
+            let r = 0, g = 0, b = 0, a = 0;
+            for (let k = 0; k < weights.length; k++) {
+                const s = (y * srcW + start + k) * 4;
+                const w = weights[k];
+                r += src[s] * w;
+                g += src[s + 1] * w;
+                b += src[s + 2] * w;
+                a += src[s + 3] * w;
+            }
+            const d = (y * width + x) * 4;
+            mid[d] = r;
+            mid[d + 1] = g;
+            mid[d + 2] = b;
+            mid[d + 3] = a;
+        }
+    }
+
+    // Vertical pass: width × srcH → width × height, then un-premultiply
+    const vertical = computeContributions(srcH, height);
+    const out = new Uint8Array(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        const { start, weights } = vertical[y];
+        for (let x = 0; x < width; x++) {
+            let r = 0, g = 0, b = 0, a = 0;
+            for (let k = 0; k < weights.length; k++) {
+                const s = ((start + k) * width + x) * 4;
+                const w = weights[k];
+                r += mid[s] * w;
+                g += mid[s + 1] * w;
+                b += mid[s + 2] * w;
+                a += mid[s + 3] * w;
+            }
+
+            const d = (y * width + x) * 4;
+            const alpha = clampByte(a);
+            if (alpha === 0) continue; // fully transparent — leave as 0,0,0,0
+
+            const unpremultiply = 255 / alpha;
+            out[d] = clampByte(r * unpremultiply);
+            out[d + 1] = clampByte(g * unpremultiply);
+            out[d + 2] = clampByte(b * unpremultiply);
+            out[d + 3] = alpha;
+        }
+    }
+
+    return { width, height, data: out };
+}
+
+function clampByte(value: number): number {
+    return value <= 0 ? 0 : value >= 255 ? 255 : Math.round(value);
+}
+
+/**
+ * Centre an image on a transparent `size` × `size` canvas without scaling it.
+ */
+export function padToSquare(image: RasterImage, size: number): RasterImage {
+    if (image.width === size && image.height === size) {
+        return image;
+    }
+
+    const out = new Uint8Array(size * size * 4);
+    const offsetX = Math.floor((size - image.width) / 2);
+    const offsetY = Math.floor((size - image.height) / 2);
+
+    for (let y = 0; y < image.height; y++) {
+        const rowStart = y * image.width * 4;
+        out.set(
+            image.data.subarray(rowStart, rowStart + image.width * 4),
+            ((y + offsetY) * size + offsetX) * 4
+        );
+    }
+
+    return { width: size, height: size, data: out };
+}
+
+/**
+ * Scale an image so its longest side is exactly `size` pixels, then pad it
+ * onto a transparent square canvas. The result is always `size` × `size`.
+ */
+export function fitToSquare(image: RasterImage, size: number): RasterImage {
+    const scale = size / Math.max(image.width, image.height);
+    const width = Math.max(1, Math.round(image.width * scale));
+    const height = Math.max(1, Math.round(image.height * scale));
+
+    return padToSquare(resizeImage(image, width, height), size);
+}
@@ -3,6 +3,8 @@
  *
  * Validates images by checking magic bytes (file signatures), minimum size,
  * and rejects HTML error pages that some servers return with 200 status codes.
+ * Also reads dimensions, bit depth, alpha and frame count from format headers,
+ * without decoding any pixel data.
  */
 
 // ─── Magic Byte Signatures ──────────────────────────────────────────────────
@@ -47,8 +49,18 @@ export interface ImageInfo {
     sizeBytes: number;
     isValid: boolean;
     isSvg: boolean;
+    /** Pixel width (for ICO: the largest entry; for SVG: the intrinsic size). */
+    width?: number;
+    height?: number;
+    /** Bits per pixel, across all channels (e.g. 32 for 8-bit RGBA). */
+    bitDepth?: number;
+    hasAlpha?: boolean;
+    /** Animation frames, or the number of images in an ICO file. */
+    frameCount?: number;
 }
 
+type ImageMetadata = Pick<ImageInfo, "width" | "height" | "bitDepth" | "hasAlpha" | "frameCount">;
+
 export interface ValidationResult {
     valid: boolean;
     info?: ImageInfo;
@@ -102,6 +114,297 @@ function isHtmlContent(buffer: Buffer): boolean {
     );
 }
 
+// ─── Header Parsers ──────────────────────────────────────────────────────────
+
+/** Channels per pixel for each PNG colour type. */
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * PNG: dimensions and colour type from IHDR; alpha also from a tRNS chunk,
+ * frame count from the APNG acTL chunk.
+ */
+function parsePng(buffer: Buffer): ImageMetadata {
+    const bitsPerSample = buffer[24];
+    const colorType = buffer[25];
+    const meta: ImageMetadata = {
+        width: buffer.readUInt32BE(16),
+        height: buffer.readUInt32BE(20),
+        bitDepth: bitsPerSample * (PNG_CHANNELS[colorType] ?? 1),
+        hasAlpha: colorType === 4 || colorType === 6,
+        frameCount: 1,
+    };
+
+    // Walk chunks up to the image data
+    let offset = 8;
+    while (offset + 8 <= buffer.length) {
+        const length = buffer.readUInt32BE(offset);
+        const type = buffer.toString("ascii", offset + 4, offset + 8);
+        if (type === "IDAT" || type === "IEND") break;
+        if (type === "tRNS") meta.hasAlpha = true;
+        if (type === "acTL" && offset + 12 <= buffer.length) meta.frameCount = buffer.readUInt32BE(offset + 8);
+        offset += 12 + length;
+    }
+
+    return meta;
+}
+
+/**
+ * JPEG: walk the marker segments until a Start Of Frame (SOFn) marker.
+ */
+function parseJpeg(buffer: Buffer): ImageMetadata {
+    let offset = 2;
+    while (offset + 9 < buffer.length) {
+        if (buffer[offset] !== 0xff) {
+            offset++;
+            continue;
+        }
+
+        const marker = buffer[offset + 1];
+        // Standalone markers carry no length field
+        if (marker === 0xff || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+            offset += marker === 0xff ? 1 : 2;
+            continue;
+        }
+
+        // SOF0–SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            const precision = buffer[offset + 4];
+            const components = buffer[offset + 9];
+            return {
+                width: buffer.readUInt16BE(offset + 7),
+                height: buffer.readUInt16BE(offset + 5),
+                bitDepth: precision * components,
+                hasAlpha: false,
+                frameCount: 1,
+            };
+        }
+
+        offset += 2 + buffer.readUInt16BE(offset + 2);
+    }
+    return {};
+}
+
+/**
+ * GIF: logical screen size from the header; walk the block stream to count
+ * frames and spot transparency in Graphic Control Extensions.
+ */
+function parseGif(buffer: Buffer): ImageMetadata {
+    const packed = buffer[10];
+    const meta: ImageMetadata = {
+        width: buffer.readUInt16LE(6),
+        height: buffer.readUInt16LE(8),
+        bitDepth: (packed & 0x07) + 1,
+        hasAlpha: false,
+        frameCount: 0,
+    };
+
+    const skipSubBlocks = (start: number): number => {
+        let pos = start;
+        while (pos < buffer.length && buffer[pos] !== 0) pos += buffer[pos] + 1;
+        return pos + 1;
+    };
+
+    let offset = 13;
+    if (packed & 0x80) offset += 3 * (1 << ((packed & 0x07) + 1)); // global colour table
+
+    while (offset < buffer.length) {
+        const block = buffer[offset];
+        if (block === 0x3b) break; // trailer
+
+        if (block === 0x21) {
+            // Extension: Graphic Control (F9) carries the transparency flag
+            if (buffer[offset + 1] === 0xf9 && offset + 3 < buffer.length && buffer[offset + 3] & 0x01) {
+                meta.hasAlpha = true;
+            }
+            offset = skipSubBlocks(offset + 2);
+        } else if (block === 0x2c) {
+            // Image descriptor, optional local colour table, LZW data
+            meta.frameCount!++;
+            if (offset + 9 >= buffer.length) break;
+            const local = buffer[offset + 9];
+            offset += 10;
+            if (local & 0x80) offset += 3 * (1 << ((local & 0x07) + 1));
+            offset = skipSubBlocks(offset + 1);
+        } else {
+            break;
+        }
+    }
+
+    meta.frameCount = Math.max(meta.frameCount!, 1);
+    return meta;
+}
+
+/**
+ * WebP: the first chunk is VP8 (lossy), VP8L (lossless) or VP8X (extended,
+ * with feature flags and canvas size). Animated files count ANMF chunks.
+ */
+function parseWebp(buffer: Buffer): ImageMetadata {
+    if (buffer.toString("ascii", 8, 12) !== "WEBP") return {};
+    const chunk = buffer.toString("ascii", 12, 16);
+
+    if (chunk === "VP8 ") {
+        return {
+            width: buffer.readUInt16LE(26) & 0x3fff,
+            height: buffer.readUInt16LE(28) & 0x3fff,
+            bitDepth: 24,
+            hasAlpha: false,
+            frameCount: 1,
+        };
+    }
+
+    if (chunk === "VP8L") {
+        const bits = buffer.readUInt32LE(21);
+        const hasAlpha = ((bits >> 28) & 0x01) === 1;
+        return {
+            width: (bits & 0x3fff) + 1,
+            height: ((bits >> 14) & 0x3fff) + 1,
+            bitDepth: hasAlpha ? 32 : 24,
+            hasAlpha,
+            frameCount: 1,
+        };
+    }
+
+    if (chunk === "VP8X") {
+        const flags = buffer[20];
+        const hasAlpha = (flags & 0x10) !== 0;
+        let frameCount = 1;
+
+        if (flags & 0x02) {
+            frameCount = 0;
+            let offset = 12;
+            while (offset + 8 <= buffer.length) {
+                if (buffer.toString("ascii", offset, offset + 4) === "ANMF") frameCount++;
+                const size = buffer.readUInt32LE(offset + 4);
+                offset += 8 + size + (size % 2);
+            }
+        }
+
+        return {
+            width: buffer.readUIntLE(24, 3) + 1,
+            height: buffer.readUIntLE(27, 3) + 1,
+            bitDepth: hasAlpha ? 32 : 24,
+            hasAlpha,
+            frameCount,
+        };
+    }
+
+    return {};
+}
+
+/**
+ * ICO: read the directory and report the largest entry.
+ * A stored width/height of 0 means 256px.
+ */
+function parseIco(buffer: Buffer): ImageMetadata {
+    const count = buffer.readUInt16LE(4);
+    let best: ImageMetadata | null = null;
+
+    for (let i = 0; i < count; i++) {
+        const entry = 6 + 16 * i;
+        if (entry + 16 > buffer.length) break;
+
+        const width = buffer[entry] || 256;
+        const height = buffer[entry + 1] || 256;
+        const bitDepth = buffer.readUInt16LE(entry + 6);
+        const dataOffset = buffer.readUInt32LE(entry + 12);
+        const isPng = dataOffset + 4 <= buffer.length && buffer.readUInt32BE(dataOffset) === 0x89504e47;
+
+        if (!best || width * height > best.width! * best.height!) {
+            best = { width, height, bitDepth, hasAlpha: isPng || bitDepth === 32 };
+        }
+    }
+
+    return best ? { ...best, frameCount: count } : {};
+}
+
+/**
+ * BMP: dimensions and bit depth from the DIB header. Negative heights mean
+ * top-down row order. Alpha only exists in 32-bit bitmaps with an alpha mask.
+ */
+function parseBmp(buffer: Buffer): ImageMetadata {
+    const dibSize = buffer.readUInt32LE(14);
+
+    if (dibSize === 12) {
+        // BITMAPCOREHEADER (OS/2)
+        return {
+            width: buffer.readUInt16LE(18),
+            height: buffer.readUInt16LE(20),
+            bitDepth: buffer.readUInt16LE(24),
+            hasAlpha: false,
+            frameCount: 1,
+        };
+    }
+
+    const bitDepth = buffer.readUInt16LE(28);
+    return {
+        width: buffer.readInt32LE(18),
+        height: Math.abs(buffer.readInt32LE(22)),
+        bitDepth,
+        hasAlpha: bitDepth === 32 && dibSize >= 56 && buffer.readUInt32LE(66) !== 0,
+        frameCount: 1,
+    };
+}
+
+/**
+ * Parse an SVG length attribute. Percentages and unitless-but-empty values
+ * have no intrinsic size, so they return undefined.
+ */
+function parseSvgLength(value: string | undefined): number | undefined {
+    const match = value?.trim().match(/^([\d.]+)(px)?$/);
+    if (!match) return undefined;
+    const n = parseFloat(match[1]);
+    return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * SVG: intrinsic size from the root element's width/height attributes,
+ * falling back to the viewBox dimensions.
+ */
+function parseSvg(buffer: Buffer): ImageMetadata {
+    const tag = buffer.toString("utf-8").match(/<svg\b[^>]*>/i)?.[0];
+    if (!tag) return {};
+
+    const attr = (name: string) => tag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, "i"))?.[1];
+    const viewBox = attr("viewBox")?.trim().split(/[\s,]+/).map(Number);
+    const hasViewBox = viewBox?.length === 4 && viewBox.every(Number.isFinite);
+
+    const width = parseSvgLength(attr("width")) ?? (hasViewBox ? viewBox![2] : undefined);
+    const height = parseSvgLength(attr("height")) ?? (hasViewBox ? viewBox![3] : undefined);
+
+    return { width, height, hasAlpha: true, frameCount: 1 };
+}
+
+const METADATA_PARSERS: Record<string, (buffer: Buffer) => ImageMetadata> = {
+    PNG: parsePng,
+    JPEG: parseJpeg,
+    GIF: parseGif,
+    WEBP: parseWebp,
+    ICO: parseIco,
+    BMP: parseBmp,
+    SVG: parseSvg,
+};
+
+/**
+ * Read image metadata from the format header. Truncated or malformed headers
+ * yield whatever fields could be read — metadata never fails validation.
+ */
+export function parseImageMetadata(buffer: Buffer, format: string): ImageMetadata {
+    const parser = METADATA_PARSERS[format];
+    if (!parser) return {};
+
+    try {
+        const meta = parser(buffer);
+        // Zeroed or garbage headers are as good as missing
+        if (!meta.width || !meta.height || meta.width < 0 || meta.height < 0) {
+            delete meta.width;
+            delete meta.height;
+        }
+        return meta;
+    } catch {
+        return {};
+    }
+}
+
 /**
  * Validate a downloaded buffer to ensure it's a legitimate image.
  *
@@ -138,6 +441,7 @@ export function validateImage(buffer: Buffer): ValidationResult {
                 sizeBytes: buffer.length,
                 isValid: true,
                 isSvg: true,
+                ...parseImageMetadata(buffer, "SVG"),
             },
         };
     }
@@ -154,6 +458,7 @@ export function validateImage(buffer: Buffer): ValidationResult {
                 sizeBytes: buffer.length,
                 isValid: true,
                 isSvg: false,
+                ...parseImageMetadata(buffer, format.format),
             },
         };
     }
@@ -170,3 +475,18 @@ export function formatFileSize(bytes: number): string {
     if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
     return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
+
+/**
+ * Get a short human-readable description of an image's header metadata,
+ * e.g. "256×256 · 32-bit · alpha" or "48×48 · 3 images".
+ */
+export function describeImageMetadata(info: ImageInfo): string {
+    const parts: string[] = [];
+    parts.push(info.width && info.height ? `${info.width}×${info.height}` : "unknown dimensions");
+    if (info.bitDepth) parts.push(`${info.bitDepth}-bit`);
+    if (info.hasAlpha) parts.push("alpha");
+    if (info.frameCount && info.frameCount > 1) {
+        parts.push(info.format === "ICO" ? `${info.frameCount} images` : `${info.frameCount} frames`);
+    }
+    return parts.join(" · ");
+}
@@ -0,0 +1,490 @@
+/**
+ * Logo Cache — Persistent on-disk cache for fetched logos
+ *
+ * Entries are keyed by (domain, source, pixel size, variant) — plus the search
+ * term, for sources that search by company name — and point at
+ * content-addressed blobs, so identical images returned by several sources
+ * or sizes are stored once. Each entry keeps the `ImageInfo`, source metadata
+ * and the HTTP validators (ETag / Last-Modified) needed to revalidate it.
+ *
+ * Layout of the cache directory:
+ *   index.json            — all entries, rewritten atomically on change (access
+ *                           times of cache hits are written a few seconds later,
+ *                           batched)
+ *   blobs/<sha256>.<ext>  — image bytes
+ *
+ * - Fresh entries (younger than the TTL) are served without any network call
+ * - Stale entries with validators can be revalidated with a conditional GET
+ * - When blobs exceed the size cap, least-recently-used entries are evicted
+ * - Blobs no entry uses are deleted: when their last entry is replaced or
+ *   removed, and when the index is loaded (after a crash or a corrupt index)
+ *
+ * Configuration: MCP_LOGO_CACHE (set to "off" to disable), MCP_LOGO_CACHE_DIR,
+ * MCP_LOGO_CACHE_TTL_HOURS (default 168) and MCP_LOGO_CACHE_MAX_MB (default 100).
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+import type { ImageInfo } from "./image-validator.js";
+import type { LogoResult } from "./logo-fetcher.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface CacheKey {
+    /** Domain the logo is for. */
+    domain: string;
+    /** Search term, for sources that search by company name rather than domain. */
+    query?: string;
+    /** Source id from the source registry. */
+    source: string;
+    /** Requested pixel size. */
+    px: number;
+    /** Requested logo variant; sources may return a different logo for each. */
+    variant?: string;
+}
+
+export interface HttpValidators {
+    etag?: string;
+    lastModified?: string;
+}
+
+export interface CacheEntry extends CacheKey {
+    /** SHA-256 of the image bytes; names the blob file. */
+    hash: string;
+    imageInfo: ImageInfo;
+    /** Display name of the source that produced the logo. */
+    sourceName: string;
+    sourceUrl: string;
+    validators?: HttpValidators;
+    fetchedAt: number;
+    lastAccessedAt: number;
+}
+
+export interface CachedLogo {
+    entry: CacheEntry;
+    logo: LogoResult;
+    /** True if the entry is younger than the TTL. */
+    fresh: boolean;
+}
+
+export interface CacheConfig {
+    enabled: boolean;
+    dir: string;
+    ttlMs: number;
+    maxBytes: number;
+}
+
+export interface CacheStats {
+    enabled: boolean;
+    dir: string;
+    entries: number;
+    freshEntries: number;
+    blobs: number;
+    totalBytes: number;
+    maxBytes: number;
+    ttlMs: number;
+}
+
+interface CacheIndex {
+    version: 1;
+    entries: Record<string, CacheEntry>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Delay before access times from cache hits are written, batching the hits in between. */
+const ACCESS_WRITE_DELAY_MS = 5000;
+
+let config: CacheConfig = {
+    enabled: true,
+    dir: join(homedir(), ".cache", "mcp-logo-downloader"),
+    ttlMs: 168 * HOUR_MS,
+    maxBytes: 100 * 1024 * 1024,
+};
+
+// ─── Index Persistence ───────────────────────────────────────────────────────
+
+let index: CacheIndex | null = null;
+let loading: { dir: string; index: Promise<CacheIndex> } | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+let pendingWrite: NodeJS.Timeout | null = null;
+
+function keyString(key: CacheKey): string {
+    const query = key.query ? `|?${key.query.toLowerCase()}` : "";
+    return `${key.domain.toLowerCase()}|${key.source}|${key.px}${key.variant ? `|${key.variant}` : ""}${query}`;
+}
+
+function blobPath(entry: Pick<CacheEntry, "hash" | "imageInfo">): string {
+    return join(config.dir, "blobs", `${entry.hash}.${entry.imageInfo.extension}`);
+}
+
+/**
+ * The index, read from disk on first use. Concurrent callers share one read,
+ * so the blob sweep can't run after another caller has stored a blob.
+ */
+async function loadIndex(): Promise<CacheIndex> {
+    if (index) return index;
+
+    if (loading?.dir !== config.dir) loading = { dir: config.dir, index: readIndex(config.dir) };
+    const pending = loading;
+    const loaded = await pending.index;
+    if (loading === pending && pending.dir === config.dir) {
+        index = loaded;
+        loading = null;
+    }
+    return loaded;
+}
+
+async function readIndex(dir: string): Promise<CacheIndex> {
+    let loaded: CacheIndex;
+    try {
+        const raw = await readFile(join(dir, "index.json"), "utf-8");
+        const parsed = JSON.parse(raw) as CacheIndex;
+        loaded = parsed.version === 1 && parsed.entries ? parsed : { version: 1, entries: {} };
+    } catch {
+        // Missing or corrupt index — start empty; the sweep below deletes its blobs
+        loaded = { version: 1, entries: {} };
+    }
+    await sweepBlobs(dir, loaded);
+    return loaded;
+}
+
+/**
+ * Delete files in the blob directory that no entry uses, so only indexed
+ * blobs — the ones counted against the size cap — take up space.
+ */
+async function sweepBlobs(dir: string, idx: CacheIndex): Promise<void> {
+    let files: string[];
+    try {
+        files = await readdir(join(dir, "blobs"));
+    } catch {
+        return;
+    }
+    const used = new Set(Object.values(idx.entries).map((entry) => `${entry.hash}.${entry.imageInfo.extension}`));
+    for (const file of files) {
+        if (!used.has(file)) await unlink(join(dir, "blobs", file)).catch(() => undefined);
+    }
+}
+
+/**
+ * Write the index to disk, including any access times waiting for a batched
+ * write. Writes are serialized so concurrent fetches (bulk downloads) can't
+ * interleave, and go through a temp file + rename so a crash never leaves a
+ * half-written index.
+ */
+function persistIndex(): Promise<void> {
+    if (pendingWrite) {
+        clearTimeout(pendingWrite);
+        pendingWrite = null;
+    }
+    // The index and directory as of now, in case the cache is reconfigured meanwhile
+    const idx = index;
+    const dir = config.dir;
+    writeQueue = writeQueue
+        .catch(() => undefined)
+        .then(async () => {
+            if (!idx) return;
+            await mkdir(dir, { recursive: true });
+            const target = join(dir, "index.json");
+            const temp = `${target}.${process.pid}.tmp`;
+            await writeFile(temp, JSON.stringify(idx));
+            await rename(temp, target);
+        });
+    return writeQueue;
+}
+
+/**
+ * Write the index after ACCESS_WRITE_DELAY_MS, so a burst of cache hits
+ * costs one write. The timer doesn't keep the process alive; call
+ * `flushCache` to write access times before exiting.
+ */
+function schedulePersist(): void {
+    if (pendingWrite) return;
+    pendingWrite = setTimeout(() => void persistIndex().catch(() => undefined), ACCESS_WRITE_DELAY_MS);
+    pendingWrite.unref();
+}
+
+/**
+ * Write batched access times to disk now, if any are waiting.
+ */
+export async function flushCache(): Promise<void> {
+    if (pendingWrite) await persistIndex();
+    await writeQueue.catch(() => undefined);
+}
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+
+/**
+ * Override cache settings. Changing the directory drops the in-memory index
+ * so the next access loads the index from the new location.
+ */
+export function configureCache(overrides: Partial<CacheConfig>): void {
+    if (overrides.dir && overrides.dir !== config.dir) {
+        // Batched access times still belong to the old directory
+        if (pendingWrite) void persistIndex().catch(() => undefined);
+        index = null;
+    }
+    config = { ...config, ...overrides };
+}
+
+export function getCacheConfig(): CacheConfig {
+    return { ...config };
+}
+
+/**
+ * Load cache settings from the environment (see the module header).
+ */
+export function loadCacheConfigFromEnv(env: NodeJS.ProcessEnv = process.env): void {
+    const overrides: Partial<CacheConfig> = {};
+
+    if (env.MCP_LOGO_CACHE !== undefined) {
+        overrides.enabled = !/^(0|false|no|off)$/i.test(env.MCP_LOGO_CACHE.trim());
+    }
+    if (env.MCP_LOGO_CACHE_DIR) {
+        overrides.dir = env.MCP_LOGO_CACHE_DIR;
+    }
+    if (env.MCP_LOGO_CACHE_TTL_HOURS) {
+        const hours = Number(env.MCP_LOGO_CACHE_TTL_HOURS);
+        if (!Number.isFinite(hours) || hours < 0) {
+            throw new Error(`MCP_LOGO_CACHE_TTL_HOURS must be a non-negative number, got "${env.MCP_LOGO_CACHE_TTL_HOURS}"`);
+        }
+        overrides.ttlMs = hours * HOUR_MS;
+    }
+    if (env.MCP_LOGO_CACHE_MAX_MB) {
+        const mb = Number(env.MCP_LOGO_CACHE_MAX_MB);
+        if (!Number.isFinite(mb) || mb <= 0) {
+            throw new Error(`MCP_LOGO_CACHE_MAX_MB must be a positive number, got "${env.MCP_LOGO_CACHE_MAX_MB}"`);
+        }
+        overrides.maxBytes = mb * 1024 * 1024;
+    }
+
+    configureCache(overrides);
+}
+
+// ─── Reads ───────────────────────────────────────────────────────────────────
+
+function isFresh(entry: CacheEntry, now = Date.now()): boolean {
+    return now - entry.fetchedAt < config.ttlMs;
+}
+
+/**
+ * Look up a cached logo. Returns stale entries too (with `fresh: false`) so
+ * the caller can revalidate them. Entries whose blob has gone missing are
+ * dropped.
+ */
+export async function getCachedLogo(key: CacheKey): Promise<CachedLogo | null> {
+    if (!config.enabled) return null;
+
+    const idx = await loadIndex();
+    const id = keyString(key);
+    const entry = idx.entries[id];
+    if (!entry) return null;
+
+    let buffer: Buffer;
+    try {
+        buffer = await readFile(blobPath(entry));
+    } catch {
+        delete idx.entries[id];
+        await persistIndex();
+        return null;
+    }
+
+    entry.lastAccessedAt = Date.now();
+    schedulePersist();
+
+    return {
+        entry,
+        fresh: isFresh(entry),
+        logo: {
+            buffer,
+            imageInfo: entry.imageInfo,
+            source: entry.sourceName,
+            sourceUrl: entry.sourceUrl,
+            validators: entry.validators,
+        },
+    };
+}
+
+// ─── Writes ──────────────────────────────────────────────────────────────────
+
+/**
+ * Store a freshly fetched logo under the given key, then enforce the size cap.
+ */
+export async function storeLogo(key: CacheKey, logo: LogoResult): Promise<CacheEntry | null> {
+    if (!config.enabled) return null;
+
+    const idx = await loadIndex();
+    const hash = createHash("sha256").update(logo.buffer).digest("hex");
+    const now = Date.now();
+
+    const entry: CacheEntry = {
+        domain: key.domain.toLowerCase(),
+        ...(key.query ? { query: key.query } : {}),
+        source: key.source,
+        px: key.px,
+        ...(key.variant ? { variant: key.variant } : {}),
+        hash,
+        imageInfo: logo.imageInfo,
+        sourceName: logo.source,
+        sourceUrl: logo.sourceUrl,
+        validators: logo.validators,
+        fetchedAt: now,
+        lastAccessedAt: now,
+    };
+
+    await mkdir(join(config.dir, "blobs"), { recursive: true });
+    await writeFile(blobPath(entry), logo.buffer);
+
+    const id = keyString(key);
+    const previous = idx.entries[id];
+    idx.entries[id] = entry;
+    if (previous) await deleteUnusedBlobs(idx, [previous]);
+    await evictToFit(idx);
+    await persistIndex();
+    return entry;
+}
+
+/**
+ * Mark a stale entry as fresh again after a successful revalidation
+ * (HTTP 304 Not Modified).
+ */
+export async function markRevalidated(key: CacheKey, validators?: HttpValidators): Promise<void> {
+    const idx = await loadIndex();
+    const entry = idx.entries[keyString(key)];
+    if (!entry) return;
+
+    entry.fetchedAt = Date.now();
+    if (validators?.etag || validators?.lastModified) {
+        entry.validators = { ...entry.validators, ...validators };
+    }
+    await persistIndex();
+}
+
+// ─── Eviction & Purging ──────────────────────────────────────────────────────
+
+/** Unique blobs and their sizes — several entries may share one blob. */
+function blobSizes(idx: CacheIndex): Map<string, number> {
+    const blobs = new Map<string, number>();
+    for (const entry of Object.values(idx.entries)) {
+        blobs.set(blobPath(entry), entry.imageInfo.sizeBytes);
+    }
+    return blobs;
+}
+
+/**
+ * Delete the blobs of dropped entries that no remaining entry references.
+ */
+async function deleteUnusedBlobs(idx: CacheIndex, dropped: CacheEntry[]): Promise<void> {
+    const stillUsed = blobSizes(idx);
+    for (const entry of dropped) {
+        const path = blobPath(entry);
+        if (!stillUsed.has(path)) {
+            await unlink(path).catch(() => undefined);
+        }
+    }
+}
+
+/**
+ * Remove entries and delete blobs no remaining entry references.
+ */
+async function removeEntries(idx: CacheIndex, ids: string[]): Promise<number> {
+    const removed = ids.filter((id) => idx.entries[id]).map((id) => {
+        const entry = idx.entries[id];
+        delete idx.entries[id];
+        return entry;
+    });
+    await deleteUnusedBlobs(idx, removed);
+    return removed.length;
+}
+
+/**
+ * Evict least-recently-used entries until the blobs fit under the size cap.
+ * A blob's bytes are freed once the last entry using it is evicted.
+ */
+async function evictToFit(idx: CacheIndex): Promise<void> {
+    const blobs = new Map<string, { bytes: number; entries: number }>();
+    let total = 0;
+    for (const entry of Object.values(idx.entries)) {
+        const path = blobPath(entry);
+        const blob = blobs.get(path);
+        if (blob) {
+            blob.entries++;
+        } else {
+            blobs.set(path, { bytes: entry.imageInfo.sizeBytes, entries: 1 });
+            total += entry.imageInfo.sizeBytes;
+        }
+    }
+    if (total <= config.maxBytes) return;
+
+    const byAge = Object.entries(idx.entries).sort(([, a], [, b]) => a.lastAccessedAt - b.lastAccessedAt);
+    for (const [id, entry] of byAge) {
+        if (total <= config.maxBytes) break;
+        delete idx.entries[id];
+
+        const path = blobPath(entry);
+        const blob = blobs.get(path)!;
+        if (--blob.entries === 0) {
+            total -= blob.bytes;
+            await unlink(path).catch(() => undefined);
+        }
+    }
+}
+
+export interface PurgeFilter {
+    /** Only entries for this domain. */
+    domain?: string;
+    /** Only entries older than the TTL. */
+    expiredOnly?: boolean;
+}
+
+/**
+ * Remove cache entries matching the filter (all entries if empty).
+ * Returns the number of entries removed.
+ */
+export async function purgeCache(filter: PurgeFilter = {}): Promise<number> {
+    const idx = await loadIndex();
+    const now = Date.now();
+    const domain = filter.domain?.toLowerCase();
+
+    const ids = Object.entries(idx.entries)
+        .filter(([, entry]) => (!domain || entry.domain === domain) && (!filter.expiredOnly || !isFresh(entry, now)))
+        .map(([id]) => id);
+
+    const removed = await removeEntries(idx, ids);
+    await persistIndex();
+    return removed;
+}
+
+// ─── Inspection ──────────────────────────────────────────────────────────────
+
+/**
+ * List cache entries, most recently used first.
+ */
+export async function listCacheEntries(domain?: string): Promise<Array<CacheEntry & { fresh: boolean }>> {
+    const idx = await loadIndex();
+    const now = Date.now();
+    return Object.values(idx.entries)
+        .filter((entry) => !domain || entry.domain === domain.toLowerCase())
+        .sort((a, b) => b.lastAccessedAt - a.lastAccessedAt)
+        .map((entry) => ({ ...entry, fresh: isFresh(entry, now) }));
+}
+
+export async function getCacheStats(): Promise<CacheStats> {
+    const idx = await loadIndex();
+    const entries = Object.values(idx.entries);
+    const blobs = blobSizes(idx);
+
+    return {
+        enabled: config.enabled,
+        dir: config.dir,
+        entries: entries.length,
+        freshEntries: entries.filter((entry) => isFresh(entry)).length,
+        blobs: blobs.size,
+        totalBytes: Array.from(blobs.values()).reduce((sum, n) => sum + n, 0),
+        maxBytes: config.maxBytes,
+        ttlMs: config.ttlMs,
+    };
+}
@@ -0,0 +1,177 @@
+/**
+ * Logo Dedup — Finds visually identical logos and disagreeing sources
+ *
+ * Uses the perceptual hashes from perceptual-hash.ts to catch two kinds of
+ * wrong logo:
+ *
+ *   - Duplicates: two companies end up with the same image, e.g. a parent
+ *     company's logo saved for its subsidiaries. Checked across a batch of
+ *     downloads and against the files already in the assets directory.
+ *   - Disagreement: in "best" mode, the chosen logo looks nothing like what
+ *     the other sources returned for the same brand.
+ *
+ * Both are warnings, never errors. Low-detail images (solid squares, faint
+ * marks) are skipped, since they all hash alike.
+ */
+
+import { readFile, stat } from "node:fs/promises";
+
+import { validateImage } from "./image-validator.js";
+import { compareHashes, hashLogo, isLowDetail, type ImageHashes } from "./perceptual-hash.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface HashedLogo {
+    company: string;
+    hashes: ImageHashes | null;
+}
+
+export interface DuplicateLogo {
+    /** The other company with a visually identical logo. */
+    company: string;
+    /** Its file in the assets directory, for matches found there. */
+    file?: string;
+    dhashDistance: number;
+    phashDistance: number;
+}
+
+export interface AssetLogoFile {
+    /** Sanitized company name the file belongs to. */
+    company: string;
+    path: string;
+}
+
+export interface SourceDisagreement {
+    /** Source of the chosen logo. */
+    source: string;
+    /** Other sources whose logo is strongly different from the chosen one. */
+    disagreeing: Array<{ source: string; dhashDistance: number; phashDistance: number }>;
+}
+
+/**
+ * Logos whose two hash distances add up to more than this are unrelated
+ * images, not different renderings of the same one (unrelated images average
+ * ~32 bits apart on each hash).
+ */
+const DISAGREEMENT_DISTANCE = 40;
+
+function comparable(hashes: ImageHashes | null | undefined): hashes is ImageHashes {
+    return !!hashes && !isLowDetail(hashes);
+}
+
+// ─── Duplicates ──────────────────────────────────────────────────────────────
+
+/**
+ * Visually identical logos across a batch, as a map from each company to the
+ * other companies whose logo matches its own.
+ */
+export function findDuplicateLogos(logos: HashedLogo[]): Map<string, DuplicateLogo[]> {
+    const duplicates = new Map<string, DuplicateLogo[]>();
+    const add = (company: string, duplicate: DuplicateLogo) => {
+        duplicates.set(company, [...(duplicates.get(company) ?? []), duplicate]);
+    };
+
+    for (let i = 0; i < logos.length; i++) {
+        const a = logos[i];
+        if (!comparable(a.hashes)) continue;
+        for (let j = i + 1; j < logos.length; j++) {
+            const b = logos[j];
+            if (!comparable(b.hashes) || a.company === b.company) continue;
+            const { dhashDistance, phashDistance, similar } = compareHashes(a.hashes, b.hashes);
+            if (!similar) continue;
+            add(a.company, { company: b.company, dhashDistance, phashDistance });
+            add(b.company, { company: a.company, dhashDistance, phashDistance });
+        }
+    }
+    return duplicates;
+}
+
+/** Asset file hashes, reused while the file's size and mtime are unchanged. */
+const assetHashes = new Map<string, { size: number; mtimeMs: number; hashes: ImageHashes | null }>();
+
+async function hashAssetFile(path: string): Promise<ImageHashes | null> {
+    try {
+        const { size, mtimeMs } = await stat(path);
+        const known = assetHashes.get(path);
+        if (known && known.size === size && known.mtimeMs === mtimeMs) return known.hashes;
+
+        const buffer = await readFile(path);
+        const validation = validateImage(buffer);
+        const hashes = validation.valid && validation.info ? await hashLogo(buffer, validation.info) : null;
+        assetHashes.set(path, { size, mtimeMs, hashes });
+        return hashes;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Files in the assets directory that look the same as a logo, skipping the
+ * files of `exclude`d companies (the logo's own company, and companies
+ * compared separately, e.g. the rest of a bulk download).
+ */
+export async function findAssetDuplicates(
+    hashes: ImageHashes | null,
+    files: AssetLogoFile[],
+    exclude: Iterable<string>
+): Promise<DuplicateLogo[]> {
+    if (!comparable(hashes)) return [];
+
+    const skip = new Set(exclude);
+    const duplicates: DuplicateLogo[] = [];
+    for (const file of files) {
+        if (skip.has(file.company)) continue;
+        const fileHashes = await hashAssetFile(file.path);
+        if (!comparable(fileHashes)) continue;
+
+        const { dhashDistance, phashDistance, similar } = compareHashes(hashes, fileHashes);
+        if (!similar) continue;
+        // One match per company is enough, whatever sizes it was saved at
+        skip.add(file.company);
+        duplicates.push({ company: file.company, file: file.path, dhashDistance, phashDistance });
+    }
+    return duplicates;
+}
+
+// ─── Source Agreement ────────────────────────────────────────────────────────
+
+/**
+ * Compare the chosen logo (first) with the other sources' logos for the same
+ * brand. Returns the sources that returned an unrelated image, or null when
+ * they all agree (or there is nothing to compare).
+ */
+export function findSourceDisagreement(
+    logos: Array<{ source: string; hashes: ImageHashes | null }>
+): SourceDisagreement | null {
+    const [chosen, ...others] = logos;
+    if (!chosen || !comparable(chosen.hashes)) return null;
+
+    const disagreeing: SourceDisagreement["disagreeing"] = [];
+    for (const other of others) {
+        if (!comparable(other.hashes)) continue;
+        const { dhashDistance, phashDistance } = compareHashes(chosen.hashes, other.hashes);
+        if (dhashDistance + phashDistance > DISAGREEMENT_DISTANCE) {
+            disagreeing.push({ source: other.source, dhashDistance, phashDistance });
+        }
+    }
+    return disagreeing.length > 0 ? { source: chosen.source, disagreeing } : null;
+}
+
+// ─── Formatting ──────────────────────────────────────────────────────────────
+
+/**
+ * One-line summaries for tool output, e.g.
+ * `Looks identical to github's logo (assets/github.png; dHash 1, pHash 0 bits apart)`.
+ */
+export function describeDuplicate(duplicate: DuplicateLogo): string {
+    const where = duplicate.file ? `${duplicate.file}; ` : "";
+    return (
+        `Looks identical to ${duplicate.company}'s logo ` +
+        `(${where}dHash ${duplicate.dhashDistance}, pHash ${duplicate.phashDistance} bits apart)`
+    );
+}
+
+export function describeDisagreement(disagreement: SourceDisagreement): string {
+    const others = disagreement.disagreeing.map((d) => d.source).join(", ");
+    return `Sources disagree: the ${disagreement.source} logo looks nothing like ${others}'s — check it is the right brand`;
+}
@@ -0,0 +1,353 @@
+/**
+ * Logo Discovery — Finds logo candidates in a company's homepage HTML
+ *
+ * Websites declare their brand marks in many places. This module parses the
+ * homepage markup and collects every candidate it can find:
+ *
+ * - <link rel="icon">, apple-touch-icon and Safari mask-icon
+ * - Open Graph og:image
+ * - Web app manifest icons (manifest.json)
+ * - JSON-LD Organization.logo
+ * - Inline <svg> and <img> elements in the page header marked as a logo
+ *
+ * Candidates carry variant hints from the markup: `prefers-color-scheme`
+ * media queries, words like "white", "wordmark" or "mono" in file names and
+ * attributes, and icon-only kinds. A requested variant moves hinted
+ * candidates, and the kinds likely to be that variant, to the front.
+ *
+ * All URLs are resolved against the page URL (or its <base href>). Parsing is
+ * pure — fetching the page, manifest and images is left to the logo fetcher.
+ */
+
+import * as cheerio from "cheerio";
+
+import type { LogoVariant } from "./logo-variant.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type DiscoveryKind =
+    | "icon"
+    | "apple-touch-icon"
+    | "mask-icon"
+    | "og:image"
+    | "manifest"
+    | "json-ld"
+    | "header-img"
+    | "inline-svg";
+
+export interface DiscoveredLogo {
+    kind: DiscoveryKind;
+    /** Absolute URL, or a placeholder for inline markup. */
+    url: string;
+    /** Largest declared size in pixels, if the markup states one. */
+    declaredSize?: number;
+    /** Raw bytes for inline SVGs and data: URIs — nothing to download. */
+    inline?: Buffer;
+    /** Variants the markup suggests this candidate is. */
+    hints?: LogoVariant[];
+}
+
+export interface DiscoveryResult {
+    candidates: DiscoveredLogo[];
+    /** Absolute URL of the web app manifest, if the page links one. */
+    manifestUrl?: string;
+}
+
+/**
+ * Rough preference between kinds, used to order candidates before they are
+ * downloaded and scored. Dedicated brand marks beat generic icons.
+ */
+const KIND_PRIORITY: Record<DiscoveryKind, number> = {
+    "json-ld": 0,
+    "inline-svg": 1,
+    "header-img": 2,
+    "apple-touch-icon": 3,
+    manifest: 4,
+    "mask-icon": 5,
+    icon: 6,
+    "og:image": 7,
+};
+
+/**
+ * Kind order for shape variants: icons want the square declared icons first,
+ * wordmarks and full logos the marks from the page itself.
+ */
+const ICON_KIND_PRIORITY: Record<DiscoveryKind, number> = {
+    "apple-touch-icon": 0,
+    manifest: 1,
+    "mask-icon": 2,
+    icon: 3,
+    "json-ld": 4,
+    "inline-svg": 5,
+    "header-img": 6,
+    "og:image": 7,
+};
+
+const MARK_KIND_PRIORITY: Record<DiscoveryKind, number> = {
+    "inline-svg": 0,
+    "header-img": 1,
+    "json-ld": 2,
+    "og:image": 3,
+    "apple-touch-icon": 4,
+    manifest: 5,
+    "mask-icon": 6,
+    icon: 7,
+};
+
+/** Kinds that only ever hold an icon. */
+const ICON_KINDS: DiscoveryKind[] = ["icon", "apple-touch-icon", "mask-icon", "manifest"];
+
+/** Words in file names and attributes that hint at a variant. */
+const HINT_WORDS: Record<LogoVariant, string[]> = {
+    icon: ["icon", "symbol", "glyph", "favicon", "logomark", "avatar"],
+    wordmark: ["wordmark", "logotype", "word"],
+    full: ["full", "lockup", "horizontal"],
+    light: ["light", "black", "onlight"],
+    dark: ["dark", "white", "negative", "inverse", "inverted", "reversed", "knockout", "ondark"],
+    mono: ["mono", "monochrome", "mask", "silhouette", "grayscale", "greyscale"],
+};
+
+const LOGO_PATTERN = /logo|brand/i;
+
+type Selection = ReturnType<cheerio.CheerioAPI>;
+
+// ─── URL Helpers ─────────────────────────────────────────────────────────────
+
+function resolveUrl(href: string | undefined, baseUrl: string): string | null {
+    const trimmed = href?.trim();
+    if (!trimmed) return null;
+
+    try {
+        const url = new URL(trimmed, baseUrl);
+        return url.protocol === "http:" || url.protocol === "https:" || url.protocol === "data:" ? url.href : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Decode a data: URI into bytes. Returns null for non-data URLs.
+ */
+export function decodeDataUri(url: string): Buffer | null {
+    const match = url.match(/^data:([^,]*?)(;base64)?,(.*)$/s);
+    if (!match) return null;
+    return match[2]
+        ? Buffer.from(match[3], "base64")
+        : Buffer.from(decodeURIComponent(match[3]), "utf-8");
+}
+
+/**
+ * Parse a `sizes` attribute ("32x32 180x180", "any") into the largest pixel size.
+ */
+function parseSizes(sizes: string | undefined): number | undefined {
+    if (!sizes) return undefined;
+    if (/\bany\b/i.test(sizes)) return Infinity;
+
+    const values = Array.from(sizes.matchAll(/(\d+)x(\d+)/gi), (m) => Math.min(Number(m[1]), Number(m[2])));
+    return values.length > 0 ? Math.max(...values) : undefined;
+}
+
+/**
+ * Variant hints from attribute values and URLs, split into words
+ * ("logo-white@2x.svg", "brandWordmark").
+ */
+function hintsFrom(...values: Array<string | undefined>): LogoVariant[] {
+    const words = new Set(
+        values
+            .filter((value): value is string => !!value && !value.startsWith("data:"))
+            .flatMap((value) => value.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase().split(/[^a-z0-9]+/))
+    );
+    return (Object.keys(HINT_WORDS) as LogoVariant[]).filter((variant) =>
+        HINT_WORDS[variant].some((word) => words.has(word))
+    );
+}
+
+/** "dark" or "light" from a `prefers-color-scheme` media query. */
+function colorSchemeHint(media: string | undefined): LogoVariant[] {
+    const scheme = media?.match(/prefers-color-scheme\s*:\s*(dark|light)/i)?.[1].toLowerCase();
+    return scheme === "dark" || scheme === "light" ? [scheme] : [];
+}
+
+// ─── Extractors ──────────────────────────────────────────────────────────────
+
+/**
+ * Walk a JSON-LD value and collect every Organization-like `logo`.
+ */
+function collectJsonLdLogos(node: unknown, out: string[]): void {
+    if (Array.isArray(node)) {
+        node.forEach((item) => collectJsonLdLogos(item, out));
+        return;
+    }
+    if (!node || typeof node !== "object") return;
+
+    const record = node as Record<string, unknown>;
+    const types = ([] as unknown[]).concat(record["@type"] ?? []).map(String);
+    const isOrganization = types.some((t) => /Organization|Corporation|Brand|LocalBusiness/i.test(t));
+
+    if (isOrganization && record.logo) {
+        const logo = record.logo;
+        if (typeof logo === "string") {
+            out.push(logo);
+        } else if (logo && typeof logo === "object") {
+            const { url, contentUrl } = logo as Record<string, unknown>;
+            if (typeof (url ?? contentUrl) === "string") out.push((url ?? contentUrl) as string);
+        }
+    }
+
+    if (record["@graph"]) collectJsonLdLogos(record["@graph"], out);
+}
+
+/**
+ * Serialize an inline <svg> element into a standalone SVG document.
+ */
+function serializeInlineSvg($: cheerio.CheerioAPI, node: Selection): Buffer {
+    const svg = node.clone();
+    if (!svg.attr("xmlns")) svg.attr("xmlns", "http://www.w3.org/2000/svg");
+    return Buffer.from($.html(svg), "utf-8");
+}
+
+/**
+ * Extract logo candidates from homepage HTML.
+ *
+ * @param html      The homepage markup
+ * @param pageUrl   The final URL the page was served from (after redirects)
+ */
+export function extractLogoCandidates(html: string, pageUrl: string): DiscoveryResult {
+    const $ = cheerio.load(html);
+    const baseUrl = resolveUrl($("base[href]").attr("href"), pageUrl) ?? pageUrl;
+    const candidates: DiscoveredLogo[] = [];
+    const seen = new Set<string>();
+
+    const add = (kind: DiscoveryKind, href: string | undefined, declaredSize?: number, hints: LogoVariant[] = []) => {
+        const url = resolveUrl(href, baseUrl);
+        if (!url || seen.has(url)) return;
+        seen.add(url);
+        const inline = decodeDataUri(url) ?? undefined;
+        const allHints = new Set([...(ICON_KINDS.includes(kind) ? ["icon" as const] : []), ...hints, ...hintsFrom(href)]);
+        candidates.push({
+            kind,
+            url: inline ? `[${kind} data URI]` : url,
+            declaredSize,
+            inline,
+            ...(allHints.size > 0 ? { hints: Array.from(allHints) } : {}),
+        });
+    };
+
+    // ── <link> icons ──
+    $("link[rel][href]").each((_, el) => {
+        const rel = ($(el).attr("rel") || "").toLowerCase().split(/\s+/);
+        const href = $(el).attr("href");
+        const size = parseSizes($(el).attr("sizes"));
+        const scheme = colorSchemeHint($(el).attr("media"));
+
+        if (rel.includes("apple-touch-icon") || rel.includes("apple-touch-icon-precomposed")) {
+            add("apple-touch-icon", href, size ?? 180, scheme);
+        } else if (rel.includes("mask-icon")) {
+            // Safari pinned-tab icons are single-colour by definition
+            add("mask-icon", href, Infinity, ["mono", ...scheme]);
+        } else if (rel.includes("icon")) {
+            add("icon", href, size, scheme);
+        }
+    });
+
+    // ── Open Graph ──
+    $('meta[property="og:image"], meta[property="og:image:url"], meta[name="og:image"]').each((_, el) => {
+        add("og:image", $(el).attr("content"));
+    });
+
+    // ── JSON-LD ──
+    $('script[type="application/ld+json"]').each((_, el) => {
+        try {
+            const logos: string[] = [];
+            collectJsonLdLogos(JSON.parse($(el).text()), logos);
+            logos.forEach((logo) => add("json-ld", logo));
+        } catch {
+            // Malformed JSON-LD is common — skip it
+        }
+    });
+
+    // ── Header logos (inline SVG and <img>) ──
+    const header = $('header, nav, [role="banner"], [class*="header" i], [id*="header" i]');
+    const mentionsLogo = (node: Selection) => {
+        const attrs = [node.attr("class"), node.attr("id"), node.attr("alt"), node.attr("aria-label"), node.attr("src")];
+        const parentLink = node.closest("a");
+        attrs.push(parentLink.attr("class"), parentLink.attr("aria-label"), parentLink.attr("title"));
+        return attrs.some((value) => value && LOGO_PATTERN.test(value));
+    };
+
+    header.find("img").each((_, el) => {
+        if (!mentionsLogo($(el))) return;
+        const src = $(el).attr("src") || $(el).attr("data-src");
+        const attrHints = hintsFrom($(el).attr("class"), $(el).attr("id"), $(el).attr("alt"));
+
+        // <picture> sources for other colour schemes come first, so a dark-mode
+        // logo isn't lost behind the default one
+        $(el).closest("picture").find("source[srcset][media]").each((_, source) => {
+            const srcset = $(source).attr("srcset")!.split(",")[0].trim().split(/\s+/)[0];
+            add("header-img", srcset, undefined, [...colorSchemeHint($(source).attr("media")), ...attrHints]);
+        });
+        add("header-img", src, undefined, attrHints);
+    });
+
+    let inlineIndex = 0;
+    header.find("svg").each((_, el) => {
+        if (!mentionsLogo($(el)) || $(el).parents("svg").length > 0) return;
+        const inline = serializeInlineSvg($, $(el));
+        const hints = hintsFrom($(el).attr("class"), $(el).attr("id"), $(el).attr("aria-label"));
+        candidates.push({
+            kind: "inline-svg",
+            url: `[inline SVG #${++inlineIndex}]`,
+            declaredSize: Infinity,
+            inline,
+            ...(hints.length > 0 ? { hints } : {}),
+        });
+    });
+
+    const manifestUrl = resolveUrl($('link[rel="manifest"]').attr("href"), baseUrl) ?? undefined;
+
+    return { candidates: sortCandidates(candidates), manifestUrl };
+}
+
+/**
+ * Extract icon candidates from a parsed web app manifest.
+ */
+export function extractManifestIcons(manifest: unknown, manifestUrl: string): DiscoveredLogo[] {
+    const icons = (manifest as { icons?: unknown })?.icons;
+    if (!Array.isArray(icons)) return [];
+
+    const candidates: DiscoveredLogo[] = [];
+    for (const icon of icons) {
+        const { src, sizes } = (icon ?? {}) as { src?: unknown; sizes?: unknown };
+        const url = typeof src === "string" ? resolveUrl(src, manifestUrl) : null;
+        if (url) {
+            const { purpose } = icon as { purpose?: unknown };
+            const hints = new Set<LogoVariant>(["icon", ...hintsFrom(url)]);
+            // Monochrome icons are single-colour silhouettes (the Web App Manifest spec)
+            if (typeof purpose === "string" && /\bmonochrome\b/i.test(purpose)) hints.add("mono");
+            candidates.push({
+                kind: "manifest",
+                url,
+                declaredSize: parseSizes(typeof sizes === "string" ? sizes : undefined),
+                hints: Array.from(hints),
+            });
+        }
+    }
+    return candidates;
+}
+
+/**
+ * Order candidates by kind, then by declared size (largest first). With a
+ * variant, candidates hinted as that variant come first, and kinds are ranked
+ * for it (icons or page marks first).
+ */
+export function sortCandidates(candidates: DiscoveredLogo[], variant?: LogoVariant): DiscoveredLogo[] {
+    const priority =
+        variant === "icon" ? ICON_KIND_PRIORITY : variant === "wordmark" || variant === "full" ? MARK_KIND_PRIORITY : KIND_PRIORITY;
+    const hinted = (c: DiscoveredLogo) => (variant && c.hints?.includes(variant) ? 0 : 1);
+    return [...candidates].sort(
+        (a, b) =>
+            hinted(a) - hinted(b) ||
+            priority[a.kind] - priority[b.kind] ||
+            (b.declaredSize ?? 0) - (a.declaredSize ?? 0)
+    );
+}
@@ -9,10 +9,82 @@
  * 1. Clearbit Logo API       — Highest quality, large logos (up to 1024px)
  * 2. Google Favicon Service   — Reliable, good quality (up to 256px)
  * 3. DuckDuckGo Instant API   — Structured data with logo URLs
- * 4. Direct Favicon Extraction — Fetch /favicon.ico from the domain directly
+ * 4. Homepage Discovery       — Icons, manifest, JSON-LD and header logos from the HTML
+ * 5. Direct Favicon Extraction — Fetch /favicon.ico from the domain directly
+ *
+ * Sources live in a registry (source-registry.ts): they can be added, removed,
+ * reordered or disabled, each with its own timeout, retries, headers and key.
+ *
+ * Every source result is cached on disk (logo-cache.ts), keyed by domain,
+ * source and size, and revalidated with ETag/Last-Modified once stale.
+ *
+ * In "best" mode, all sources are queried in parallel within a time budget and
+ * the highest-scoring candidate wins (see logo-scorer.ts).
+ *
+ * In offline mode, no source is queried: logos come only from the local logo
+ * pack (logo-pack.ts).
+ *
+ * Logos pinned on a company's database entry (`CompanyEntry.logos`) are tried
+ * before everything else — sources, the cache and the logo pack.
+ *
+ * A requested variant (icon, wordmark, dark, ...; see logo-variant.ts) moves
+ * the sources that can supply it to the front and steers homepage discovery.
+ * Cascade mode keeps going until a source's logo looks like the variant, and
+ * "best" mode ranks such logos first; if none does, the first or best logo is
+ * returned with `variant.matched: false`.
+ *
+ * Every SVG logo, wherever it comes from, is sanitized and optimized before
+ * it is returned (see svg-sanitizer.ts); the cache keeps the original bytes.
  */
 
-import { validateImage, type ImageInfo, formatFileSize } from "./image-validator.js";
+import { readFile } from "node:fs/promises";
+
+import { validateImage, parseImageMetadata, type ImageInfo, formatFileSize, describeImageMetadata } from "./image-validator.js";
+import { sanitizeSvg, describeSvgReport, type SvgReport } from "./svg-sanitizer.js";
+import { detectPlaceholder } from "./placeholder-detector.js";
+import { hashLogo } from "./perceptual-hash.js";
+import { describePalette, extractPalette, type BrandPalette } from "./brand-colors.js";
+import { decodeImage } from "./image-converter.js";
+import {
+    classifyDimensions,
+    classifyImage,
+    classifyLogo,
+    describeVariant,
+    toVariantInfo,
+    type LogoVariant,
+    type VariantInfo,
+} from "./logo-variant.js";
+import { describeDisagreement, findSourceDisagreement, type SourceDisagreement } from "./logo-dedup.js";
+import { scoreLogo, describeScore, type LogoScore } from "./logo-scorer.js";
+import { extractLogoCandidates, extractManifestIcons, sortCandidates } from "./logo-discovery.js";
+import {
+    registerSource,
+    getActiveSources,
+    type ActiveSource,
+    type LogoSource,
+    type SourceSettings,
+} from "./source-registry.js";
+import {
+    getCachedLogo,
+    storeLogo,
+    markRevalidated,
+    type CacheKey,
+    type HttpValidators,
+} from "./logo-cache.js";
+import { getPackLogo, isOfflineMode } from "./logo-pack.js";
+import { getCompany, type PinnedLogo } from "./domain-resolver.js";
+
+export {
+    registerSource,
+    unregisterSource,
+    setSourceOrder,
+    configureSource,
+    listSources,
+    getActiveSources,
+    loadSourceConfigFromEnv,
+    type LogoSource,
+    type SourceSettings,
+} from "./source-registry.js";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -21,6 +93,16 @@ export interface LogoResult {
     imageInfo: ImageInfo;
     source: string;
     sourceUrl: string;
+    /** HTTP validators from the image response, used for cache revalidation. */
+    validators?: HttpValidators;
+    /** Set when the logo is pinned on the company's database entry. */
+    pinned?: boolean;
+    /** What sanitizing removed from an SVG logo; unset for other formats. */
+    svg?: SvgReport;
+    /** Dominant colours; unset when the image can't be decoded. */
+    palette?: BrandPalette;
+    /** Which variants the logo looks like, and whether it is the one asked for. */
+    variant?: VariantInfo;
 }
 
 export interface FetchAttempt {
@@ -29,35 +111,113 @@ export interface FetchAttempt {
     success: boolean;
     error?: string;
     durationMs: number;
+    /** Set when the logo came from the on-disk cache instead of the network. */
+    cached?: "hit" | "revalidated";
+    /** Set for attempts at a logo pinned on the company's database entry. */
+    pinned?: boolean;
+}
+
+export interface LogoCandidate {
+    source: string;
+    sourceUrl: string;
+    imageInfo: ImageInfo;
+    score: LogoScore;
 }
 
 export interface LogoFetchResult {
     success: boolean;
     logo?: LogoResult;
     attempts: FetchAttempt[];
+    /** Every valid candidate, best first. Only populated in "best" mode. */
+    candidates?: LogoCandidate[];
+    /** Other sources returned an unrelated image. Only checked in "best" mode. */
+    disagreement?: SourceDisagreement;
     error?: string;
 }
 
-type LogoSize = "small" | "medium" | "large";
+/**
+ * - cascade: return the first source that yields a valid image (fast)
+ * - best:    query all sources in parallel and return the highest-scoring one
+ */
+export type FetchStrategy = "cascade" | "best";
+
+export interface FetchOptions {
+    strategy?: FetchStrategy;
+    /** In "best" mode, stop waiting for slow sources after this long. */
+    timeBudgetMs?: number;
+    /** Skip cached entries and fetch from the network (results are still cached). */
+    refresh?: boolean;
+    /** Read from the local logo pack only. Defaults to the MCP_LOGO_OFFLINE setting. */
+    offline?: boolean;
+    /**
+     * Logo variant to look for: steers the source order, homepage discovery
+     * and pinned logo selection. Omit for the default logo.
+     */
+    variant?: LogoVariant;
+}
+
+const DEFAULT_TIME_BUDGET_MS = 8000;
+
+export type LogoSize = "small" | "medium" | "large";
 
-const SIZE_MAP: Record<LogoSize, number> = {
+export const SIZE_MAP: Record<LogoSize, number> = {
     small: 64,
     medium: 128,
     large: 256,
 };
 
+/**
+ * Resolve a size tier or a custom pixel size to a pixel dimension.
+ */
+export function toPixels(size: LogoSize | number): number {
+    return typeof size === "number" ? size : SIZE_MAP[size];
+}
+
 // ─── HTTP Helper ─────────────────────────────────────────────────────────────
 
+export interface RequestOptions {
+    timeoutMs?: number;
+    /** Extra headers, merged over the defaults. */
+    headers?: Record<string, string>;
+}
+
+/**
+ * Build request options for a URL from a source's settings. An API key, if
+ * configured, is sent as a Bearer token — but only to the source's own API
+ * host, never to the sites and image hosts it links to.
+ */
+export function requestOptionsFor(settings: SourceSettings, url?: string, apiHost?: string): RequestOptions {
+    const ownApi = !!url && !!apiHost && URL.canParse(url) && new URL(url).hostname === apiHost;
+    return {
+        timeoutMs: settings.timeoutMs,
+        headers: settings.apiKey && ownApi
+            ? { Authorization: `Bearer ${settings.apiKey}`, ...settings.headers }
+            : settings.headers,
+    };
+}
+
+interface FetchedImage {
+    buffer: Buffer;
+    validators?: HttpValidators;
+}
+
+function readValidators(response: Response): HttpValidators | undefined {
+    const etag = response.headers.get("etag") ?? undefined;
+    const lastModified = response.headers.get("last-modified") ?? undefined;
+    return etag || lastModified ? { etag, lastModified } : undefined;
+}
+
 /**
- * Fetch a URL with timeout and return the buffer.
+ * Fetch a URL with timeout and return the buffer, plus the ETag and
+ * Last-Modified headers used to revalidate cached copies later.
  * Handles redirects, sets a proper User-Agent, and enforces a timeout.
  */
-async function fetchBuffer(
+async function fetchImage(
     url: string,
-    timeoutMs: number = 10000
-): Promise<Buffer> {
+    options: RequestOptions = {}
+): Promise<FetchedImage> {
     const controller = new AbortController();
-    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? 10000);
 
     try {
         const response = await fetch(url, {
@@ -65,6 +225,7 @@ async function fetchBuffer(
             headers: {
                 "User-Agent": "MCP-Logo-Downloader/1.0",
                 Accept: "image/*,*/*;q=0.8",
+                ...options.headers,
             },
             redirect: "follow",
         });
@@ -74,7 +235,77 @@ async function fetchBuffer(
         }
 
         const arrayBuffer = await response.arrayBuffer();
-        return Buffer.from(arrayBuffer);
+        return { buffer: Buffer.from(arrayBuffer), validators: readValidators(response) };
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Ask the server whether a cached image is still current, using a
+ * conditional GET. Returns the refreshed validators on 304 Not Modified,
+ * or null if the image changed (or the check failed) and must be re-fetched.
+ */
+async function revalidateImage(
+    url: string,
+    validators: HttpValidators,
+    options: RequestOptions = {}
+): Promise<HttpValidators | null> {
+    const conditional: Record<string, string> = {};
+    if (validators.etag) conditional["If-None-Match"] = validators.etag;
+    if (validators.lastModified) conditional["If-Modified-Since"] = validators.lastModified;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? 10000);
+
+    try {
+        const response = await fetch(url, {
+            signal: controller.signal,
+            headers: {
+                "User-Agent": "MCP-Logo-Downloader/1.0",
+                Accept: "image/*,*/*;q=0.8",
+                ...options.headers,
+                ...conditional,
+            },
+            redirect: "follow",
+        });
+        // Don't download the body; a changed image goes through the full source again
+        await response.body?.cancel();
+        return response.status === 304 ? readValidators(response) ?? validators : null;
+    } catch {
+        return null;
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Fetch an HTML page (or other text resource) and return its body along with
+ * the final URL after redirects, which relative links resolve against.
+ */
+async function fetchPage(
+    url: string,
+    options: RequestOptions = {}
+): Promise<{ text: string; finalUrl: string }> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? 10000);
+
+    try {
+        const response = await fetch(url, {
+            signal: controller.signal,
+            headers: {
+                "User-Agent": "MCP-Logo-Downloader/1.0",
+                Accept: "text/html,application/xhtml+xml,application/json;q=0.9,*/*;q=0.8",
+                ...options.headers,
+            },
+            redirect: "follow",
+        });
+
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        return { text: await response.text(), finalUrl: response.url || url };
     } finally {
         clearTimeout(timer);
     }
@@ -82,6 +313,11 @@ async function fetchBuffer(
 
 // ─── Logo Sources ────────────────────────────────────────────────────────────
 
+/** The built-in sources' own API hosts, the only ones their API keys go to. */
+const CLEARBIT_HOST = "logo.clearbit.com";
+const GOOGLE_FAVICON_HOST = "www.google.com";
+const DUCKDUCKGO_API_HOST = "api.duckduckgo.com";
+
 /**
  * Source 1: Clearbit Logo API
  * The gold standard for company logos. Returns high-resolution PNGs.
@@ -89,12 +325,13 @@ async function fetchBuffer(
  */
 async function fetchFromClearbit(
     domain: string,
-    size: LogoSize
+    px: number,
+    settings: SourceSettings
 ): Promise<LogoResult> {
-    const sizeParam = SIZE_MAP[size] * 2; // Clearbit supports up to 1024
-    const url = `https://logo.clearbit.com/${domain}?size=${sizeParam}&format=png`;
+    const sizeParam = Math.min(px * 2, 1024); // Clearbit supports up to 1024
+    const url = `https://${CLEARBIT_HOST}/${domain}?size=${sizeParam}&format=png`;
 
-    const buffer = await fetchBuffer(url);
+    const { buffer, validators } = await fetchImage(url, requestOptionsFor(settings, url, CLEARBIT_HOST));
     const validation = validateImage(buffer);
 
     if (!validation.valid) {
@@ -106,6 +343,7 @@ async function fetchFromClearbit(
         imageInfo: validation.info!,
         source: "Clearbit Logo API",
         sourceUrl: url,
+        validators,
     };
 }
 
@@ -116,29 +354,25 @@ async function fetchFromClearbit(
  */
 async function fetchFromGoogle(
     domain: string,
-    size: LogoSize
+    px: number,
+    settings: SourceSettings
 ): Promise<LogoResult> {
-    const sz = Math.min(SIZE_MAP[size] * 2, 256);
-    const url = `https://www.google.com/s2/favicons?domain=${domain}&sz=${sz}`;
+    const sz = Math.min(px * 2, 256);
+    const url = `https://${GOOGLE_FAVICON_HOST}/s2/favicons?domain=${domain}&sz=${sz}`;
 
-    const buffer = await fetchBuffer(url);
+    const { buffer, validators } = await fetchImage(url, requestOptionsFor(settings, url, GOOGLE_FAVICON_HOST));
     const validation = validateImage(buffer);
 
     if (!validation.valid) {
         throw new Error(validation.reason || "Invalid image from Google");
     }
 
-    // Reject the default "globe" placeholder Google returns for unknown domains
-    // The default globe icon is typically very small (< 1KB)
-    if (buffer.length < 500 && size !== "small") {
-        throw new Error("Google returned a generic placeholder icon");
-    }
-
     return {
         buffer,
         imageInfo: validation.info!,
         source: "Google Favicon Service",
         sourceUrl: url,
+        validators,
     };
 }
 
@@ -149,18 +383,20 @@ async function fetchFromGoogle(
  */
 async function fetchFromDuckDuckGo(
     companyName: string,
-    _size: LogoSize
+    _px: number,
+    settings: SourceSettings
 ): Promise<LogoResult> {
     const query = encodeURIComponent(`${companyName} company`);
-    const apiUrl = `https://api.duckduckgo.com/?q=${query}&format=json&no_html=1`;
+    const apiUrl = `https://${DUCKDUCKGO_API_HOST}/?q=${query}&format=json&no_html=1`;
+    const request = requestOptionsFor(settings, apiUrl, DUCKDUCKGO_API_HOST);
 
     const controller = new AbortController();
-    const timer = setTimeout(() => controller.abort(), 10000);
+    const timer = setTimeout(() => controller.abort(), settings.timeoutMs);
 
     try {
         const response = await fetch(apiUrl, {
             signal: controller.signal,
-            headers: { "User-Agent": "MCP-Logo-Downloader/1.0" },
+            headers: { "User-Agent": "MCP-Logo-Downloader/1.0", ...request.headers },
         });
 
         if (!response.ok) throw new Error(`DDG API HTTP ${response.status}`);
@@ -177,7 +413,7 @@ async function fetchFromDuckDuckGo(
             ? imageUrl
             : `https://duckduckgo.com${imageUrl}`;
 
-        const buffer = await fetchBuffer(fullUrl);
+        const { buffer, validators } = await fetchImage(fullUrl, requestOptionsFor(settings, fullUrl, DUCKDUCKGO_API_HOST));
         const validation = validateImage(buffer);
 
         if (!validation.valid) {
@@ -189,20 +425,91 @@ async function fetchFromDuckDuckGo(
             imageInfo: validation.info!,
             source: "DuckDuckGo Instant Answer",
             sourceUrl: fullUrl,
+            validators,
         };
     } finally {
         clearTimeout(timer);
     }
 }
 
+/** Candidates downloaded per homepage — keeps slow sites from stalling a fetch. */
+const MAX_HOMEPAGE_CANDIDATES = 8;
+
+/**
+ * Source 4: Homepage Discovery
+ * Parses the homepage HTML for declared icons, the web app manifest,
+ * JSON-LD Organization.logo and header logos, then downloads the
+ * candidates in parallel and keeps the highest-scoring valid image.
+ */
+async function fetchFromHomepage(
+    domain: string,
+    px: number,
+    settings: SourceSettings,
+    variant?: LogoVariant
+): Promise<LogoResult> {
+    const request = requestOptionsFor(settings);
+    const { text: html, finalUrl } = await fetchPage(`https://${domain}/`, request);
+    const { candidates, manifestUrl } = extractLogoCandidates(html, finalUrl);
+
+    if (manifestUrl) {
+        try {
+            const manifest = await fetchPage(manifestUrl, request);
+            candidates.push(...extractManifestIcons(JSON.parse(manifest.text), manifest.finalUrl));
+        } catch {
+            // A broken manifest shouldn't hide the candidates we already have
+        }
+    }
+
+    const ordered = sortCandidates(candidates, variant).slice(0, MAX_HOMEPAGE_CANDIDATES);
+    if (ordered.length === 0) {
+        throw new Error("No logo candidates found in homepage HTML");
+    }
+
+    const results = await Promise.all(
+        ordered.map(async (candidate) => {
+            try {
+                const { buffer, validators }: FetchedImage = candidate.inline
+                    ? { buffer: candidate.inline }
+                    : await fetchImage(candidate.url, request);
+                const validation = validateImage(buffer);
+                if (!validation.valid) return null;
+
+                const logo: LogoResult = {
+                    buffer,
+                    imageInfo: validation.info!,
+                    source: `Homepage Discovery (${candidate.kind})`,
+                    sourceUrl: candidate.url,
+                    validators,
+                };
+                if (variant) {
+                    logo.variant = toVariantInfo(await classifyLogo(buffer, logo.imageInfo), variant);
+                }
+                return { logo, score: scoreLogo(logo.imageInfo, px).total };
+            } catch {
+                return null;
+            }
+        })
+    );
+
+    const valid = results.filter((r): r is { logo: LogoResult; score: number } => r !== null);
+    if (valid.length === 0) {
+        throw new Error(`None of the ${ordered.length} homepage candidates was a valid image`);
+    }
+
+    // Logos that look like the requested variant beat better-scoring ones that don't
+    const matching = valid.filter((r) => r.logo.variant?.matched);
+    return (matching.length > 0 ? matching : valid).reduce((best, r) => (r.score > best.score ? r : best)).logo;
+}
+
 /**
- * Source 4: Direct Favicon Extraction
+ * Source 5: Direct Favicon Extraction
  * Fetches the /favicon.ico directly from the company's website.
  * Most basic fallback, but almost always returns something.
  */
 async function fetchDirectFavicon(
     domain: string,
-    _size: LogoSize
+    _px: number,
+    settings: SourceSettings
 ): Promise<LogoResult> {
     // Try common favicon paths in order of preference
     const paths = [
@@ -217,7 +524,7 @@ async function fetchDirectFavicon(
     for (const path of paths) {
         const url = `https://${domain}${path}`;
         try {
-            const buffer = await fetchBuffer(url, 8000);
+            const { buffer, validators } = await fetchImage(url, requestOptionsFor(settings));
             const validation = validateImage(buffer);
 
             if (validation.valid) {
@@ -226,6 +533,7 @@ async function fetchDirectFavicon(
                     imageInfo: validation.info!,
                     source: "Direct Favicon",
                     sourceUrl: url,
+                    validators,
                 };
             }
             lastError = new Error(validation.reason || "Invalid image");
@@ -239,74 +547,479 @@ async function fetchDirectFavicon(
 
 // ─── Main Fetch Pipeline ────────────────────────────────────────────────────
 
-type LogoSourceFn = (domain: string, size: LogoSize) => Promise<LogoResult>;
+/**
+ * Built-in sources, registered in order of quality. Teams can add, remove,
+ * reorder or disable sources through the registry API re-exported below,
+ * or through MCP_LOGO_* environment variables (see source-registry.ts).
+ */
+const BUILTIN_SOURCES: LogoSource[] = [
+    { id: "clearbit", name: "Clearbit", fetch: fetchFromClearbit, apiHost: CLEARBIT_HOST, variants: ["icon", "full", "light"] },
+    { id: "google-favicon", name: "Google Favicon", fetch: fetchFromGoogle, apiHost: GOOGLE_FAVICON_HOST, variants: ["icon"] },
+    // DuckDuckGo needs the name for search, not a domain
+    {
+        id: "duckduckgo",
+        name: "DuckDuckGo",
+        fetch: fetchFromDuckDuckGo,
+        usesCompanyName: true,
+        apiHost: DUCKDUCKGO_API_HOST,
+        variants: ["full", "wordmark"],
+    },
+    // The homepage has every kind of mark, and discovery looks for the requested one
+    {
+        id: "homepage",
+        name: "Homepage Discovery",
+        fetch: fetchFromHomepage,
+        variants: ["icon", "wordmark", "full", "light", "dark", "mono"],
+    },
+    { id: "direct-favicon", name: "Direct Favicon", fetch: fetchDirectFavicon, defaults: { timeoutMs: 8000 }, variants: ["icon"] },
+];
 
-interface SourceConfig {
-    name: string;
-    fn: LogoSourceFn;
-    /**
-     * If true, passes the company name instead of domain.
-     * (DuckDuckGo needs the name for search, not a domain.)
-     */
-    usesCompanyName?: boolean;
+for (const source of BUILTIN_SOURCES) {
+    registerSource(source);
 }
 
-const SOURCES: SourceConfig[] = [
-    { name: "Clearbit", fn: fetchFromClearbit },
-    { name: "Google Favicon", fn: fetchFromGoogle },
-    { name: "DuckDuckGo", fn: fetchFromDuckDuckGo, usesCompanyName: true },
-    { name: "Direct Favicon", fn: fetchDirectFavicon },
-];
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
 
 /**
- * Fetch a logo from multiple sources with cascading fallback.
- *
- * Tries each source in order of quality. Logs all attempts for transparency.
- *
- * @param domain    The company's domain (e.g., "shopify.com")
- * @param company   The company name (e.g., "shopify") — used for DDG search
- * @param size      Desired logo size: "small" | "medium" | "large"
+ * Sanitize and optimize an SVG logo; other formats pass through. Throws when
+ * the SVG has nothing to keep.
  */
-export async function fetchLogo(
+function sanitizeLogo(logo: LogoResult): LogoResult {
+    if (!logo.imageInfo.isSvg) return logo;
+    const { buffer, report } = sanitizeSvg(logo.buffer);
+    const imageInfo = { ...logo.imageInfo, ...parseImageMetadata(buffer, "SVG"), sizeBytes: buffer.length };
+    return { ...logo, buffer, imageInfo, svg: report };
+}
+
+/**
+ * Throw when a logo is a known placeholder (Google's globe, a site builder's
+ * stock favicon, ...), so the source counts as failed with the reason.
+ */
+async function rejectPlaceholder(logo: LogoResult, domain: string): Promise<void> {
+    const reason = await detectPlaceholder(logo.buffer, logo.imageInfo, domain);
+    if (reason) throw new Error(reason);
+}
+
+/**
+ * Serve a source's result from the on-disk cache if possible: fresh entries
+ * directly, stale ones after a successful conditional revalidation.
+ * Cache failures are never fatal — they just fall through to the network.
+ */
+async function readFromCache(
+    source: ActiveSource,
+    key: CacheKey
+): Promise<{ logo: LogoResult; cached: "hit" | "revalidated" } | null> {
+    try {
+        const cached = await getCachedLogo(key);
+        if (!cached) return null;
+        if (cached.fresh) return { logo: cached.logo, cached: "hit" };
+
+        const { validators, sourceUrl } = cached.logo;
+        if (!validators || !/^https?:\/\//.test(sourceUrl)) return null;
+
+        const refreshed = await revalidateImage(sourceUrl, validators, requestOptionsFor(source.settings, sourceUrl, source.apiHost));
+        if (!refreshed) return null;
+
+        await markRevalidated(key, refreshed);
+        return { logo: { ...cached.logo, validators: refreshed }, cached: "revalidated" };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Run one source and record the attempt, without throwing.
+ * Results are read from and written to the logo cache; failed calls are
+ * retried according to the source's retry policy.
+ */
+async function runSource(
+    source: ActiveSource,
     domain: string,
     company: string,
-    size: LogoSize = "large"
-): Promise<LogoFetchResult> {
-    const attempts: FetchAttempt[] = [];
+    px: number,
+    refresh: boolean = false,
+    variant?: LogoVariant
+): Promise<{ attempt: FetchAttempt; logo?: LogoResult }> {
+    const start = Date.now();
+    const input = source.usesCompanyName ? company : domain;
+    const { retries, retryDelayMs } = source.settings;
+    // Keyed by domain even for name searches, so purging a domain clears them too
+    const cacheKey: CacheKey = {
+        domain,
+        ...(source.usesCompanyName ? { query: company } : {}),
+        source: source.id,
+        px,
+        ...(variant ? { variant } : {}),
+    };
 
-    for (const source of SOURCES) {
-        const start = Date.now();
-        const input = source.usesCompanyName ? company : domain;
+    const hit = refresh ? null : await readFromCache(source, cacheKey);
 
-        try {
-            const logo = await source.fn(input, size);
-            attempts.push({
+    try {
+        if (hit) {
+            await rejectPlaceholder(hit.logo, domain);
+            return {
+                attempt: {
+                    source: source.name,
+                    url: hit.logo.sourceUrl,
+                    success: true,
+                    durationMs: Date.now() - start,
+                    cached: hit.cached,
+                },
+                logo: await classifyForVariant(sanitizeLogo(hit.logo), variant),
+            };
+        }
+
+        let logo: LogoResult | undefined;
+        for (let attempt = 0; !logo; attempt++) {
+            try {
+                logo = await source.fetch(input, px, source.settings, variant);
+            } catch (err) {
+                if (attempt >= retries) throw err;
+                await sleep(retryDelayMs * 2 ** attempt);
+            }
+        }
+
+        // Placeholders aren't retried, and never reach the cache
+        await rejectPlaceholder(logo, domain);
+        await storeLogo(cacheKey, logo).catch(() => undefined);
+        const sanitized = await classifyForVariant(sanitizeLogo(logo), variant);
+
+        return {
+            attempt: {
                 source: source.name,
                 url: logo.sourceUrl,
                 success: true,
                 durationMs: Date.now() - start,
-            });
-
-            return { success: true, logo, attempts };
-        } catch (err) {
-            const errorMsg = err instanceof Error ? err.message : String(err);
-            attempts.push({
+            },
+            logo: sanitized,
+        };
+    } catch (err) {
+        const errorMsg = err instanceof Error ? err.message : String(err);
+        return {
+            attempt: {
                 source: source.name,
                 url: `[${source.name}] ${input}`,
                 success: false,
                 error: errorMsg,
                 durationMs: Date.now() - start,
-            });
+            },
+        };
+    }
+}
+
+/**
+ * Check a source's logo against the requested variant (unless the source
+ * already did). Without a request, classification is left to fetchLogo.
+ */
+async function classifyForVariant(logo: LogoResult, variant: LogoVariant | undefined): Promise<LogoResult> {
+    if (!variant || logo.variant?.requested === variant) return logo;
+    return { ...logo, variant: toVariantInfo(await classifyLogo(logo.buffer, logo.imageInfo), variant) };
+}
+
+/**
+ * Active sources in query order for a variant: those that can supply it
+ * first, each group in the configured order.
+ */
+function sourcesFor(variant: LogoVariant | undefined): ActiveSource[] {
+    const sources = getActiveSources();
+    if (!variant) return sources;
+    const supports = (source: ActiveSource) => (source.variants?.includes(variant) ? 0 : 1);
+    return [...sources].sort((a, b) => supports(a) - supports(b));
+}
+
+function describeExhausted(sourceCount: number): string {
+    return sourceCount === 0
+        ? "No logo sources are enabled — check the source configuration"
+        : `Failed to download logo from all ${sourceCount} sources`;
+}
+
+/**
+ * Query every source in parallel and rank the valid results by score.
+ * Sources still running when the time budget expires are recorded as
+ * failed attempts; their late results are ignored.
+ */
+async function fetchBestLogo(
+    domain: string,
+    company: string,
+    px: number,
+    timeBudgetMs: number,
+    refresh: boolean,
+    variant?: LogoVariant
+): Promise<LogoFetchResult> {
+    const started = Date.now();
+    const sources = sourcesFor(variant);
+    const settled: Array<{ attempt: FetchAttempt; logo?: LogoResult } | undefined> = new Array(sources.length);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const budget = new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, timeBudgetMs);
+    });
+
+    const all = Promise.all(
+        sources.map(async (source, i) => {
+            settled[i] = await runSource(source, domain, company, px, refresh, variant);
+        })
+    );
+
+    try {
+        await Promise.race([all, budget]);
+    } finally {
+        clearTimeout(timer);
+    }
+
+    const attempts: FetchAttempt[] = sources.map((source, i) =>
+        settled[i]?.attempt ?? {
+            source: source.name,
+            url: `[${source.name}] ${source.usesCompanyName ? company : domain}`,
+            success: false,
+            error: `Exceeded time budget of ${timeBudgetMs}ms`,
+            durationMs: Date.now() - started,
+        }
+    );
+
+    // Logos that look like the requested variant rank above those that don't
+    const matched = (logo: LogoResult) => (logo.variant?.matched ? 1 : 0);
+    const ranked = settled
+        .filter((entry): entry is { attempt: FetchAttempt; logo: LogoResult } => !!entry?.logo)
+        .map(({ logo }) => ({ logo, score: scoreLogo(logo.imageInfo, px) }))
+        .sort((a, b) => matched(b.logo) - matched(a.logo) || b.score.total - a.score.total);
+
+    const candidates: LogoCandidate[] = ranked.map(({ logo, score }) => ({
+        source: logo.source,
+        sourceUrl: logo.sourceUrl,
+        imageInfo: logo.imageInfo,
+        score,
+    }));
+
+    if (ranked.length === 0) {
+        return {
+            success: false,
+            attempts,
+            candidates,
+            error: describeExhausted(sources.length),
+        };
+    }
+
+    const hashed = await Promise.all(
+        ranked.map(async ({ logo }) => ({ source: logo.source, hashes: await hashLogo(logo.buffer, logo.imageInfo) }))
+    );
+    const disagreement = findSourceDisagreement(hashed) ?? undefined;
+
+    return { success: true, logo: ranked[0].logo, attempts, candidates, disagreement };
+}
+
+/**
+ * Offline mode: look the company up in the local logo pack, without touching
+ * the network or the cache.
+ */
+async function fetchFromPack(domain: string, company: string): Promise<LogoFetchResult> {
+    const start = Date.now();
+    const attempt: FetchAttempt = { source: "Logo Pack", url: `[Logo Pack] ${company}`, success: false, durationMs: 0 };
+
+    try {
+        const packed = await getPackLogo(company, domain);
+        attempt.durationMs = Date.now() - start;
+        if (!packed) {
+            attempt.error = `"${company}" (${domain}) is not in the logo pack`;
+            return { success: false, attempts: [attempt], error: `Offline mode: ${attempt.error}` };
         }
+
+        const logo = sanitizeLogo(packed);
+        attempt.success = true;
+        attempt.url = logo.sourceUrl;
+        return { success: true, logo, attempts: [attempt] };
+    } catch (err) {
+        attempt.durationMs = Date.now() - start;
+        attempt.error = err instanceof Error ? err.message : String(err);
+        return { success: false, attempts: [attempt], error: `Offline mode: ${attempt.error}` };
+    }
+}
+
+// ─── Pinned Logos ───────────────────────────────────────────────────────────
+
+const DEFAULT_VARIANT = "default";
+
+/**
+ * Order a company's pinned logos for a request: only the requested variant
+ * (falling back to the default variant), smallest size that covers `px` first,
+ * then size-independent logos, then the largest of the rest.
+ */
+export function selectPinnedLogos(pins: PinnedLogo[], px: number, variant: string = DEFAULT_VARIANT): PinnedLogo[] {
+    const ofVariant = (name: string) => pins.filter((pin) => (pin.variant ?? DEFAULT_VARIANT) === name);
+    const matching = ofVariant(variant.toLowerCase());
+    const chosen = matching.length > 0 ? matching : ofVariant(DEFAULT_VARIANT);
+
+    const rank = (pin: PinnedLogo) =>
+        pin.size === undefined ? [1, 0] : pin.size >= px ? [0, pin.size] : [2, -pin.size];
+    return [...chosen].sort((a, b) => {
+        const [groupA, sizeA] = rank(a);
+        const [groupB, sizeB] = rank(b);
+        return groupA - groupB || sizeA - sizeB;
+    });
+}
+
+function describePin(pin: PinnedLogo): string {
+    return `Pinned (${pin.variant ?? DEFAULT_VARIANT}${pin.size ? `, ${pin.size}px` : ""})`;
+}
+
+/**
+ * Try a company's pinned logos in order. URLs are skipped in offline mode;
+ * local files work everywhere. Pinned logos are never cached.
+ */
+async function fetchPinnedLogo(
+    pins: PinnedLogo[],
+    px: number,
+    variant: LogoVariant | undefined,
+    offline: boolean
+): Promise<{ logo?: LogoResult; attempts: FetchAttempt[] }> {
+    const attempts: FetchAttempt[] = [];
+
+    for (const pin of selectPinnedLogos(pins, px, variant)) {
+        const start = Date.now();
+        const isUrl = /^https?:\/\//i.test(pin.src);
+        const attempt: FetchAttempt = { source: describePin(pin), url: pin.src, success: false, durationMs: 0, pinned: true };
+        attempts.push(attempt);
+
+        if (isUrl && offline) {
+            attempt.error = "Skipped — pinned URL needs the network (offline mode)";
+            continue;
+        }
+
+        try {
+            const { buffer, validators } = isUrl ? await fetchImage(pin.src) : { buffer: await readFile(pin.src), validators: undefined };
+            const validation = validateImage(buffer);
+            attempt.durationMs = Date.now() - start;
+
+            if (!validation.valid || !validation.info) {
+                attempt.error = validation.reason;
+                continue;
+            }
+
+            const logo = sanitizeLogo({ buffer, imageInfo: validation.info, source: attempt.source, sourceUrl: pin.src, validators, pinned: true });
+            if (variant) {
+                // The pin's own label is trusted over what the pixels suggest
+                logo.variant = { requested: variant, matched: (pin.variant ?? DEFAULT_VARIANT) === variant, traits: [] };
+            }
+            attempt.success = true;
+            return { logo, attempts };
+        } catch (err) {
+            attempt.durationMs = Date.now() - start;
+            attempt.error = err instanceof Error ? err.message : String(err);
+        }
+    }
+
+    return { attempts };
+}
+
+// ─── Entry Point ────────────────────────────────────────────────────────────
+
+/**
+ * Query each active source in order and return the first valid image — with
+ * a variant, the first that looks like it, else the first valid one.
+ */
+async function fetchCascade(
+    domain: string,
+    company: string,
+    px: number,
+    refresh: boolean,
+    variant?: LogoVariant
+): Promise<LogoFetchResult> {
+    const attempts: FetchAttempt[] = [];
+    const sources = sourcesFor(variant);
+    let fallback: LogoResult | undefined;
+
+    for (const source of sources) {
+        const { attempt, logo } = await runSource(source, domain, company, px, refresh, variant);
+        attempts.push(attempt);
+
+        if (logo && (!variant || logo.variant?.matched)) {
+            return { success: true, logo, attempts };
+        }
+        fallback ??= logo;
+    }
+
+    if (fallback) {
+        return { success: true, logo: fallback, attempts };
     }
 
     return {
         success: false,
         attempts,
-        error: `Failed to download logo from all ${SOURCES.length} sources`,
+        error: describeExhausted(sources.length),
     };
 }
 
+/**
+ * Fetch a logo from multiple sources.
+ *
+ * Logos pinned on the company's database entry are tried first. Otherwise,
+ * by default, tries each source in order of quality and returns the first
+ * valid image. With `strategy: "best"`, queries all sources and returns the
+ * highest-scoring candidate instead. Logs all attempts for transparency.
+ *
+ * @param domain    The company's domain (e.g., "shopify.com")
+ * @param company   The company name (e.g., "shopify") — used for DDG search
+ * @param size      Desired logo size: "small" | "medium" | "large", or pixels.
+ *                  Sources treat it as a hint; callers resize the result.
+ * @param options   Selection strategy, time budget, cache refresh, offline mode
+ *                  and logo variant
+ */
+export async function fetchLogo(
+    domain: string,
+    company: string,
+    size: LogoSize | number = "large",
+    options: FetchOptions = {}
+): Promise<LogoFetchResult> {
+    const px = toPixels(size);
+    const {
+        strategy = "cascade",
+        timeBudgetMs = DEFAULT_TIME_BUDGET_MS,
+        refresh = false,
+        offline = isOfflineMode(),
+        variant,
+    } = options;
+
+    const pins = getCompany(company)?.logos ?? [];
+    const pinned = pins.length > 0 ? await fetchPinnedLogo(pins, px, variant, offline) : { attempts: [] };
+    if (pinned.logo) {
+        return { success: true, logo: await withDetails(pinned.logo, variant), attempts: pinned.attempts };
+    }
+
+    const result = offline
+        ? await fetchFromPack(domain, company)
+        : strategy === "best"
+          ? await fetchBestLogo(domain, company, px, timeBudgetMs, refresh, variant)
+          : await fetchCascade(domain, company, px, refresh, variant);
+
+    return {
+        ...result,
+        logo: result.logo && (await withDetails(result.logo, variant)),
+        attempts: [...pinned.attempts, ...result.attempts],
+    };
+}
+
+/**
+ * Attach the logo's dominant colours (see brand-colors.ts) and variant
+ * metadata (see logo-variant.ts), decoding the image once for both.
+ */
+async function withDetails(logo: LogoResult, variant: LogoVariant | undefined): Promise<LogoResult> {
+    const image = await decodeImage(logo.buffer, logo.imageInfo).catch(() => null);
+    const traits = image ? classifyImage(image) : classifyDimensions(logo.imageInfo);
+    const variantInfo = logo.pinned && logo.variant ? { ...logo.variant, traits } : toVariantInfo(traits, variant);
+    return { ...logo, ...(image ? { palette: extractPalette(image) } : {}), variant: variantInfo };
+}
+
+/**
+ * Describe the ranked candidates from a "best" fetch, one line each.
+ */
+export function summarizeCandidates(candidates: LogoCandidate[]): string[] {
+    return candidates.map(
+        (c, i) =>
+            `   ${i === 0 ? "🏆" : `${i + 1}.`} ${c.source} — ${c.score.total} pts ` +
+            `(${c.imageInfo.format} ${describeImageMetadata(c.imageInfo)}; ${describeScore(c.score)})`
+    );
+}
+
 /**
  * Generate a summary of the fetch result for display.
  */
@@ -316,18 +1029,29 @@ export function summarizeFetchResult(result: LogoFetchResult): string {
     if (result.success && result.logo) {
         lines.push(`✅ Logo downloaded successfully`);
         lines.push(`   Source: ${result.logo.source}`);
-        lines.push(`   Format: ${result.logo.imageInfo.format}`);
+        lines.push(`   Format: ${result.logo.imageInfo.format} (${describeImageMetadata(result.logo.imageInfo)})`);
         lines.push(`   Size: ${formatFileSize(result.logo.imageInfo.sizeBytes)}`);
+        if (result.logo.svg) lines.push(`   SVG sanitized: ${describeSvgReport(result.logo.svg)}`);
+        if (result.logo.palette) lines.push(`   Colours: ${describePalette(result.logo.palette)}`);
+        if (result.logo.variant) lines.push(`   Variant: ${describeVariant(result.logo.variant)}`);
+        if (result.disagreement) lines.push(`   ⚠️  ${describeDisagreement(result.disagreement)}`);
     } else {
         lines.push(`❌ Failed to download logo`);
         lines.push(`   Error: ${result.error}`);
     }
 
+    if (result.candidates && result.candidates.length > 0) {
+        lines.push("");
+        lines.push(`🏅 Ranked candidates (${result.candidates.length}):`);
+        lines.push(...summarizeCandidates(result.candidates));
+    }
+
     lines.push("");
     lines.push(`📋 Attempts (${result.attempts.length}):`);
     for (const attempt of result.attempts) {
         const icon = attempt.success ? "✅" : "❌";
-        lines.push(`   ${icon} ${attempt.source} (${attempt.durationMs}ms)`);
+        const tags = [attempt.pinned ? "[pinned]" : "", attempt.cached ? `[cache ${attempt.cached}]` : ""].filter(Boolean);
+        lines.push(`   ${icon} ${attempt.source} (${attempt.durationMs}ms)${tags.length > 0 ? ` ${tags.join(" ")}` : ""}`);
         if (attempt.error) {
             lines.push(`      → ${attempt.error}`);
         }
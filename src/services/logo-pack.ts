@@ -0,0 +1,329 @@
+/**
+ * Logo Pack — Local logo bundle for offline mode
+ *
+ * A logo pack holds one logo per company, keyed by its name in the curated
+ * company database. Packs are built while a network is available (see
+ * build-logo-pack.ts) and read back on machines that have none: in offline
+ * mode, live domain search and all network sources are skipped and logos
+ * come only from the pack.
+ *
+ * A pack is either a directory or a .tar / .tar.gz / .tgz archive of one:
+ *   manifest.json     — company → { file, domain, source, sourceUrl }
+ *   <company>.<ext>   — image bytes
+ *
+ * Configuration: MCP_LOGO_OFFLINE (set to "1"/"true"/"on" to enable) and
+ * MCP_LOGO_PACK (path to the pack directory or archive).
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join, posix, resolve } from "node:path";
+import { gunzipSync, gzipSync } from "node:zlib";
+
+import { validateImage } from "./image-validator.js";
+import type { LogoResult } from "./logo-fetcher.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface PackEntry {
+    /** Image filename inside the pack. */
+    file: string;
+    domain: string;
+    /** Source the logo was originally fetched from. */
+    source: string;
+    sourceUrl: string;
+}
+
+export interface PackManifest {
+    version: 1;
+    createdAt: string;
+    /** Pixel size the logos were fetched at. */
+    px: number;
+    entries: Record<string, PackEntry>;
+}
+
+export interface LogoPack {
+    path: string;
+    manifest: PackManifest;
+    readFile: (file: string) => Promise<Buffer>;
+}
+
+export interface OfflineConfig {
+    enabled: boolean;
+    /** Pack directory or archive; required when offline mode is enabled. */
+    packPath?: string;
+}
+
+export interface PackLogoInput {
+    company: string;
+    domain: string;
+    logo: LogoResult;
+}
+
+const MANIFEST_FILE = "manifest.json";
+const ARCHIVE_PATTERN = /\.(tar|tar\.gz|tgz)$/i;
+
+let config: OfflineConfig = { enabled: false };
+let loaded: { path: string; pack: Promise<LogoPack> } | null = null;
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+
+export function configureOffline(overrides: Partial<OfflineConfig>): void {
+    config = { ...config, ...overrides };
+}
+
+export function getOfflineConfig(): OfflineConfig {
+    return { ...config };
+}
+
+export function isOfflineMode(): boolean {
+    return config.enabled;
+}
+
+/**
+ * Load offline settings from the environment (see the module header).
+ */
+export function loadOfflineConfigFromEnv(env: NodeJS.ProcessEnv = process.env): void {
+    const overrides: Partial<OfflineConfig> = {};
+
+    if (env.MCP_LOGO_OFFLINE !== undefined) {
+        overrides.enabled = /^(1|true|yes|on)$/i.test(env.MCP_LOGO_OFFLINE.trim());
+    }
+    if (env.MCP_LOGO_PACK) {
+        overrides.packPath = resolve(env.MCP_LOGO_PACK);
+    }
+
+    configureOffline(overrides);
+}
+
+// ─── Tar Archives ────────────────────────────────────────────────────────────
+
+const BLOCK = 512;
+
+function readString(block: Buffer, offset: number, length: number): string {
+    const raw = block.subarray(offset, offset + length);
+    const end = raw.indexOf(0);
+    return raw.subarray(0, end === -1 ? raw.length : end).toString("utf-8");
+}
+
+/**
+ * Read the regular files from a ustar archive. Directories, links and
+ * pax/GNU extension headers are skipped.
+ */
+function readTar(archive: Buffer): Map<string, Buffer> {
+    const files = new Map<string, Buffer>();
+    let offset = 0;
+
+    while (offset + BLOCK <= archive.length) {
+        const header = archive.subarray(offset, offset + BLOCK);
+        if (header.every((byte) => byte === 0)) break;
+
+        const name = readString(header, 0, 100);
+        const size = parseInt(readString(header, 124, 12).trim() || "0", 8);
+        const type = String.fromCharCode(header[156] || 0x30);
+        const prefix = header.subarray(257, 262).toString() === "ustar" ? readString(header, 345, 155) : "";
+        const dataStart = offset + BLOCK;
+
+        if (type === "0") {
+            const path = posix.normalize(prefix ? `${prefix}/${name}` : name).replace(/^(\.\/)+/, "");
+            files.set(path, archive.subarray(dataStart, dataStart + size));
+        }
+
+        offset = dataStart + Math.ceil(size / BLOCK) * BLOCK;
+    }
+
+    return files;
+}
+
+function writeOctal(block: Buffer, value: number, offset: number, length: number): void {
+    block.write(value.toString(8).padStart(length - 1, "0") + "\0", offset, length, "ascii");
+}
+
+/**
+ * Write files into a ustar archive. Names must fit in 100 bytes.
+ */
+function writeTar(files: Array<{ name: string; data: Buffer }>): Buffer {
+    const blocks: Buffer[] = [];
+    const mtime = Math.floor(Date.now() / 1000);
+
+    for (const { name, data } of files) {
+        if (Buffer.byteLength(name) > 100) {
+            throw new Error(`File name too long for tar archive: ${name}`);
+        }
+
+        const header = Buffer.alloc(BLOCK);
+        header.write(name, 0, 100, "utf-8");
+        writeOctal(header, 0o644, 100, 8);
+        writeOctal(header, 0, 108, 8);
+        writeOctal(header, 0, 116, 8);
+        writeOctal(header, data.length, 124, 12);
+        writeOctal(header, mtime, 136, 12);
+        header.write("        ", 148, 8, "ascii"); // checksum is computed with this field as spaces
+        header.write("0", 156, 1, "ascii");
+        header.write("ustar\0", 257, 6, "ascii");
+        header.write("00", 263, 2, "ascii");
+
+        const checksum = header.reduce((sum, byte) => sum + byte, 0);
+        header.write(checksum.toString(8).padStart(6, "0") + "\0 ", 148, 8, "ascii");
+
+        blocks.push(header, data, Buffer.alloc((BLOCK - (data.length % BLOCK)) % BLOCK));
+    }
+
+    blocks.push(Buffer.alloc(BLOCK * 2));
+    return Buffer.concat(blocks);
+}
+
+// ─── Reading Packs ───────────────────────────────────────────────────────────
+
+/**
+ * Whether a manifest filename stays inside the pack root: relative, without
+ * `..` segments, drive letters or backslashes.
+ */
+function isInsidePack(file: unknown): file is string {
+    if (typeof file !== "string" || !file || file.includes("\\") || /^[a-z]:/i.test(file) || posix.isAbsolute(file)) {
+        return false;
+    }
+    const normalized = posix.normalize(file);
+    return normalized !== ".." && !normalized.startsWith("../") && normalized !== ".";
+}
+
+function parseManifest(raw: Buffer, path: string): PackManifest {
+    const manifest = JSON.parse(raw.toString("utf-8")) as PackManifest;
+    if (manifest.version !== 1 || !manifest.entries || typeof manifest.entries !== "object") {
+        throw new Error(`Invalid logo pack manifest in ${path}`);
+    }
+    for (const [company, entry] of Object.entries(manifest.entries)) {
+        if (!isInsidePack(entry?.file)) {
+            throw new Error(`Invalid logo pack manifest in ${path}: "${company}" points outside the pack (${JSON.stringify(entry?.file)})`);
+        }
+    }
+    return manifest;
+}
+
+async function openPack(path: string): Promise<LogoPack> {
+    if (!ARCHIVE_PATTERN.test(path)) {
+        const manifest = parseManifest(await readFile(join(path, MANIFEST_FILE)), path);
+        return { path, manifest, readFile: (file) => readFile(join(path, file)) };
+    }
+
+    const archive = await readFile(path);
+    const files = readTar(/\.t?gz$/i.test(path) ? gunzipSync(archive) : archive);
+
+    // Archives often wrap the pack in a top-level directory — locate the manifest
+    const manifestPath = Array.from(files.keys()).find((name) => posix.basename(name) === MANIFEST_FILE);
+    if (!manifestPath) {
+        throw new Error(`No ${MANIFEST_FILE} found in logo pack archive ${path}`);
+    }
+
+    const base = posix.dirname(manifestPath);
+    const manifest = parseManifest(files.get(manifestPath)!, path);
+    return {
+        path,
+        manifest,
+        readFile: async (file) => {
+            const data = files.get(base === "." ? file : `${base}/${file}`);
+            if (!data) throw new Error(`Missing ${file} in logo pack archive ${path}`);
+            return data;
+        },
+    };
+}
+
+/**
+ * Open a logo pack (directory or archive). Packs are opened once per path;
+ * archives are held in memory.
+ */
+export function loadLogoPack(path: string): Promise<LogoPack> {
+    if (loaded?.path !== path) {
+        const pack = openPack(path);
+        // Don't memoize failures — the pack may be created later
+        pack.catch(() => {
+            if (loaded?.pack === pack) loaded = null;
+        });
+        loaded = { path, pack };
+    }
+    return loaded.pack;
+}
+
+/**
+ * Look up a company in the configured logo pack, by database name first and
+ * then by domain. Returns null if the pack has no logo for it.
+ */
+export async function getPackLogo(company: string, domain?: string): Promise<LogoResult | null> {
+    if (!config.packPath) {
+        throw new Error("No logo pack configured — set MCP_LOGO_PACK to a pack directory or archive");
+    }
+
+    const pack = await loadLogoPack(config.packPath);
+    const key = company.toLowerCase();
+    const entry =
+        pack.manifest.entries[key] ??
+        (domain ? Object.values(pack.manifest.entries).find((e) => e.domain === domain.toLowerCase()) : undefined);
+    if (!entry) return null;
+
+    const buffer = await pack.readFile(entry.file);
+    const validation = validateImage(buffer);
+    if (!validation.valid || !validation.info) {
+        throw new Error(`Corrupt logo in pack for "${company}": ${validation.reason}`);
+    }
+
+    return {
+        buffer,
+        imageInfo: validation.info,
+        source: `Logo Pack (${entry.source})`,
+        sourceUrl: entry.sourceUrl,
+    };
+}
+
+// ─── Writing Packs ───────────────────────────────────────────────────────────
+
+function packFilename(company: string, extension: string): string {
+    const base = company.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+    return `${base || "logo"}.${extension}`;
+}
+
+/**
+ * Write a logo pack. Paths ending in .tar, .tar.gz or .tgz produce an archive;
+ * anything else is treated as a directory. Companies whose names reduce to the
+ * same filename ("Foo Bar", "foo-bar") get numbered files; the same company
+ * twice is an error.
+ */
+export async function writeLogoPack(path: string, logos: PackLogoInput[], px: number): Promise<PackManifest> {
+    const manifest: PackManifest = { version: 1, createdAt: new Date().toISOString(), px, entries: {} };
+    const files: Array<{ name: string; data: Buffer }> = [];
+    const taken = new Set([MANIFEST_FILE]);
+
+    for (const { company, domain, logo } of logos) {
+        const key = company.toLowerCase();
+        if (manifest.entries[key]) {
+            throw new Error(`Duplicate company "${company}" in logo pack`);
+        }
+
+        let file = packFilename(company, logo.imageInfo.extension);
+        for (let n = 2; taken.has(file); n++) {
+            file = packFilename(`${company}_${n}`, logo.imageInfo.extension);
+        }
+        taken.add(file);
+
+        manifest.entries[key] = {
+            file,
+            domain: domain.toLowerCase(),
+            source: logo.source,
+            sourceUrl: logo.sourceUrl,
+        };
+        files.push({ name: file, data: logo.buffer });
+    }
+    files.push({ name: MANIFEST_FILE, data: Buffer.from(JSON.stringify(manifest, null, 2)) });
+
+    if (ARCHIVE_PATTERN.test(path)) {
+        const tar = writeTar(files);
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(path, /\.t?gz$/i.test(path) ? gzipSync(tar) : tar);
+    } else {
+        await mkdir(path, { recursive: true });
+        for (const { name, data } of files) {
+            await writeFile(join(path, name), data);
+        }
+    }
+
+    if (loaded?.path === path) loaded = null;
+    return manifest;
+}
@@ -0,0 +1,112 @@
+/**
+ * Logo Scorer — Rates logo candidates so the best one wins, not the first
+ *
+ * Each candidate gets a score out of 100 built from its header metadata:
+ *
+ * | Criterion     | Max | Rationale                                          |
+ * |---------------|-----|----------------------------------------------------|
+ * | Resolution    |  40 | Short side vs. requested size; SVG scales freely   |
+ * | Format        |  25 | SVG > PNG > WebP > GIF/JPEG > ICO > BMP            |
+ * | Aspect ratio  |  15 | Square-ish marks fit icon slots; banners don't     |
+ * | Transparency  |  10 | Alpha channel composes onto any background         |
+ * | File size     |  10 | Tiny files are usually placeholders                |
+ */
+
+import type { ImageInfo } from "./image-validator.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface ScoreBreakdown {
+    resolution: number;
+    format: number;
+    aspectRatio: number;
+    transparency: number;
+    fileSize: number;
+}
+
+export interface LogoScore {
+    /** Total score, 0–100. */
+    total: number;
+    breakdown: ScoreBreakdown;
+}
+
+// ─── Weights ─────────────────────────────────────────────────────────────────
+
+const MAX_POINTS: ScoreBreakdown = {
+    resolution: 40,
+    format: 25,
+    aspectRatio: 15,
+    transparency: 10,
+    fileSize: 10,
+};
+
+const FORMAT_POINTS: Record<string, number> = {
+    SVG: 25,
+    PNG: 20,
+    WEBP: 18,
+    GIF: 10,
+    JPEG: 10,
+    ICO: 8,
+    BMP: 5,
+};
+
+/** Files below this are almost always generic placeholders or 16px favicons. */
+const SMALL_FILE_BYTES = 2048;
+
+// ─── Scoring ─────────────────────────────────────────────────────────────────
+
+function round1(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+/**
+ * Score a validated logo against the pixel size the caller asked for.
+ */
+export function scoreLogo(info: ImageInfo, targetPx: number): LogoScore {
+    const { width, height } = info;
+    const hasDimensions = width !== undefined && height !== undefined;
+
+    let resolution: number;
+    if (info.isSvg) {
+        resolution = MAX_POINTS.resolution;
+    } else if (hasDimensions) {
+        resolution = MAX_POINTS.resolution * Math.min(1, Math.min(width, height) / targetPx);
+    } else {
+        resolution = MAX_POINTS.resolution * 0.25; // unknown — assume mediocre
+    }
+
+    const format = FORMAT_POINTS[info.format] ?? 3;
+
+    const aspectRatio = hasDimensions
+        ? MAX_POINTS.aspectRatio * Math.sqrt(Math.min(width, height) / Math.max(width, height))
+        : MAX_POINTS.aspectRatio / 2;
+
+    const transparency = info.hasAlpha ? MAX_POINTS.transparency : 0;
+
+    const fileSize = MAX_POINTS.fileSize * Math.min(1, info.sizeBytes / SMALL_FILE_BYTES);
+
+    const breakdown: ScoreBreakdown = {
+        resolution: round1(resolution),
+        format,
+        aspectRatio: round1(aspectRatio),
+        transparency,
+        fileSize: round1(fileSize),
+    };
+
+    const total = round1(Object.values(breakdown).reduce((sum, points) => sum + points, 0));
+    return { total, breakdown };
+}
+
+/**
+ * Explain a score in one line, e.g. "res 40/40 · fmt 20/25 · aspect 15/15 · alpha 10/10 · bytes 10/10".
+ */
+export function describeScore(score: LogoScore): string {
+    const { breakdown: b } = score;
+    return [
+        `res ${b.resolution}/${MAX_POINTS.resolution}`,
+        `fmt ${b.format}/${MAX_POINTS.format}`,
+        `aspect ${b.aspectRatio}/${MAX_POINTS.aspectRatio}`,
+        `alpha ${b.transparency}/${MAX_POINTS.transparency}`,
+        `bytes ${b.fileSize}/${MAX_POINTS.fileSize}`,
+    ].join(" · ");
+}
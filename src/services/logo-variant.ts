@@ -0,0 +1,191 @@
+/**
+ * Logo Variants — Which kind of mark a logo is
+ *
+ * Callers ask for a variant when they need a mark for a particular context:
+ *
+ *   - icon:     a square symbol, for tiles and avatars
+ *   - wordmark: a wide, text-only logo, for headers and partner pages
+ *   - full:     the full lockup (symbol and name)
+ *   - light:    a mark that reads on light backgrounds
+ *   - dark:     a mark that reads on dark backgrounds (dark mode)
+ *   - mono:     a single-colour black, white or grey mark
+ *
+ * Sources and homepage discovery use the requested variant to decide where
+ * to look (see logo-fetcher.ts and logo-discovery.ts); this module checks
+ * what a downloaded logo actually is, from its pixels:
+ *
+ *   - Shape comes from the aspect ratio of the visible content (the pixels
+ *     that differ from the background), so padding doesn't count. Square
+ *     content is an icon, very wide content a wordmark, anything else a full
+ *     lockup — a horizontal lockup can't be told from a wordmark this way, so
+ *     wide logos count as both.
+ *   - Tone: on a transparent background, the mark suits light (or dark)
+ *     pages when it contrasts with white (or black) by at least 3:1, the WCAG
+ *     minimum for graphics. An opaque logo is a tile: it suits the pages its
+ *     background colour matches.
+ *   - Mono: nearly every pixel is grey (no chroma).
+ */
+
+import { decodeImage, type RasterImage } from "./image-converter.js";
+import type { ImageInfo } from "./image-validator.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export const LOGO_VARIANTS = ["icon", "wordmark", "full", "light", "dark", "mono"] as const;
+
+export type LogoVariant = (typeof LOGO_VARIANTS)[number];
+
+export interface VariantInfo {
+    /** The variant that was asked for, if any. */
+    requested?: LogoVariant;
+    /** Whether the logo looks like the requested variant; unset without a request. */
+    matched?: boolean;
+    /** Every variant the logo looks like, e.g. ["icon", "light"]. */
+    traits: LogoVariant[];
+}
+
+/** Content at most this much wider than tall (or taller than wide) is square. */
+const SQUARE_ASPECT = 1.3;
+/** Content at least this much wider than tall is a wordmark. */
+const WORDMARK_ASPECT = 2.5;
+/** WCAG minimum contrast for graphical objects. */
+const MIN_CONTRAST = 3;
+/** Pixels less opaque than this are background. */
+const MIN_ALPHA = 128;
+/** Pixels closer than this (RGB distance) to an opaque background are background. */
+const BACKGROUND_DISTANCE = 48;
+/** Pixels whose channels spread less than this are grey. */
+const MAX_GREY_CHROMA = 32;
+/** Share of grey pixels for a logo to count as mono. */
+const MONO_SHARE = 0.95;
+/** Larger images are sampled on a grid down to about this many pixels. */
+const MAX_SAMPLES = 20000;
+
+export function isLogoVariant(value: string): value is LogoVariant {
+    return (LOGO_VARIANTS as readonly string[]).includes(value);
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** WCAG relative luminance of an sRGB colour, 0 (black) to 1 (white). */
+function luminance(r: number, g: number, b: number): number {
+    const linear = (c: number) => {
+        const s = c / 255;
+        return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+    };
+    return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+}
+
+function contrast(a: number, b: number): number {
+    return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+function shapeTraits(width: number, height: number): LogoVariant[] {
+    const aspect = width / height;
+    if (aspect <= SQUARE_ASPECT && aspect >= 1 / SQUARE_ASPECT) return ["icon"];
+    return aspect >= WORDMARK_ASPECT ? ["wordmark", "full"] : ["full"];
+}
+
+/**
+ * Background of an image: transparent, or the mean colour of its corners
+ * when they are all opaque.
+ */
+function backgroundOf(image: RasterImage): [number, number, number] | null {
+    const { width: w, height: h, data } = image;
+    const corners = [0, w - 1, (h - 1) * w, h * w - 1].map((p) => p * 4);
+    if (corners.some((i) => data[i + 3] < MIN_ALPHA)) return null;
+
+    const mean = (offset: number) => corners.reduce((sum, i) => sum + data[i + offset], 0) / corners.length;
+    return [mean(0), mean(1), mean(2)];
+}
+
+// ─── Classification ──────────────────────────────────────────────────────────
+
+/**
+ * Every variant a decoded logo looks like (see the module header).
+ */
+export function classifyImage(image: RasterImage): LogoVariant[] {
+    const background = backgroundOf(image);
+    const step = Math.max(1, Math.ceil(Math.sqrt((image.width * image.height) / MAX_SAMPLES)));
+
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -1;
+    let maxY = -1;
+    let ink = 0;
+    let inkLuminance = 0;
+    let opaque = 0;
+    let grey = 0;
+
+    for (let y = 0; y < image.height; y += step) {
+        for (let x = 0; x < image.width; x += step) {
+            const i = (y * image.width + x) * 4;
+            const [r, g, b, a] = [image.data[i], image.data[i + 1], image.data[i + 2], image.data[i + 3]];
+            if (a < MIN_ALPHA) continue;
+
+            opaque++;
+            if (Math.max(r, g, b) - Math.min(r, g, b) < MAX_GREY_CHROMA) grey++;
+            if (background && Math.hypot(r - background[0], g - background[1], b - background[2]) < BACKGROUND_DISTANCE) {
+                continue;
+            }
+
+            ink++;
+            inkLuminance += luminance(r, g, b);
+            minX = Math.min(minX, x);
+            maxX = Math.max(maxX, x);
+            minY = Math.min(minY, y);
+            maxY = Math.max(maxY, y);
+        }
+    }
+
+    if (ink === 0) return shapeTraits(image.width, image.height);
+
+    const traits = shapeTraits(maxX - minX + step, maxY - minY + step);
+
+    if (background) {
+        traits.push(luminance(...background) < 0.18 ? "dark" : "light");
+    } else {
+        const mark = inkLuminance / ink;
+        if (contrast(mark, 1) >= MIN_CONTRAST) traits.push("light");
+        if (contrast(mark, 0) >= MIN_CONTRAST) traits.push("dark");
+    }
+
+    if (grey / opaque >= MONO_SHARE) traits.push("mono");
+    return traits;
+}
+
+/**
+ * Shape alone, from an image's declared dimensions — for logos that can't be
+ * decoded.
+ */
+export function classifyDimensions(info: ImageInfo): LogoVariant[] {
+    return info.width && info.height ? shapeTraits(info.width, info.height) : [];
+}
+
+/**
+ * Classify a validated logo. Formats that can't be decoded are judged by
+ * their dimensions alone.
+ */
+export async function classifyLogo(buffer: Buffer, info: ImageInfo): Promise<LogoVariant[]> {
+    try {
+        return classifyImage(await decodeImage(buffer, info));
+    } catch {
+        return classifyDimensions(info);
+    }
+}
+
+/**
+ * Variant metadata for a logo's traits, against the requested variant.
+ */
+export function toVariantInfo(traits: LogoVariant[], requested?: LogoVariant): VariantInfo {
+    return requested ? { requested, matched: traits.includes(requested), traits } : { traits };
+}
+
+/**
+ * One-line summary, e.g. `dark (matched; looks like: icon, dark)`.
+ */
+export function describeVariant(variant: VariantInfo): string {
+    const traits = variant.traits.length > 0 ? variant.traits.join(", ") : "unknown";
+    if (!variant.requested) return `looks like: ${traits}`;
+    return `${variant.requested} (${variant.matched ? "matched" : "no source had one"}; looks like: ${traits})`;
+}
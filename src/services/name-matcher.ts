@@ -0,0 +1,284 @@
+/**
+ * Name Matcher — Fuzzy scoring shared by company resolution and search
+ *
+ * Scores how well a query matches one name (a company key or alias) from 0 to
+ * 100, keeping the best of several signals:
+ *
+ *   exact     100   same letters, ignoring spaces ("hub spot" = "hubspot")
+ *   edit      90 − 10/edit   Levenshtein distance, allowed edits scale with length
+ *   token     60–90 every word of one side appears in the other ("google cloud platform console")
+ *   acronym   85    initials of a multi-word name ("gcp" ↔ "google cloud platform")
+ *   prefix    50–90 the query starts the name ("hubsp" → "hubspot")
+ *   phonetic  75    same phonetic key ("fotoshop" → "photoshop")
+ *   contains  30–60 one name contains the other — a weak hint, not a match
+ *
+ * Short strings are held to stricter rules: names of three letters or fewer
+ * must match exactly (or as an acronym of three or more letters), so "ms" or
+ * "ue" no longer match whatever happens to be two edits away.
+ *
+ * Inputs are normalized with `normalizeName`. Names matched repeatedly (like
+ * the company index's) can be prepared once with `prepareName`.
+ */
+
+import { distance } from "fastest-levenshtein";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type MatchKind = "exact" | "edit" | "token" | "acronym" | "prefix" | "phonetic" | "contains";
+
+export interface NameMatch {
+    kind: MatchKind;
+    /** Match quality from 0 to 100. */
+    score: number;
+    /** Levenshtein distance between the compacted strings ("edit" matches). */
+    edits?: number;
+    /** For "contains": whether the query is inside the name, or the name inside the query. */
+    direction?: "query-in-name" | "name-in-query";
+}
+
+/** A normalized name with the derived forms the matchers compare. */
+export interface PreparedName {
+    /** Normalized name, e.g. "google cloud". */
+    value: string;
+    /** Without spaces, e.g. "googlecloud". */
+    compact: string;
+    words: string[];
+    /** Initials of a multi-word name, e.g. "gc"; empty for one word. */
+    acronym: string;
+    /** Phonetic key; empty for names too short to match by sound. */
+    phonetic: string;
+}
+
+export const MATCH_SCORES = {
+    exact: 100,
+    /** Minus 10 per edit. */
+    edit: 90,
+    acronym: 85,
+    phonetic: 75,
+    /** Token matches score between these, by word overlap (Dice coefficient). */
+    token: { min: 60, max: 90 },
+    /** Prefix matches score between these, by how much of the name the query covers. */
+    prefix: { min: 50, max: 90 },
+    /** Containment scores between these, by length overlap. */
+    contains: { min: 30, max: 60 },
+};
+
+/** Shortest query that can match as a prefix, a containment or an acronym. */
+const MIN_PARTIAL_LENGTH = 3;
+
+/** Shortest name that can match by sound; shorter keys collide too easily ("cloud" / "claude"). */
+const MIN_PHONETIC_LENGTH = 6;
+
+/** Sound-alike spellings differ in length by at most this much ("kwik" / "quick"). */
+const MAX_PHONETIC_LENGTH_DIFF = 2;
+
+/** Edit matches must also keep this much of the longer string. */
+const MIN_EDIT_SIMILARITY = 0.6;
+
+// ─── Building Blocks ─────────────────────────────────────────────────────────
+
+/**
+ * Normalize a name for matching: lowercase, trim, remove special chars.
+ */
+export function normalizeName(input: string): string {
+    return input
+        .toLowerCase()
+        .trim()
+        .replace(/[._\-]/g, "")
+        .replace(/\s+/g, " ");
+}
+
+function compact(value: string): string {
+    return value.replace(/\s+/g, "");
+}
+
+function tokens(value: string): string[] {
+    return value.split(" ").filter(Boolean);
+}
+
+/**
+ * Precompute the forms of an already normalized name that matching compares.
+ */
+export function prepareName(value: string): PreparedName {
+    const squeezed = compact(value);
+    return {
+        value,
+        compact: squeezed,
+        words: tokens(value),
+        acronym: acronymOf(value),
+        phonetic: squeezed.length >= MIN_PHONETIC_LENGTH ? phoneticKey(squeezed) : "",
+    };
+}
+
+/**
+ * Edits allowed between two strings, scaled by the shorter one's length:
+ * none up to 3 characters, 1 up to 5, 2 up to 9, then 3.
+ */
+export function maxEdits(length: number): number {
+    return length <= 3 ? 0 : length <= 5 ? 1 : length <= 9 ? 2 : 3;
+}
+
+/**
+ * Initials of a multi-word name ("google cloud platform" → "gcp"); empty for
+ * single words.
+ */
+export function acronymOf(value: string): string {
+    const words = tokens(value);
+    return words.length >= 2 ? words.map((w) => w[0]).join("") : "";
+}
+
+/**
+ * A simplified Metaphone-style key: spelling variants that sound alike map to
+ * the same consonant skeleton ("photoshop", "fotoshop" → "ft0p";
+ * "quickbooks", "kwikbooks" → "kbks").
+ */
+export function phoneticKey(value: string): string {
+    const s = compact(value)
+        .replace(/[^a-z]/g, "")
+        .replace(/^[gkp]n/, "n")
+        .replace(/^wr/, "r")
+        .replace(/^x/, "s")
+        .replace(/ph/g, "f")
+        .replace(/ck/g, "k")
+        .replace(/sch/g, "sk")
+        .replace(/t?ch|sh/g, "0") // "sh" sound
+        .replace(/c(?=[eiy])/g, "s")
+        .replace(/[cq]/g, "k")
+        .replace(/x/g, "ks")
+        .replace(/z/g, "s")
+        .replace(/dg(?=[eiy])/g, "j")
+        .replace(/gh(?![aeiou])/g, "")
+        .replace(/v/g, "f");
+    if (!s) return "";
+
+    // Keep the first letter; drop later vowels, h, w and y; collapse repeats
+    const rest = s.slice(1).replace(/[aeiouhwy]/g, "");
+    return (s[0] + rest).replace(/(.)\1+/g, "$1");
+}
+
+/** Words match exactly, or with one typo when both are at least 5 letters long. */
+export function wordsMatch(a: string, b: string): boolean {
+    return a === b || (Math.min(a.length, b.length) >= 5 && Math.abs(a.length - b.length) <= 1 && distance(a, b) <= 1);
+}
+
+// ─── Scoring ─────────────────────────────────────────────────────────────────
+
+function editMatch(query: string, name: string): NameMatch | null {
+    // The distance is at least the difference in length
+    if (Math.abs(query.length - name.length) > maxEdits(Math.min(query.length, name.length))) return null;
+    const edits = distance(query, name);
+    const longest = Math.max(query.length, name.length);
+    if (edits === 0 || edits > maxEdits(Math.min(query.length, name.length))) return null;
+    if (1 - edits / longest < MIN_EDIT_SIMILARITY) return null;
+    return { kind: "edit", score: MATCH_SCORES.edit - 10 * edits, edits };
+}
+
+/** How many of `words` match some word of `others`. */
+function countMatching(words: string[], others: string[]): number {
+    let count = 0;
+    for (const word of words) {
+        for (const other of others) {
+            if (wordsMatch(word, other)) {
+                count++;
+                break;
+            }
+        }
+    }
+    return count;
+}
+
+function tokenMatch(query: PreparedName, name: PreparedName): NameMatch | null {
+    const queryWords = query.words;
+    const nameWords = name.words;
+    if (Math.max(queryWords.length, nameWords.length) < 2) return null;
+
+    // Either every word of the name is in the query, or a query of two or
+    // more words is entirely inside the name; one shared word is not enough
+    const matched = countMatching(queryWords, nameWords);
+    if (matched === 0) return null;
+    const coversName = countMatching(nameWords, queryWords) === nameWords.length;
+    const coversQuery = queryWords.length >= 2 && matched === queryWords.length;
+    if (!coversName && !coversQuery) return null;
+
+    const dice = (2 * matched) / (queryWords.length + nameWords.length);
+    const { min, max } = MATCH_SCORES.token;
+    return { kind: "token", score: Math.round(min + (max - min) * Math.min(1, dice)) };
+}
+
+function acronymMatch(query: PreparedName, name: PreparedName): NameMatch | null {
+    if (Math.min(query.compact.length, name.compact.length) < MIN_PARTIAL_LENGTH) return null;
+    if (name.acronym === query.compact || query.acronym === name.compact) {
+        return { kind: "acronym", score: MATCH_SCORES.acronym };
+    }
+    return null;
+}
+
+function prefixMatch(query: string, name: string): NameMatch | null {
+    if (query.length < MIN_PARTIAL_LENGTH || query.length >= name.length || !name.startsWith(query)) return null;
+    const { min, max } = MATCH_SCORES.prefix;
+    return { kind: "prefix", score: Math.round(min + (max - min) * (query.length / name.length)) };
+}
+
+function phoneticMatch(query: PreparedName, name: PreparedName): NameMatch | null {
+    if (Math.abs(query.compact.length - name.compact.length) > MAX_PHONETIC_LENGTH_DIFF) return null;
+    if (query.phonetic.length < 3 || query.phonetic !== name.phonetic) return null;
+    return { kind: "phonetic", score: MATCH_SCORES.phonetic };
+}
+
+function containsMatch(query: string, name: string): NameMatch | null {
+    if (Math.min(query.length, name.length) < MIN_PARTIAL_LENGTH || query === name) return null;
+    const direction = name.includes(query) ? "query-in-name" : query.includes(name) ? "name-in-query" : null;
+    if (!direction) return null;
+
+    const overlap = Math.min(query.length, name.length) / Math.max(query.length, name.length);
+    const { min, max } = MATCH_SCORES.contains;
+    return { kind: "contains", score: Math.round(min + (max - min) * overlap), direction };
+}
+
+/**
+ * Score a normalized query against one normalized name (either may be
+ * prepared). Returns the best match, or null when nothing matches.
+ */
+export function matchName(query: string | PreparedName, name: string | PreparedName): NameMatch | null {
+    const q = typeof query === "string" ? prepareName(query) : query;
+    const n = typeof name === "string" ? prepareName(name) : name;
+    if (!q.compact || !n.compact) return null;
+    if (q.compact === n.compact) {
+        return { kind: "exact", score: MATCH_SCORES.exact };
+    }
+
+    // Best score wins; earlier kinds win ties
+    let best = editMatch(q.compact, n.compact);
+    best = better(best, tokenMatch(q, n));
+    best = better(best, acronymMatch(q, n));
+    best = better(best, prefixMatch(q.compact, n.compact));
+    best = better(best, phoneticMatch(q, n));
+    return better(best, containsMatch(q.compact, n.compact));
+}
+
+function better(best: NameMatch | null, match: NameMatch | null): NameMatch | null {
+    return match && (!best || match.score > best.score) ? match : best;
+}
+
+/**
+ * Describe a match for a name label such as `"shopify"` or `alias "gh"`,
+ * e.g. `1 edit from "shopify"` or `acronym of alias "google cloud platform"`.
+ */
+export function describeMatch(match: NameMatch, label: string): string {
+    switch (match.kind) {
+        case "exact":
+            return `same as ${label}`;
+        case "edit":
+            return `${match.edits} edit${match.edits === 1 ? "" : "s"} from ${label}`;
+        case "token":
+            return `words match ${label}`;
+        case "acronym":
+            return `acronym match with ${label}`;
+        case "prefix":
+            return `start of ${label}`;
+        case "phonetic":
+            return `sounds like ${label}`;
+        case "contains":
+            return match.direction === "query-in-name" ? `${label} contains the input` : `input contains ${label}`;
+    }
+}
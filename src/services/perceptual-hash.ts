@@ -0,0 +1,206 @@
+/**
+ * Perceptual Hash — Fingerprints that survive resizing and re-encoding
+ *
+ * Two 64-bit hashes per image, both computed on a greyscale thumbnail with
+ * transparency composited onto mid-grey (so white and black marks on
+ * transparent backgrounds both keep their shape):
+ *
+ *   dHash  9×8 thumbnail, one bit per horizontal neighbour pair (brighter or not)
+ *   pHash  32×32 thumbnail, DCT, one bit per low-frequency coefficient above the median
+ *
+ * Visually identical images hash within a few bits of each other whatever
+ * their size or format; unrelated images differ in about half the bits.
+ * Hashes are 16-character hex strings, compared with `hammingDistance` or
+ * `compareHashes`. Flat and near-flat images all hash alike, so callers
+ * looking for duplicates skip them (`isLowDetail`).
+ */
+
+import { decodeImage, type RasterImage } from "./image-converter.js";
+import type { ImageInfo } from "./image-validator.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface ImageHashes {
+    /** Difference hash (gradient direction), as 16 hex characters. */
+    dhash: string;
+    /** DCT hash (low-frequency structure), as 16 hex characters. */
+    phash: string;
+}
+
+export interface HashComparison {
+    dhashDistance: number;
+    phashDistance: number;
+    /** Both distances are within the limits below: the same image, give or take resizing. */
+    similar: boolean;
+}
+
+/** Two images look the same when both hashes are at most this many bits apart. */
+export const MAX_DHASH_DISTANCE = 6;
+export const MAX_PHASH_DISTANCE = 8;
+
+/** Images with fewer dHash bits set than this have too little structure to compare. */
+const MIN_DETAIL_BITS = 4;
+
+/** Formats `hashLogo` can decode; others (GIF, BMP, TIFF, ...) are not hashed. */
+const HASHABLE_FORMATS = new Set(["PNG", "JPEG", "WEBP", "ICO", "SVG"]);
+
+/** Grey that transparent pixels are composited onto. */
+const BACKDROP = 128;
+
+/**
+ * Differences this small count as equal. Symmetric images (common among
+ * logos) have many neighbour pairs and DCT coefficients that are equal in
+ * theory; without a tolerance, resampling noise flips their bits at random.
+ */
+const DHASH_TOLERANCE = 2;
+const PHASH_TOLERANCE = 0.05;
+
+const PHASH_SIZE = 32;
+const PHASH_BITS = 8;
+
+// ─── Thumbnails ──────────────────────────────────────────────────────────────
+
+/**
+ * Box-filter an image down (or nearest-neighbour up) to `width` × `height`
+ * greyscale luminance values, compositing alpha onto the backdrop.
+ */
+function greyThumbnail(image: RasterImage, width: number, height: number): Float64Array {
+    const out = new Float64Array(width * height);
+    const { data } = image;
+
+    for (let ty = 0; ty < height; ty++) {
+        const y0 = Math.floor((ty * image.height) / height);
+        const y1 = Math.max(y0 + 1, Math.floor(((ty + 1) * image.height) / height));
+        for (let tx = 0; tx < width; tx++) {
+            const x0 = Math.floor((tx * image.width) / width);
+            const x1 = Math.max(x0 + 1, Math.floor(((tx + 1) * image.width) / width));
+
+            let sum = 0;
+            for (let y = y0; y < y1; y++) {
+                for (let x = x0; x < x1; x++) {
+                    const i = (y * image.width + x) * 4;
+                    const alpha = data[i + 3] / 255;
+                    const luma = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+                    sum += luma * alpha + BACKDROP * (1 - alpha);
+                }
+            }
+            out[ty * width + tx] = sum / ((y1 - y0) * (x1 - x0));
+        }
+    }
+    return out;
+}
+
+function toHex(bits: boolean[]): string {
+    let hex = "";
+    for (let i = 0; i < bits.length; i += 4) {
+        hex += ((+bits[i] << 3) | (+bits[i + 1] << 2) | (+bits[i + 2] << 1) | +bits[i + 3]).toString(16);
+    }
+    return hex;
+}
+
+// ─── Hashes ──────────────────────────────────────────────────────────────────
+
+/**
+ * Difference hash: is each pixel of a 9×8 thumbnail brighter than its right
+ * neighbour?
+ */
+export function dHash(image: RasterImage): string {
+    const thumb = greyThumbnail(image, 9, 8);
+    const bits: boolean[] = [];
+    for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) bits.push(thumb[y * 9 + x] > thumb[y * 9 + x + 1] + DHASH_TOLERANCE);
+    }
+    return toHex(bits);
+}
+
+const DCT_COS = Array.from({ length: PHASH_BITS }, (_, u) =>
+    Float64Array.from({ length: PHASH_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * PHASH_SIZE)))
+);
+
+/**
+ * DCT hash: the 8×8 lowest frequencies of a 32×32 thumbnail's DCT, one bit
+ * each for being above their median (the DC term is left out of the median).
+ */
+export function pHash(image: RasterImage): string {
+    const thumb = greyThumbnail(image, PHASH_SIZE, PHASH_SIZE);
+
+    // Separable DCT-II, rows then columns, keeping only the low frequencies
+    const rows = new Float64Array(PHASH_SIZE * PHASH_BITS);
+    for (let y = 0; y < PHASH_SIZE; y++) {
+        for (let u = 0; u < PHASH_BITS; u++) {
+            let sum = 0;
+            for (let x = 0; x < PHASH_SIZE; x++) sum += thumb[y * PHASH_SIZE + x] * DCT_COS[u][x];
+            rows[y * PHASH_BITS + u] = sum;
+        }
+    }
+    const coefficients: number[] = [];
+    for (let v = 0; v < PHASH_BITS; v++) {
+        for (let u = 0; u < PHASH_BITS; u++) {
+            let sum = 0;
+            for (let y = 0; y < PHASH_SIZE; y++) sum += rows[y * PHASH_BITS + u] * DCT_COS[v][y];
+            coefficients.push(sum);
+        }
+    }
+
+    const sorted = coefficients.slice(1).sort((a, b) => a - b);
+    const median = (sorted[31] + sorted[32]) / 2;
+    const tolerance = Math.max(1, PHASH_TOLERANCE * Math.max(Math.abs(sorted[0]), Math.abs(sorted[62])));
+    return toHex(coefficients.map((c) => c > median + tolerance));
+}
+
+export function hashImage(image: RasterImage): ImageHashes {
+    return { dhash: dHash(image), phash: pHash(image) };
+}
+
+/**
+ * Decode and hash a validated logo. Returns null for formats that can't be
+ * decoded, or when decoding fails.
+ */
+export async function hashLogo(buffer: Buffer, info: ImageInfo): Promise<ImageHashes | null> {
+    if (!HASHABLE_FORMATS.has(info.format)) return null;
+    try {
+        return hashImage(await decodeImage(buffer, info));
+    } catch {
+        return null;
+    }
+}
+
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+/**
+ * Number of differing bits between two hashes of the same length.
+ */
+export function hammingDistance(a: string, b: string): number {
+    if (a.length !== b.length) {
+        throw new Error(`Cannot compare hashes of different lengths (${a.length} and ${b.length})`);
+    }
+    let distance = 0;
+    for (let i = 0; i < a.length; i++) {
+        distance += NIBBLE_BITS[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+    }
+    return distance;
+}
+
+function bitCount(hash: string): number {
+    let count = 0;
+    for (const digit of hash) count += NIBBLE_BITS[parseInt(digit, 16)];
+    return count;
+}
+
+export function compareHashes(a: ImageHashes, b: ImageHashes): HashComparison {
+    const dhashDistance = hammingDistance(a.dhash, b.dhash);
+    const phashDistance = hammingDistance(a.phash, b.phash);
+    return {
+        dhashDistance,
+        phashDistance,
+        similar: dhashDistance <= MAX_DHASH_DISTANCE && phashDistance <= MAX_PHASH_DISTANCE,
+    };
+}
+
+/**
+ * Whether an image is too flat to compare: a solid square or a faint mark
+ * has almost no gradients, so unrelated images of this kind hash alike.
+ */
+export function isLowDetail(hashes: ImageHashes): boolean {
+    return bitCount(hashes.dhash) < MIN_DETAIL_BITS;
+}
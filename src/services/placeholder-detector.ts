@@ -0,0 +1,159 @@
+/**
+ * Placeholder Detector — Rejects generic default icons by perceptual hash
+ *
+ * Sources happily return images that aren't the company's logo: Google's
+ * default globe for unknown domains, and the stock favicons of site builders,
+ * hosting platforms and parking pages. Every source result is hashed (see
+ * perceptual-hash.ts) and compared against a blocklist of known placeholders;
+ * it is rejected when both its dHash and pHash are close to an entry's.
+ *
+ * The blocklist is the bundled one (placeholder-hashes.ts, generated with
+ * `npm run build-placeholders`) plus any entries from a JSON file.
+ *
+ * Configuration: MCP_LOGO_PLACEHOLDER_CHECK (set to "0"/"false"/"off" to
+ * accept placeholders) and MCP_LOGO_PLACEHOLDER_HASHES (path to a JSON array
+ * of `{ "name", "dhash", "phash", "owners"? }` entries added to the bundled ones).
+ *
+ * Many stock favicons are simply the platform's logo (Shopify's bag, the
+ * WordPress W), so an entry lists the domains it belongs to and is never held
+ * against those domains' own logos.
+ */
+
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+
+import type { ImageInfo } from "./image-validator.js";
+import { compareHashes, hashLogo, type ImageHashes } from "./perceptual-hash.js";
+import { BUILTIN_PLACEHOLDERS } from "./placeholder-hashes.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface PlaceholderHash extends ImageHashes {
+    /** What the placeholder is, e.g. "Google default globe". */
+    name: string;
+    /** Domains (and their subdomains) whose real logo this is, e.g. ["shopify.com"]. */
+    owners?: string[];
+}
+
+export interface PlaceholderMatch {
+    placeholder: PlaceholderHash;
+    dhashDistance: number;
+    phashDistance: number;
+}
+
+export interface PlaceholderConfig {
+    enabled: boolean;
+    /** Entries checked in addition to the bundled blocklist. */
+    extra: PlaceholderHash[];
+}
+
+let config: PlaceholderConfig = { enabled: true, extra: [] };
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+
+export function configurePlaceholders(overrides: Partial<PlaceholderConfig>): void {
+    config = { ...config, ...overrides };
+}
+
+export function getPlaceholderConfig(): PlaceholderConfig {
+    return { ...config, extra: [...config.extra] };
+}
+
+/**
+ * Validate blocklist entries read from a JSON file.
+ */
+export function parsePlaceholderHashes(data: unknown, path: string): PlaceholderHash[] {
+    if (!Array.isArray(data)) {
+        throw new Error(`${path}: expected a JSON array of { "name", "dhash", "phash" } entries`);
+    }
+    return data.map((entry, i) => {
+        const { name, dhash, phash, owners } = (entry ?? {}) as Record<string, unknown>;
+        const isHash = (value: unknown) => typeof value === "string" && /^[0-9a-f]{16}$/i.test(value);
+        if (typeof name !== "string" || !name.trim() || !isHash(dhash) || !isHash(phash)) {
+            throw new Error(`${path}: entry ${i + 1} needs a name and 16-digit hex dhash and phash`);
+        }
+        if (owners !== undefined && (!Array.isArray(owners) || !owners.every((o) => typeof o === "string"))) {
+            throw new Error(`${path}: entry ${i + 1} owners must be an array of domains`);
+        }
+        return {
+            name: name.trim(),
+            dhash: (dhash as string).toLowerCase(),
+            phash: (phash as string).toLowerCase(),
+            ...(owners ? { owners: (owners as string[]).map((o) => o.trim().toLowerCase()) } : {}),
+        };
+    });
+}
+
+/**
+ * Load placeholder settings from the environment (see the module header).
+ */
+export function loadPlaceholderConfigFromEnv(env: NodeJS.ProcessEnv = process.env): void {
+    const overrides: Partial<PlaceholderConfig> = {};
+
+    if (env.MCP_LOGO_PLACEHOLDER_CHECK !== undefined) {
+        overrides.enabled = !/^(0|false|no|off)$/i.test(env.MCP_LOGO_PLACEHOLDER_CHECK.trim());
+    }
+    if (env.MCP_LOGO_PLACEHOLDER_HASHES) {
+        const path = resolve(env.MCP_LOGO_PLACEHOLDER_HASHES);
+        let data: unknown;
+        try {
+            data = JSON.parse(readFileSync(path, "utf-8"));
+        } catch (err) {
+            throw new Error(`MCP_LOGO_PLACEHOLDER_HASHES: cannot read ${path} (${err instanceof Error ? err.message : String(err)})`);
+        }
+        overrides.extra = parsePlaceholderHashes(data, path);
+    }
+
+    configurePlaceholders(overrides);
+}
+
+// ─── Detection ───────────────────────────────────────────────────────────────
+
+/**
+ * Every blocklist entry: the bundled ones, then the configured extras.
+ */
+export function getPlaceholderBlocklist(): PlaceholderHash[] {
+    return [...BUILTIN_PLACEHOLDERS, ...config.extra];
+}
+
+function isOwner(placeholder: PlaceholderHash, domain: string): boolean {
+    const host = domain.toLowerCase();
+    return (placeholder.owners ?? []).some((owner) => host === owner || host.endsWith(`.${owner}`));
+}
+
+/**
+ * The closest blocklist entry that looks the same as the image, if any,
+ * ignoring entries that are `domain`'s own logo.
+ */
+export function matchPlaceholder(hashes: ImageHashes, domain?: string): PlaceholderMatch | null {
+    let best: PlaceholderMatch | null = null;
+    for (const placeholder of getPlaceholderBlocklist()) {
+        if (domain && isOwner(placeholder, domain)) continue;
+        const { dhashDistance, phashDistance, similar } = compareHashes(hashes, placeholder);
+        if (!similar) continue;
+        if (!best || dhashDistance + phashDistance < best.dhashDistance + best.phashDistance) {
+            best = { placeholder, dhashDistance, phashDistance };
+        }
+    }
+    return best;
+}
+
+/**
+ * Check a validated image fetched for `domain` against the blocklist. Returns
+ * why it was rejected, e.g.
+ * `Placeholder image: matches "Google default globe" (dHash 2, pHash 4 bits apart)`,
+ * or null when it is not a known placeholder, can't be decoded, or checking
+ * is disabled.
+ */
+export async function detectPlaceholder(buffer: Buffer, info: ImageInfo, domain?: string): Promise<string | null> {
+    if (!config.enabled || getPlaceholderBlocklist().length === 0) return null;
+
+    const hashes = await hashLogo(buffer, info);
+    const match = hashes && matchPlaceholder(hashes, domain);
+    if (!match) return null;
+
+    return (
+        `Placeholder image: matches "${match.placeholder.name}" ` +
+        `(dHash ${match.dhashDistance}, pHash ${match.phashDistance} bits apart)`
+    );
+}
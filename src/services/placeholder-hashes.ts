@@ -0,0 +1,20 @@
+/**
+ * Placeholder Hashes — Bundled blocklist for the placeholder detector
+ *
+ * Generated by `npm run build-placeholders` (src/build-placeholder-hashes.ts)
+ * from the images listed in PLACEHOLDER_SOURCES there (the first source of each
+ * that could be read); regenerate rather than edit by hand. Extra entries can
+ * be supplied at runtime with MCP_LOGO_PLACEHOLDER_HASHES.
+ */
+
+import type { PlaceholderHash } from "./placeholder-detector.js";
+
+export const BUILTIN_PLACEHOLDERS: PlaceholderHash[] = [
+    { name: "Google default globe", dhash: "3060c2c2b2b25830", phash: "b210e04690889220" },
+    { name: "WordPress default site icon", dhash: "408692125a49ec6c", phash: "ae82e9a8a4232022", owners: ["wordpress.org", "wordpress.com"] },
+    { name: "Wix default favicon", dhash: "0000555aaaad0000", phash: "9a8084030a000580", owners: ["wix.com"] },
+    { name: "Squarespace default favicon", dhash: "68d4aa556dba7428", phash: "a804a04080429a10", owners: ["squarespace.com"] },
+    { name: "Shopify default favicon", dhash: "0c07236161616103", phash: "914e0e384820438c", owners: ["shopify.com", "myshopify.com"] },
+    { name: "GoDaddy parking page icon", dhash: "334c9ab2a221330e", phash: "86ec04a11b576c0e", owners: ["godaddy.com"] },
+    { name: "nginx default icon", dhash: "30e0928aa2b2e030", phash: "e684a09380068609", owners: ["nginx.org", "nginx.com"] },
+];
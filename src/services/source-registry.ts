@@ -0,0 +1,309 @@
+/**
+ * Source Registry — Ordered, configurable set of logo sources
+ *
+ * The logo fetcher asks this registry which sources to query and in which
+ * order. Sources can be added, removed, reordered or disabled at runtime,
+ * and each one carries its own timeout, retry policy, headers and API key.
+ *
+ * Configuration is read from (later wins):
+ * 1. Built-in defaults of each source
+ * 2. A JSON file named by MCP_LOGO_SOURCES_CONFIG
+ * 3. MCP_LOGO_SOURCE_ORDER / MCP_LOGO_DISABLED_SOURCES (comma-separated ids)
+ * 4. MCP_LOGO_SOURCE_<ID>_{ENABLED,TIMEOUT_MS,RETRIES,API_KEY} per source
+ */
+
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+
+import type { LogoResult } from "./logo-fetcher.js";
+import type { LogoVariant } from "./logo-variant.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface SourceSettings {
+    enabled: boolean;
+    /** Timeout for each HTTP request the source makes. */
+    timeoutMs: number;
+    /** Extra attempts after a failure (0 = no retries). */
+    retries: number;
+    /** Delay before the first retry; doubles on each further retry. */
+    retryDelayMs: number;
+    /** Extra request headers, merged over the defaults. */
+    headers: Record<string, string>;
+    /** Credential for sources that support one (built-ins send it as a Bearer token to their `apiHost` only). */
+    apiKey?: string;
+}
+
+/**
+ * A logo source. `fetch` receives the domain (or the company name when
+ * `usesCompanyName` is set), the requested pixel size, the source's
+ * effective settings, and the logo variant asked for, if any.
+ */
+export interface LogoSource {
+    /** Stable identifier used in config and env vars, e.g. "google-favicon". */
+    id: string;
+    /** Display name shown in attempts and tool output. */
+    name: string;
+    fetch: (input: string, px: number, settings: SourceSettings, variant?: LogoVariant) => Promise<LogoResult>;
+    /** If true, passes the company name instead of the domain. */
+    usesCompanyName?: boolean;
+    /** Host of the source's own API, the only one a configured API key is sent to. */
+    apiHost?: string;
+    /**
+     * Variants this source can return. When a variant is requested, sources
+     * that list it are tried first. Omitted means none in particular.
+     */
+    variants?: LogoVariant[];
+    /** Defaults for this source, applied over the registry-wide defaults. */
+    defaults?: Partial<SourceSettings>;
+}
+
+export interface ActiveSource extends LogoSource {
+    settings: SourceSettings;
+}
+
+export interface SourceConfigFile {
+    /** Source ids in the desired order; unlisted sources keep their relative order after these. */
+    order?: string[];
+    /** Per-source overrides, keyed by source id. */
+    sources?: Record<string, Partial<SourceSettings>>;
+}
+
+const sourceSettingsSchema = z
+    .object({
+        enabled: z.boolean(),
+        timeoutMs: z.number().min(0),
+        retries: z.number().int().min(0),
+        retryDelayMs: z.number().min(0),
+        headers: z.record(z.string(), z.string()),
+        apiKey: z.string().min(1),
+    })
+    .partial()
+    .strict();
+
+const sourceConfigFileSchema = z
+    .object({
+        order: z.array(z.string().trim().min(1)).optional(),
+        sources: z.record(z.string().trim().min(1), sourceSettingsSchema).optional(),
+    })
+    .strict();
+
+const DEFAULT_SETTINGS: SourceSettings = {
+    enabled: true,
+    timeoutMs: 10000,
+    retries: 0,
+    retryDelayMs: 500,
+    headers: {},
+};
+
+// ─── Registry State ──────────────────────────────────────────────────────────
+
+const sources: LogoSource[] = [];
+const overrides = new Map<string, Partial<SourceSettings>>();
+
+function normalizeId(id: string): string {
+    return id.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+function findIndex(id: string): number {
+    const key = normalizeId(id);
+    return sources.findIndex((s) => s.id === key);
+}
+
+// ─── Registration API ────────────────────────────────────────────────────────
+
+/**
+ * Register a logo source. By default it is appended to the end of the list;
+ * pass `before` or `after` (a source id) to position it. Registering an id
+ * that already exists replaces that source in place.
+ */
+export function registerSource(
+    source: LogoSource,
+    position: { before?: string; after?: string } = {}
+): void {
+    const entry = { ...source, id: normalizeId(source.id) };
+    const existing = findIndex(entry.id);
+
+    if (existing !== -1) {
+        sources[existing] = entry;
+        return;
+    }
+
+    const anchorId = position.before ?? position.after;
+    const anchor = anchorId ? findIndex(anchorId) : -1;
+    if (anchorId && anchor === -1) {
+        throw new Error(`Cannot position source "${entry.id}": unknown source "${anchorId}"`);
+    }
+
+    if (anchor === -1) {
+        sources.push(entry);
+    } else {
+        sources.splice(position.before ? anchor : anchor + 1, 0, entry);
+    }
+}
+
+/**
+ * Remove a source from the registry. Returns false if it wasn't registered.
+ */
+export function unregisterSource(id: string): boolean {
+    const index = findIndex(id);
+    if (index === -1) return false;
+    sources.splice(index, 1);
+    overrides.delete(normalizeId(id));
+    return true;
+}
+
+/**
+ * Reorder sources. Listed ids come first, in the given order; any sources
+ * not listed keep their relative order after them.
+ */
+export function setSourceOrder(ids: string[]): void {
+    const keys = ids.map(normalizeId);
+    const unknown = keys.filter((key) => findIndex(key) === -1);
+    if (unknown.length > 0) {
+        throw new Error(`Unknown source(s) in order: ${unknown.join(", ")}`);
+    }
+
+    const listed = keys.map((key) => sources[findIndex(key)]);
+    const rest = sources.filter((s) => !keys.includes(s.id));
+    sources.splice(0, sources.length, ...listed, ...rest);
+}
+
+/**
+ * Override settings for one source. Headers are merged; other fields replace.
+ */
+export function configureSource(id: string, settings: Partial<SourceSettings>): void {
+    const key = normalizeId(id);
+    if (findIndex(key) === -1) {
+        throw new Error(`Unknown source "${id}"`);
+    }
+
+    const current = overrides.get(key) ?? {};
+    overrides.set(key, {
+        ...current,
+        ...settings,
+        headers: { ...current.headers, ...settings.headers },
+    });
+}
+
+/**
+ * Resolve the effective settings for a source: registry defaults, then the
+ * source's own defaults, then configured overrides.
+ */
+export function getSourceSettings(source: LogoSource): SourceSettings {
+    const override = overrides.get(source.id) ?? {};
+    return {
+        ...DEFAULT_SETTINGS,
+        ...source.defaults,
+        ...override,
+        headers: { ...DEFAULT_SETTINGS.headers, ...source.defaults?.headers, ...override.headers },
+    };
+}
+
+/**
+ * All registered sources in order, with their effective settings.
+ */
+export function listSources(): ActiveSource[] {
+    return sources.map((source) => ({ ...source, settings: getSourceSettings(source) }));
+}
+
+/**
+ * Enabled sources in the order the fetcher should try them.
+ */
+export function getActiveSources(): ActiveSource[] {
+    return listSources().filter((source) => source.settings.enabled);
+}
+
+// ─── Configuration Loading ───────────────────────────────────────────────────
+
+function parseList(value: string | undefined): string[] {
+    return (value ?? "").split(",").map((s) => s.trim()).filter(Boolean);
+}
+
+function parseNumber(value: string | undefined, name: string): number | undefined {
+    if (value === undefined || value.trim() === "") return undefined;
+    const n = Number(value);
+    if (!Number.isFinite(n) || n < 0) {
+        throw new Error(`${name} must be a non-negative number, got "${value}"`);
+    }
+    return n;
+}
+
+/**
+ * Validate parsed config file contents. Throws with every problem listed by
+ * its location in the file.
+ */
+export function parseSourceConfig(data: unknown, path: string): SourceConfigFile {
+    const result = sourceConfigFileSchema.safeParse(data ?? {});
+    if (!result.success) {
+        const issues = result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+        throw new Error(`Invalid source config file ${path}:\n  ${issues.join("\n  ")}`);
+    }
+    return result.data;
+}
+
+/**
+ * Apply a parsed config file: per-source overrides, then ordering.
+ */
+export function applySourceConfig(config: SourceConfigFile): void {
+    for (const [id, settings] of Object.entries(config.sources ?? {})) {
+        configureSource(id, settings);
+    }
+    if (config.order) {
+        setSourceOrder(config.order);
+    }
+}
+
+/**
+ * Load source configuration from the environment (see the module header).
+ * Call once at startup, after all custom sources have been registered.
+ */
+export function loadSourceConfigFromEnv(env: NodeJS.ProcessEnv = process.env): void {
+    if (env.MCP_LOGO_SOURCES_CONFIG) {
+        const path = env.MCP_LOGO_SOURCES_CONFIG;
+        let data: unknown;
+        try {
+            data = JSON.parse(readFileSync(path, "utf-8"));
+        } catch (err) {
+            throw new Error(`MCP_LOGO_SOURCES_CONFIG: cannot read ${path} (${err instanceof Error ? err.message : String(err)})`);
+        }
+        applySourceConfig(parseSourceConfig(data, path));
+    }
+
+    const order = parseList(env.MCP_LOGO_SOURCE_ORDER);
+    if (order.length > 0) {
+        setSourceOrder(order);
+    }
+
+    for (const id of parseList(env.MCP_LOGO_DISABLED_SOURCES)) {
+        configureSource(id, { enabled: false });
+    }
+
+    for (const source of sources) {
+        const prefix = `MCP_LOGO_SOURCE_${source.id.toUpperCase().replace(/-/g, "_")}_`;
+        const settings: Partial<SourceSettings> = {};
+
+        const enabled = env[`${prefix}ENABLED`];
+        if (enabled !== undefined) settings.enabled = !/^(0|false|no|off)$/i.test(enabled.trim());
+
+        const timeoutMs = parseNumber(env[`${prefix}TIMEOUT_MS`], `${prefix}TIMEOUT_MS`);
+        if (timeoutMs !== undefined) settings.timeoutMs = timeoutMs;
+
+        const retries = parseNumber(env[`${prefix}RETRIES`], `${prefix}RETRIES`);
+        if (retries !== undefined) settings.retries = Math.floor(retries);
+
+        const apiKey = env[`${prefix}API_KEY`];
+        if (apiKey) settings.apiKey = apiKey;
+
+        if (Object.keys(settings).length > 0) {
+            configureSource(source.id, settings);
+        }
+    }
+}
+
+/**
+ * Drop all configured overrides (registered sources stay). Mainly for tests.
+ */
+export function resetSourceConfig(): void {
+    overrides.clear();
+}
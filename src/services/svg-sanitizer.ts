@@ -0,0 +1,336 @@
+/**
+ * SVG Sanitizer — Whitelist-based cleaning and optimization of SVG logos
+ *
+ * SVGs are documents, not just images: they can carry scripts, event
+ * handlers, HTML inside <foreignObject> and references to external files.
+ * Every SVG logo is rebuilt from its parsed tree keeping only:
+ *
+ *   - elements on the whitelist (shapes, text, gradients, filters, ...)
+ *   - attributes on the whitelist, plus aria-* and role
+ *   - references to the document itself (`#id`) or embedded raster images
+ *     (`data:image/png;...` on <image> and <feImage>)
+ *
+ * Anything else is removed, and the optimizer also strips what editors leave
+ * behind: comments, the XML declaration, <metadata>, Inkscape/Sodipodi/Sketch
+ * elements and attributes, data-* attributes, empty groups and whitespace
+ * between elements. The viewBox is normalized to four space-separated numbers
+ * and added from width/height when missing.
+ *
+ * The report lists what was removed, so the tool output can show it.
+ */
+
+import * as cheerio from "cheerio";
+import type { AnyNode, Element } from "domhandler";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface SvgRemoval {
+    /** What was removed, e.g. "<script>", "onload attribute", "comment". */
+    item: string;
+    count: number;
+    /** Could run code, navigate or load something from elsewhere (rather than just being cruft). */
+    unsafe: boolean;
+}
+
+export interface SvgReport {
+    /** Removed items, unsafe ones first. */
+    removed: SvgRemoval[];
+    /** Other changes, e.g. `viewBox "0,0,24,24" → "0 0 24 24"`. */
+    changes: string[];
+    bytesBefore: number;
+    bytesAfter: number;
+}
+
+export interface SanitizedSvg {
+    buffer: Buffer;
+    report: SvgReport;
+}
+
+// ─── Whitelists ──────────────────────────────────────────────────────────────
+
+const ALLOWED_ELEMENTS = new Set([
+    "svg", "g", "defs", "symbol", "use", "title", "desc", "style",
+    "path", "rect", "circle", "ellipse", "line", "polyline", "polygon",
+    "text", "tspan", "textPath", "image",
+    "linearGradient", "radialGradient", "stop", "pattern", "clipPath", "mask", "marker",
+    "filter", "feBlend", "feColorMatrix", "feComponentTransfer", "feComposite", "feConvolveMatrix",
+    "feDiffuseLighting", "feDisplacementMap", "feDistantLight", "feDropShadow", "feFlood",
+    "feFuncA", "feFuncB", "feFuncG", "feFuncR", "feGaussianBlur", "feImage", "feMerge", "feMergeNode",
+    "feMorphology", "feOffset", "fePointLight", "feSpecularLighting", "feSpotLight", "feTile", "feTurbulence",
+]);
+
+/** Removed, but their children are kept: a link around a logo is still a logo. */
+const UNWRAPPED_ELEMENTS = new Set(["a", "switch"]);
+
+/** Removed as cruft rather than as unsafe. */
+const CRUFT_ELEMENTS = new Set(["metadata"]);
+
+const ALLOWED_ATTRIBUTES = new Set([
+    // Core and structure
+    "id", "class", "style", "lang", "xml:lang", "xml:space", "xmlns", "xmlns:xlink", "version",
+    "viewBox", "preserveAspectRatio", "transform", "href", "xlink:href", "media", "type",
+    // Geometry
+    "x", "y", "x1", "y1", "x2", "y2", "cx", "cy", "r", "rx", "ry", "fx", "fy", "fr",
+    "width", "height", "d", "points", "pathLength",
+    // Presentation
+    "fill", "fill-opacity", "fill-rule", "stroke", "stroke-width", "stroke-linecap", "stroke-linejoin",
+    "stroke-miterlimit", "stroke-dasharray", "stroke-dashoffset", "stroke-opacity", "opacity", "color",
+    "display", "visibility", "overflow", "clip-path", "clip-rule", "mask", "filter", "paint-order",
+    "vector-effect", "shape-rendering", "image-rendering", "text-rendering", "color-interpolation",
+    "color-interpolation-filters", "mix-blend-mode", "isolation", "flood-color", "flood-opacity",
+    "lighting-color", "stop-color", "stop-opacity", "offset",
+    // Text
+    "font-family", "font-size", "font-weight", "font-style", "font-variant", "font-stretch",
+    "text-anchor", "dominant-baseline", "alignment-baseline", "baseline-shift", "letter-spacing",
+    "word-spacing", "text-decoration", "dx", "dy", "rotate", "textLength", "lengthAdjust",
+    "startOffset", "method", "spacing", "side",
+    // Paint servers, clipping, masking and markers
+    "gradientUnits", "gradientTransform", "spreadMethod", "patternUnits", "patternContentUnits",
+    "patternTransform", "clipPathUnits", "maskUnits", "maskContentUnits", "markerWidth", "markerHeight",
+    "markerUnits", "refX", "refY", "orient", "marker-start", "marker-mid", "marker-end",
+    // Filters
+    "filterUnits", "primitiveUnits", "in", "in2", "result", "stdDeviation", "values", "mode", "operator",
+    "k1", "k2", "k3", "k4", "surfaceScale", "diffuseConstant", "specularConstant", "specularExponent",
+    "kernelMatrix", "kernelUnitLength", "order", "divisor", "bias", "targetX", "targetY", "edgeMode",
+    "preserveAlpha", "scale", "xChannelSelector", "yChannelSelector", "radius", "baseFrequency",
+    "numOctaves", "seed", "stitchTiles", "tableValues", "slope", "intercept", "amplitude", "exponent",
+    "azimuth", "elevation", "pointsAtX", "pointsAtY", "pointsAtZ", "z", "limitingConeAngle",
+]);
+
+/** Namespaces drawing editors use for their own bookkeeping. */
+const EDITOR_PREFIXES = ["inkscape", "sodipodi", "sketch", "serif", "figma", "i", "x", "graph", "a"];
+
+/** Elements whose whitespace is content. */
+const TEXT_ELEMENTS = new Set(["text", "tspan", "textPath", "title", "desc", "style"]);
+
+/** Elements that only draw what their href points to. */
+const REFERENCING_ELEMENTS = new Set(["use", "image", "feImage"]);
+
+/** Raster data URIs are the only non-local references kept, and only on these elements. */
+const DATA_IMAGE_ELEMENTS = new Set(["image", "feImage"]);
+const DATA_IMAGE = /^data:image\/(png|jpeg|gif|webp)[;,]/i;
+
+/** url(...) references to anything but an element of this document or an embedded raster image. */
+const EXTERNAL_URL = /url\(\s*(?!['"]?(#|data:image\/(png|jpeg|gif|webp)[;,]))[^)]*\)/gi;
+
+// ─── Report ──────────────────────────────────────────────────────────────────
+
+class RemovalLog {
+    private readonly counts = new Map<string, SvgRemoval>();
+
+    add(item: string, unsafe: boolean): void {
+        const entry = this.counts.get(item);
+        if (entry) entry.count++;
+        else this.counts.set(item, { item, count: 1, unsafe });
+    }
+
+    list(): SvgRemoval[] {
+        return Array.from(this.counts.values()).sort((a, b) => Number(b.unsafe) - Number(a.unsafe) || b.count - a.count);
+    }
+}
+
+function editorPrefix(name: string): string | undefined {
+    const prefix = name.includes(":") ? name.slice(0, name.indexOf(":")) : undefined;
+    return prefix && EDITOR_PREFIXES.includes(prefix) ? prefix : undefined;
+}
+
+// ─── CSS ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Remove what CSS can load or run: @import rules, external url() references
+ * and legacy script hooks (expression(), behavior, -moz-binding).
+ */
+function sanitizeCss(css: string, log: RemovalLog): string {
+    let cleaned = css.replace(/@import[^;]*;?/gi, () => {
+        log.add("CSS @import", true);
+        return "";
+    });
+    cleaned = cleaned.replace(EXTERNAL_URL, () => {
+        log.add("external url() in CSS", true);
+        return "none";
+    });
+    cleaned = cleaned.replace(/(expression\s*\([^)]*\)|behavior\s*:[^;}]*|-moz-binding\s*:[^;}]*)/gi, () => {
+        log.add("CSS script hook", true);
+        return "";
+    });
+    return cleaned;
+}
+
+// ─── viewBox ─────────────────────────────────────────────────────────────────
+
+function formatNumber(n: number): string {
+    return String(Math.round(n * 1000) / 1000);
+}
+
+/** A plain or px length, as SVG width/height allow for the root element. */
+function pixelLength(value: string | undefined): number | undefined {
+    const match = value?.trim().match(/^([\d.]+)(px)?$/);
+    const n = match ? parseFloat(match[1]) : NaN;
+    return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * Rewrite the root viewBox as four space-separated numbers, replace an
+ * invalid one, and derive a missing one from width and height.
+ */
+function normalizeViewBox(root: Element, changes: string[]): void {
+    const original = root.attribs.viewBox;
+    if (original !== undefined) {
+        const parts = original.trim().split(/[\s,]+/).map(Number);
+        if (parts.length === 4 && parts.every(Number.isFinite) && parts[2] > 0 && parts[3] > 0) {
+            const normalized = parts.map(formatNumber).join(" ");
+            if (normalized !== original) changes.push(`viewBox "${original}" → "${normalized}"`);
+            root.attribs.viewBox = normalized;
+            return;
+        }
+        delete root.attribs.viewBox;
+        changes.push(`invalid viewBox "${original}" removed`);
+    }
+
+    const width = pixelLength(root.attribs.width);
+    const height = pixelLength(root.attribs.height);
+    if (width && height) {
+        root.attribs.viewBox = `0 0 ${formatNumber(width)} ${formatNumber(height)}`;
+        changes.push(`viewBox "${root.attribs.viewBox}" added from width and height`);
+    }
+}
+
+// ─── Sanitizer ───────────────────────────────────────────────────────────────
+
+function isLocalReference(value: string): boolean {
+    return value.trim().startsWith("#");
+}
+
+function sanitizeAttributes(el: Element, log: RemovalLog): void {
+    for (const [name, value] of Object.entries(el.attribs)) {
+        const lower = name.toLowerCase();
+        let removal: [string, boolean] | undefined;
+
+        if (lower.startsWith("on")) {
+            removal = [`${lower} attribute`, true];
+        } else if (name === "href" || name === "xlink:href") {
+            const allowed = isLocalReference(value) || (DATA_IMAGE_ELEMENTS.has(el.name) && DATA_IMAGE.test(value.trim()));
+            if (!allowed) removal = [/^\s*javascript:/i.test(value) ? "javascript: link" : "external reference", true];
+        } else if (editorPrefix(name)) {
+            removal = [`${editorPrefix(name)}:* editor data`, false];
+        } else if (name.startsWith("xmlns:") && EDITOR_PREFIXES.includes(name.slice(6))) {
+            removal = [`${name.slice(6)}:* editor data`, false];
+        } else if (name.startsWith("data-")) {
+            removal = ["data-* attribute", false];
+        } else if (!ALLOWED_ATTRIBUTES.has(name) && !name.startsWith("aria-") && name !== "role") {
+            removal = [`${name} attribute`, false];
+        } else if (name === "style") {
+            el.attribs.style = sanitizeCss(value, log);
+        } else if (value.search(EXTERNAL_URL) !== -1) {
+            removal = [`external url() in ${name}`, true];
+        }
+
+        if (removal) {
+            delete el.attribs[name];
+            log.add(...removal);
+        }
+    }
+}
+
+/**
+ * Clean an element's children in place (depth first), removing or unwrapping
+ * what isn't allowed.
+ */
+function sanitizeChildren($: cheerio.CheerioAPI, el: Element, log: RemovalLog): void {
+    const keepWhitespace = TEXT_ELEMENTS.has(el.name);
+
+    for (const child of [...el.children] as AnyNode[]) {
+        if (child.type === "comment") {
+            log.add("comment", false);
+            $(child).remove();
+        } else if (child.type === "text") {
+            if (!keepWhitespace && !child.data.trim()) $(child).remove();
+        } else if (child.type === "cdata") {
+            if (!keepWhitespace) $(child).remove();
+        } else if (child.type === "tag" || child.type === "script" || child.type === "style") {
+            const element = child as Element;
+            const prefix = editorPrefix(element.name);
+
+            if (prefix || CRUFT_ELEMENTS.has(element.name)) {
+                log.add(prefix ? `${prefix}:* editor data` : `<${element.name}>`, false);
+                $(element).remove();
+            } else if (UNWRAPPED_ELEMENTS.has(element.name)) {
+                log.add(`<${element.name}>`, element.name === "a");
+                sanitizeChildren($, element, log);
+                $(element).replaceWith([...element.children]);
+            } else if (!ALLOWED_ELEMENTS.has(element.name)) {
+                log.add(`<${element.name}>`, true);
+                $(element).remove();
+            } else {
+                sanitizeAttributes(element, log);
+                if (REFERENCING_ELEMENTS.has(element.name) && !element.attribs.href && !element.attribs["xlink:href"]) {
+                    // Its reference was removed, so it would draw nothing
+                    $(element).remove();
+                    continue;
+                }
+                if (element.name === "style") {
+                    $(element).text(sanitizeCss($(element).text(), log));
+                } else {
+                    sanitizeChildren($, element, log);
+                }
+                if ((element.name === "g" || element.name === "defs") && element.children.length === 0) {
+                    log.add(`empty <${element.name}>`, false);
+                    $(element).remove();
+                }
+            }
+        } else {
+            // Processing instructions and directives inside the document
+            log.add("processing instruction", true);
+            $(child).remove();
+        }
+    }
+}
+
+/**
+ * Sanitize and optimize an SVG document. Keeps the first <svg> element and
+ * drops everything around it (XML declaration, DOCTYPE, comments). Throws
+ * when the document has no <svg> element.
+ */
+export function sanitizeSvg(input: Buffer | string): SanitizedSvg {
+    const text = typeof input === "string" ? input : input.toString("utf-8");
+    const $ = cheerio.load(text, { xml: true });
+    const log = new RemovalLog();
+    const changes: string[] = [];
+
+    const root = $.root().children("svg").get(0) as Element | undefined;
+    if (!root) {
+        throw new Error("SVG has no <svg> root element");
+    }
+
+    for (const node of $.root().contents().get() as AnyNode[]) {
+        if (node === root) continue;
+        if (node.type === "directive") {
+            const isDeclaration = node.name.toLowerCase() === "?xml";
+            log.add(isDeclaration ? "XML declaration" : node.name.toLowerCase() === "!doctype" ? "DOCTYPE" : "processing instruction", !isDeclaration);
+        } else if (node.type === "comment") {
+            log.add("comment", false);
+        } else if (node.type !== "text") {
+            log.add("content outside <svg>", false);
+        }
+    }
+
+    sanitizeAttributes(root, log);
+    sanitizeChildren($, root, log);
+    if (!root.attribs.xmlns) root.attribs.xmlns = "http://www.w3.org/2000/svg";
+    normalizeViewBox(root, changes);
+
+    const buffer = Buffer.from($.xml(root));
+    return {
+        buffer,
+        report: { removed: log.list(), changes, bytesBefore: Buffer.byteLength(text), bytesAfter: buffer.length },
+    };
+}
+
+/**
+ * One-line summary, e.g. `removed 1 <script>, 2 onclick attributes, 3 comments`.
+ */
+export function describeSvgReport(report: SvgReport): string {
+    const removed = report.removed.map((r) => `${r.count} × ${r.item}${r.unsafe ? " ⚠️" : ""}`);
+    const parts = [removed.length > 0 ? `removed ${removed.join(", ")}` : "nothing to remove", ...report.changes];
+    return parts.join(" · ");
+}
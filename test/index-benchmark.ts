@@ -0,0 +1,173 @@
+/**
+ * Index Benchmark — Resolution and search against a 100k-company database
+ *
+ * Generates a synthetic company database file (deterministic, seeded), loads
+ * it as a company database layer and times index building, resolveCandidates
+ * and searchCompanies lookups, and an incremental edit. Exits non-zero when a
+ * lookup or the edit misses its target (see TARGETS).
+ *
+ * Run: npm run bench (or npx tsx test/index-benchmark.ts [companies])
+ */
+
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { performance } from "node:perf_hooks";
+
+import { configureCompanyDatabase, configureUserDatabase } from "../src/services/company-database.js";
+import { addCompany, getCategories, getCompanyCount, resolveCandidates, searchCompanies } from "../src/services/domain-resolver.js";
+
+const COMPANIES = Number(process.argv[2] ?? 100_000);
+const LOOKUPS = 2_000;
+
+/** Mean lookup times and the edit time to stay under, in milliseconds. */
+const TARGETS = {
+    lookup: 1,
+    edit: 5,
+};
+
+// ─── Synthetic Data ──────────────────────────────────────────────────────────
+
+let seed = 42;
+function random(): number {
+    // Mulberry32
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+function pick<T>(items: T[]): T {
+    return items[Math.floor(random() * items.length)];
+}
+
+// Onset + vowel + optional coda: about 3,600 syllables, so names share letters
+// the way real ones do rather than being drawn from a handful of fragments
+const ONSETS = ["b", "c", "d", "f", "g", "h", "j", "k", "l", "m", "n", "p", "r", "s", "t", "v", "w", "z", "br", "cl", "dr", "fl", "gr", "pl", "st", "tr", "sh", "ch", "qu", "sp"];
+const VOWELS = ["a", "e", "i", "o", "u", "y", "ai", "ea", "io", "ou"];
+const CODAS = ["", "", "", "n", "r", "x", "l", "s", "m", "ck", "nt", "st"];
+const SYLLABLES = ONSETS.flatMap((onset) => VOWELS.flatMap((vowel) => CODAS.map((coda) => onset + vowel + coda)));
+const WORDS = ["cloud", "labs", "data", "pay", "health", "systems", "analytics", "studio", "works", "ai", "security", "logistics", "bank", "energy", "media"];
+const CATEGORIES = Array.from({ length: 40 }, (_, i) => `Sector ${String.fromCharCode(65 + (i % 26))}${i >= 26 ? i : ""}`);
+
+function syntheticName(): string {
+    const base = Array.from({ length: 1 + Math.floor(random() * 3) }, () => pick(SYLLABLES)).join("");
+    return random() < 0.4 ? `${base} ${pick(WORDS)}` : base;
+}
+
+function typo(name: string): string {
+    const i = 1 + Math.floor(random() * (name.length - 2));
+    return random() < 0.5 ? name.slice(0, i) + name.slice(i + 1) : name.slice(0, i) + pick(["a", "e", "o", "x"]) + name.slice(i);
+}
+
+function generateDatabase(count: number): Record<string, { domain: string; aliases: string[]; category: string }> {
+    const companies: Record<string, { domain: string; aliases: string[]; category: string }> = {};
+    for (let i = 0; i < count; i++) {
+        const name = syntheticName();
+        const key = companies[name] ? `${name} ${i}` : name;
+        const aliases = random() < 0.3 ? [`${key} inc`] : [];
+        companies[key] = { domain: `${key.replace(/\s+/g, "")}.com`, aliases, category: pick(CATEGORIES) };
+    }
+    return companies;
+}
+
+// ─── Timing ──────────────────────────────────────────────────────────────────
+
+const misses: string[] = [];
+
+function check(label: string, ms: number, target: number): string {
+    if (ms < target) return "✅";
+    misses.push(`${label}: ${ms.toFixed(3)}ms (target < ${target}ms)`);
+    return "❌";
+}
+
+/** Print a lookup's timings and check its mean against the lookup target. */
+function summarize(label: string, samples: number[]): void {
+    const sorted = [...samples].sort((a, b) => a - b);
+    const at = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+    const mean = samples.reduce((sum, s) => sum + s, 0) / samples.length;
+    const mark = check(label, mean, TARGETS.lookup);
+    console.log(
+        `${mark} ${label.padEnd(28)} mean ${mean.toFixed(3)}ms · p50 ${at(0.5).toFixed(3)}ms · p95 ${at(0.95).toFixed(3)}ms · p99 ${at(0.99).toFixed(3)}ms`
+    );
+}
+
+async function time<T>(fn: () => T | Promise<T>): Promise<number> {
+    const started = performance.now();
+    await fn();
+    return performance.now() - started;
+}
+
+// ─── Main ────────────────────────────────────────────────────────────────────
+
+async function main() {
+    const dir = await mkdtemp(join(tmpdir(), "mcp-logo-bench-"));
+    try {
+        const companies = generateDatabase(COMPANIES);
+        const names = Object.keys(companies);
+        const file = join(dir, "companies.json");
+        await writeFile(file, JSON.stringify({ companies }));
+        configureUserDatabase(join(dir, "user.json"));
+
+        console.log(`\n📊 Index benchmark — ${COMPANIES.toLocaleString("en-US")} synthetic companies\n`);
+
+        const loadMs = await time(() => configureCompanyDatabase([file], { watch: false }));
+        const buildMs = await time(() => resolveCandidates("warm up", { offline: true }));
+        const heapMb = process.memoryUsage().heapUsed / 1024 / 1024;
+        console.log(`   Load + validate file         ${loadMs.toFixed(0)}ms`);
+        console.log(`   Merge + build index          ${buildMs.toFixed(0)}ms (heap ${heapMb.toFixed(0)} MB)`);
+        console.log();
+
+        const kinds: Record<string, () => string> = {
+            "exact name": () => pick(names),
+            "typo": () => typo(pick(names).split(" ")[0]),
+            "prefix": () => pick(names).slice(0, 5),
+            "extra words": () => `${pick(names)} ${pick(WORDS)}`,
+            "no match": () => `zz${pick(SYLLABLES)}qq`,
+            "domain": () => `https://www.${companies[pick(names)].domain}/about`,
+        };
+
+        // Warm up the JIT on queries of every kind before timing
+        for (const make of Object.values(kinds)) {
+            for (let i = 0; i < 50; i++) await resolveCandidates(make(), { offline: true });
+        }
+
+        for (const [kind, make] of Object.entries(kinds)) {
+            const queries = Array.from({ length: LOOKUPS / 5 }, make);
+            const samples: number[] = [];
+            for (const query of queries) samples.push(await time(() => resolveCandidates(query, { offline: true })));
+            summarize(`resolve (${kind})`, samples);
+        }
+        console.log();
+
+        const searchQueries = Array.from({ length: LOOKUPS / 2 }, () => pick([pick(names), typo(pick(names).split(" ")[0]), pick(names).slice(0, 4)]));
+        const searchSamples: number[] = [];
+        for (const query of searchQueries) searchSamples.push(await time(() => searchCompanies(query)));
+        summarize("search", searchSamples);
+        console.log();
+
+        const countSamples: number[] = [];
+        for (let i = 0; i < LOOKUPS / 2; i++) countSamples.push(await time(() => getCompanyCount() + getCategories().length));
+        summarize("count + categories", countSamples);
+        console.log();
+
+        // One edit: only the new entry is merged and indexed
+        await addCompany("benchmark corp", { domain: "benchmark.example", category: "Sector A" });
+        const updateMs = await time(() => resolveCandidates("benchmark corp", { offline: true }));
+        console.log(`${check("edit + incremental re-index", updateMs, TARGETS.edit)} ${"Edit + incremental re-index".padEnd(28)} ${updateMs.toFixed(1)}ms`);
+        console.log();
+    } finally {
+        await rm(dir, { recursive: true, force: true });
+    }
+
+    if (misses.length > 0) {
+        console.log(`❌ ${misses.length} target(s) missed:\n${misses.map((miss) => `   ${miss}`).join("\n")}\n`);
+        process.exit(1);
+    }
+    console.log("✅ All targets met\n");
+}
+
+main().catch((err) => {
+    console.error("Benchmark failed:", err);
+    process.exit(1);
+});
@@ -7,10 +7,95 @@
  * Run: npm test (or npx tsx test/smoke-test.ts)
  */
 
-import { resolveDomain, searchCompanies, getCategories, getCompanyCount } from "../src/services/domain-resolver.js";
-import { fetchLogo, summarizeFetchResult } from "../src/services/logo-fetcher.js";
-import { validateImage } from "../src/services/image-validator.js";
-import { mkdir, writeFile, stat } from "node:fs/promises";
+import {
+    resolveDomain,
+    resolveCandidates,
+    parseDomainInput,
+    searchCompanies,
+    searchCompanyPage,
+    listCategoryCounts,
+    getCategories,
+    getCompany,
+    getCompanyCount,
+    listCompanies,
+    addCompany,
+    updateCompany,
+    removeCompany,
+    exportCompanyDatabase,
+} from "../src/services/domain-resolver.js";
+import {
+    configureCompanyDatabase,
+    configureUserDatabase,
+    getCompanyDatabaseGeneration,
+    getCompanyDatabaseStatus,
+} from "../src/services/company-database.js";
+import { matchSiteName, verifyDomain } from "../src/services/domain-verifier.js";
+import { acronymOf, matchName, maxEdits, normalizeName, phoneticKey, prepareName } from "../src/services/name-matcher.js";
+import { CompanyIndex } from "../src/services/company-index.js";
+import { fetchLogo, requestOptionsFor, selectPinnedLogos, summarizeCandidates, summarizeFetchResult } from "../src/services/logo-fetcher.js";
+import { describeImageMetadata, validateImage } from "../src/services/image-validator.js";
+import { describeSvgReport, sanitizeSvg } from "../src/services/svg-sanitizer.js";
+import { convertImage, createIcon, decodeImage, encodeImage, parseHexColor, rasterizeSvg } from "../src/services/image-converter.js";
+import {
+    hammingDistance,
+    hashImage,
+    hashLogo,
+    isLowDetail,
+    MAX_DHASH_DISTANCE,
+    MAX_PHASH_DISTANCE,
+} from "../src/services/perceptual-hash.js";
+import { contrastingTextColor, describePalette, extractLogoPalette, extractPalette } from "../src/services/brand-colors.js";
+import { classifyImage, describeVariant, toVariantInfo } from "../src/services/logo-variant.js";
+import {
+    describeDisagreement,
+    describeDuplicate,
+    findAssetDuplicates,
+    findDuplicateLogos,
+    findSourceDisagreement,
+} from "../src/services/logo-dedup.js";
+import {
+    configurePlaceholders,
+    detectPlaceholder,
+    getPlaceholderBlocklist,
+    getPlaceholderConfig,
+    loadPlaceholderConfigFromEnv,
+} from "../src/services/placeholder-detector.js";
+import { fitToSquare, resizeImage } from "../src/services/image-resizer.js";
+import { scoreLogo } from "../src/services/logo-scorer.js";
+import { extractLogoCandidates, extractManifestIcons, sortCandidates } from "../src/services/logo-discovery.js";
+import {
+    configureSource,
+    getActiveSources,
+    listSources,
+    loadSourceConfigFromEnv,
+    parseSourceConfig,
+    registerSource,
+    resetSourceConfig,
+    setSourceOrder,
+    unregisterSource,
+} from "../src/services/source-registry.js";
+import {
+    configureCache,
+    flushCache,
+    getCacheConfig,
+    getCachedLogo,
+    getCacheStats,
+    listCacheEntries,
+    purgeCache,
+    storeLogo,
+} from "../src/services/logo-cache.js";
+import { configureOffline, loadLogoPack, writeLogoPack } from "../src/services/logo-pack.js";
+import {
+    downloadLogoOutputSchema,
+    toAttemptsOutput,
+    toImageInfoOutput,
+    toResolvedOutput,
+} from "../src/output-schemas.js";
+import { listAssetFiles, parseAssetFilename, sanitizeFilename, sizeSuffix } from "../src/assets.js";
+import type { ImageInfo } from "../src/services/image-validator.js";
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile, stat } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { tmpdir } from "node:os";
 import { join } from "node:path";
 
 // ─── Test Utilities ──────────────────────────────────────────────────────────
@@ -28,6 +113,25 @@ function assert(condition: boolean, message: string): void {
     }
 }
 
+type Shape = (x: number, y: number) => boolean;
+
+/** Test logos with some structure, unlike flat squares: a ring and a set of bars. */
+const RING: Shape = (x, y) => Math.abs(Math.hypot(x - 0.5, y - 0.5) - 0.3) < 0.1;
+const BARS: Shape = (x, y) => y > 0.2 && y < 0.8 && Math.floor(x * 5) % 2 === 0;
+
+/**
+ * Draw a shape (given in 0–1 coordinates) in blue on transparency, at any size.
+ */
+function drawShape(size: number, inside: Shape): { width: number; height: number; data: Uint8Array } {
+    const data = new Uint8Array(size * size * 4);
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            if (inside((x + 0.5) / size, (y + 0.5) / size)) data.set([30, 90, 200, 255], (y * size + x) * 4);
+        }
+    }
+    return { width: size, height: size, data };
+}
+
 function section(title: string): void {
     console.log(`\n${"═".repeat(60)}`);
     console.log(`  ${title}`);
@@ -74,6 +178,207 @@ async function testDomainResolution(): Promise<void> {
     assert(unknown.confidence === "live-search" || unknown.confidence === "inferred", `"random company" → live or inferred (${unknown.domain})`);
 }
 
+// ─── Test: Candidate Resolution ──────────────────────────────────────────────
+
+async function testCandidateResolution(): Promise<void> {
+    section("🎯 Candidate Resolution");
+
+    const ms = await resolveCandidates("ms", { offline: true });
+    assert(ms.candidates[0].company === "microsoft" && ms.candidates[0].score === 95, `"ms" ranks the alias match first (${ms.candidates[0].score} pts)`);
+    assert(ms.candidates.length === 1, `  ...and two-letter inputs pick up no fuzzy alternatives`);
+    assert(ms.candidates[0].reason === 'alias "ms"', `  reason: ${ms.candidates[0].reason}`);
+    assert(/also part of the name of "teams"/.test(ms.ambiguity ?? ""), `  ...but is flagged: ${ms.ambiguity}`);
+
+    // Clear matches are still flagged when short, alias-only or a word of other names
+    for (const input of ["box", "unity", "epic", "ms"]) {
+        const { resolved, ambiguity } = await resolveCandidates(input, { offline: true });
+        assert(!!ambiguity, `"${input}" → ${resolved.domain} is ambiguous: ${ambiguity}`);
+    }
+    assert(/only an alias/.test((await resolveCandidates("x", { offline: true })).ambiguity ?? ""), `Alias-only matches are flagged ("x" → twitter)`);
+    assert(!(await resolveCandidates("hubspot", { offline: true })).ambiguity, `A distinctive exact name is not ambiguous`);
+
+    // Fuzzy matches under the resolve threshold still resolve offline, but are
+    // flagged, so strict downloads (which refuse any ambiguity) don't take them
+    for (const input of ["salesforcexyz", "kubernetesxyz"]) {
+        const { candidates, ambiguity } = await resolveCandidates(input, { offline: true });
+        assert(candidates[0].score < 70 && /only loosely matches/.test(ambiguity ?? ""), `Strict mode refuses "${input}" (${candidates[0].company}, ${candidates[0].score} pts): ${ambiguity}`);
+    }
+
+    const typo = await resolveCandidates("shoppify", { offline: true });
+    assert(typo.resolved.company === (await resolveDomain("shoppify", { offline: true })).company, `resolveDomain returns the top candidate`);
+
+    const close = await resolveCandidates("git", { offline: true });
+    assert(!!close.ambiguity && close.candidates[0].score - close.candidates[1].score <= 10, `Close fuzzy scores are ambiguous: ${close.ambiguity}`);
+
+    const guess = await resolveCandidates("zzqx widgets", { offline: true });
+    assert(guess.resolved.confidence === "inferred" && /only a guess/.test(guess.ambiguity ?? ""), `Inferred domains are flagged`);
+
+    const partial = await resolveCandidates("stripepay", { offline: true });
+    assert(partial.candidates.some((c) => c.company === "stripe" && c.confidence === "partial"), `Partial matches are suggested`);
+    assert(partial.resolved.confidence === "inferred", `  ...but never resolved to`);
+
+    assert((await resolveCandidates("git", { offline: true, limit: 2 })).candidates.length === 2, `limit caps the candidate list`);
+}
+
+// ─── Test: Domain Input ──────────────────────────────────────────────────────
+
+async function testDomainInput(): Promise<void> {
+    section("🔗 Domain, URL & Email Input");
+
+    const domain = await resolveDomain("shopify.com", { offline: true });
+    assert(domain.domain === "shopify.com" && domain.confidence === "domain", `"shopify.com" → ${domain.domain} (${domain.confidence})`);
+    assert(domain.company === "shopify", `  named after its database entry ("${domain.company}")`);
+
+    const url = await resolveDomain("https://www.stripe.com/pricing?ref=x", { offline: true });
+    assert(url.domain === "stripe.com" && url.matchedName === "www.stripe.com", `URL → ${url.domain} (host ${url.matchedName})`);
+
+    const email = await resolveDomain("jane@acme.io", { offline: true });
+    assert(email.domain === "acme.io" && email.company === "acme" && email.category === "Unknown", `"jane@acme.io" → ${email.domain} (company "${email.company}")`);
+
+    assert(parseDomainInput("blog.example.co.uk")?.domain === "example.co.uk", `Subdomains reduce to the registrable domain (example.co.uk)`);
+    assert(parseDomainInput("acme.github.io")?.domain === "acme.github.io", `Private suffixes keep the tenant (acme.github.io)`);
+    assert(parseDomainInput("mailto:bob@mail.bbc.co.uk")?.kind === "email", `mailto: links are email addresses`);
+
+    for (const name of ["node.js", "stripe", "localhost", "10.0.0.1", "acme corp.com"]) {
+        assert(parseDomainInput(name) === null, `"${name}" is not taken as a domain`);
+    }
+    assert((await resolveDomain("node.js", { offline: true })).domain === "nodejs.org", `  ...so "node.js" still matches by name`);
+}
+
+// ─── Test: Name Matching ─────────────────────────────────────────────────────
+
+interface NameMatchingCorpus {
+    resolve: Array<{ input: string; expected: string | null; note: string }>;
+    ambiguous: Array<{ input: string; note: string }>;
+    search: Array<{ query: string; first?: string; includes?: string[]; note: string }>;
+}
+
+async function testNameMatching(): Promise<void> {
+    section("🧮 Name Matching");
+
+    assert(maxEdits(3) === 0 && maxEdits(5) === 1 && maxEdits(8) === 2 && maxEdits(12) === 3, `Allowed edits scale with length (3→0, 5→1, 8→2, 12→3)`);
+    assert(matchName("ue", "vue") === null && matchName("ms", "mux") === null, `Short inputs need an exact match`);
+    assert(acronymOf("google cloud platform") === "gcp" && acronymOf("google") === "", `Acronyms come from multi-word names`);
+    assert(phoneticKey("photoshop") === phoneticKey("fotoshop"), `"photoshop" and "fotoshop" share a phonetic key (${phoneticKey("photoshop")})`);
+    assert(matchName("gcp", "google cloud platform")?.kind === "acronym", `"gcp" matches "google cloud platform" as an acronym`);
+    assert(matchName("cloud", "google cloud")?.kind === "contains", `One shared word is only containment`);
+
+    // Regression corpus: expected resolutions, ambiguous inputs and search rankings
+    const corpus: NameMatchingCorpus = JSON.parse(
+        await readFile(join(process.cwd(), "test", "name-matching-corpus.json"), "utf-8")
+    );
+
+    let resolvedOk = 0;
+    for (const { input, expected, note } of corpus.resolve) {
+        const { resolved, candidates } = await resolveCandidates(input, { offline: true });
+        const actual = resolved.confidence === "inferred" ? null : resolved.company;
+        if (actual === expected) {
+            resolvedOk++;
+        } else {
+            assert(false, `"${input}" (${note}) → ${actual ?? "no match"}, expected ${expected ?? "no match"} [${candidates[0]?.reason}]`);
+        }
+    }
+    assert(resolvedOk === corpus.resolve.length, `Corpus: ${resolvedOk}/${corpus.resolve.length} inputs resolve as expected`);
+
+    for (const { input, note } of corpus.ambiguous) {
+        const { ambiguity } = await resolveCandidates(input, { offline: true });
+        assert(!!ambiguity, `Corpus: "${input}" is ambiguous (${note})`);
+    }
+
+    for (const { query, first, includes = [], note } of corpus.search) {
+        const names = searchCompanies(query).map((r) => r.name);
+        const ok = (first === undefined || names[0] === first) && includes.every((name) => names.includes(name));
+        assert(ok, `Corpus: search "${query}" (${note}) → ${names.slice(0, 4).join(", ")}`);
+    }
+}
+
+// ─── Test: Company Index ─────────────────────────────────────────────────────
+
+function testCompanyIndex(): void {
+    section("🗂️  Company Index");
+
+    const database = Object.fromEntries(listCompanies().map(({ name, ...entry }) => [name, entry]));
+    const index = CompanyIndex.build(database);
+    assert(index.size === getCompanyCount(), `Index holds all ${index.size} companies`);
+
+    // The index may only skip companies the matcher would not score at all
+    const queries = [
+        "shoppify", "slak", "gcp", "google cloud platform console", "hubsp", "kwikbooks", "salesfroce", "git",
+        "stripe payments", "stripepay", "micro soft", "amazon web services", "cloud", "pay", "aaaa", "vs code",
+        "adobe xd", "figmaa", "linkdin", "notion so", "ms", "ue", "xq",
+    ];
+    const missed: string[] = [];
+    for (const raw of queries) {
+        const query = prepareName(normalizeName(raw));
+        const found = new Set(index.candidates(query).map(({ key }) => key));
+        for (const [key, entry] of Object.entries(database)) {
+            const names = [key, ...entry.aliases.map(normalizeName)];
+            if (!found.has(key) && names.some((name) => matchName(query, name))) missed.push(`${raw} → ${key}`);
+        }
+    }
+    assert(missed.length === 0, `Candidates cover every brute-force match for ${queries.length} queries${missed.length ? `: missed ${missed.join(", ")}` : ""}`);
+    assert(index.candidates(prepareName("shoppify")).length < 10, `  ...while skipping most of the database (${index.candidates(prepareName("shoppify")).length} for "shoppify")`);
+
+    // Incremental updates
+    const ordinal = index.ordinal("stripe");
+    index.set("stripe", { ...database.stripe, aliases: ["stripe payments inc"] });
+    assert(index.candidates(prepareName("stripe payments inc")).some(({ key }) => key === "stripe"), `set() re-indexes a changed entry`);
+    assert(index.ordinal("stripe") === ordinal, `  ...keeping its position`);
+
+    index.set("zzqxwidgets", { domain: "zzqx.example", aliases: ["zq widgets"], category: "Widgets" });
+    assert(index.candidates(prepareName("zzqxwidgetz"))[0]?.key === "zzqxwidgets", `set() adds a new entry`);
+    assert(index.inCategory("widgets").includes("zzqxwidgets"), `  ...and its category`);
+    assert(index.byDomain("zzqx.example") === "zzqxwidgets", `  ...and its domain`);
+
+    const changes = index.sync(database);
+    assert(changes.added === 0 && changes.updated === 1 && changes.removed === 1, `sync() applies only the differences (${JSON.stringify(changes)})`);
+    assert(index.candidates(prepareName("zq widgets")).length === 0 && !index.listCategories().has("widgets"), `  ...and removes deleted entries and empty categories`);
+    assert(index.byDomain("zzqx.example") === undefined && index.byDomain("stripe.com") === "stripe", `  ...and their domains`);
+}
+
+// ─── Test: Domain Verification ───────────────────────────────────────────────
+
+async function testDomainVerification(): Promise<void> {
+    section("🔐 Domain Verification");
+
+    assert(matchSiteName("Stripe", "Stripe | Financial Infrastructure for the Internet") === 1, `Site name containing the company matches fully`);
+    assert(matchSiteName("Acme Rockets Inc", "Acme Rockets") === 1, `Company suffixes are ignored`);
+    assert(matchSiteName("Hubspot", "HubSpoot | CRM") >= 0.8, `Near-miss site names match closely (${matchSiteName("Hubspot", "HubSpoot | CRM")})`);
+    assert(matchSiteName("Zzqx Widgets", "Domain for sale") < 0.3, `Parked-domain titles do not match (${matchSiteName("Zzqx Widgets", "Domain for sale")})`);
+
+    const homepage = (html: string) => async () =>
+        new Response(html, { status: 200, headers: { "content-type": "text/html; charset=utf-8" } });
+    const resolves = async () => ({ address: "192.0.2.1", family: 4 });
+
+    const good = await verifyDomain("acme.example", "Acme", {
+        lookup: resolves,
+        fetch: homepage(`<html><head><title>Welcome</title><meta property="og:site_name" content="Acme"></head></html>`),
+    });
+    assert(good.verdict === "verified" && good.score === 100, `DNS + HTTPS + og:site_name match → ${good.verdict} (${good.score}/100)`);
+    assert(good.siteName === "Acme", `  the best-matching site name is kept ("${good.siteName}")`);
+
+    const parked = await verifyDomain("zzqxwidgets.example", "Zzqx Widgets", {
+        lookup: resolves,
+        fetch: homepage("<title>This domain is for sale</title>"),
+    });
+    assert(parked.verdict === "unverified" && parked.https, `Reachable but unrelated site → ${parked.verdict} (${parked.score}/100)`);
+
+    const related = await verifyDomain("acmerockets.example", "Acme Rockets", {
+        lookup: resolves,
+        fetch: homepage("<title>Acme — Space Launch Services</title>"),
+    });
+    assert(related.verdict === "plausible", `Partly matching site name → ${related.verdict} (${related.score}/100, ${related.checks.at(-1)})`);
+
+    const missing = await verifyDomain("nowhere.invalid", "Nowhere", {
+        lookup: async () => { throw new Error("ENOTFOUND"); },
+        fetch: homepage("<title>Nowhere</title>"),
+    });
+    assert(missing.verdict === "unverified" && !missing.dns && !missing.https && missing.score === 0, `Unresolvable domain → ${missing.verdict} (${missing.checks[0]})`);
+
+    const offline = await resolveCandidates("zzqx widgets", { offline: true });
+    assert(offline.resolved.verification === undefined, `Offline resolution skips verification`);
+}
+
 // ─── Test: Company Search ────────────────────────────────────────────────────
 
 function testCompanySearch(): void {
@@ -94,6 +399,53 @@ function testCompanySearch(): void {
     const count = getCompanyCount();
     assert(count >= 200, `${count} companies in database`);
 
+    // Pages follow on from each other through the cursor
+    const firstPage = searchCompanyPage("", { limit: 10 });
+    const secondPage = searchCompanyPage("", { limit: 10, cursor: firstPage.nextCursor });
+    assert(firstPage.total === count && firstPage.results.length === 10, `Empty query lists all ${firstPage.total} companies, 10 per page`);
+    assert(
+        secondPage.offset === 10 && secondPage.results[0].name === searchCompanyPage("", { offset: 10, limit: 1 }).results[0].name,
+        `Cursor continues at offset ${secondPage.offset}, same as offset: 10`
+    );
+    assert(
+        firstPage.results.every((r, i) => i === 0 || firstPage.results[i - 1].name < r.name),
+        `Browsing without a query lists by name`
+    );
+    const lastPage = searchCompanyPage("", { offset: count - 3, limit: 10 });
+    assert(lastPage.results.length === 3 && lastPage.nextCursor === undefined, `Last page has no nextCursor`);
+    const stalled = [0, -5].map((limit) => searchCompanyPage("", { limit }));
+    assert(stalled.every((p) => p.results.length === 0 && p.nextCursor === undefined), `Empty pages (limit 0 or negative) have no nextCursor`);
+
+    let rejected = "";
+    try {
+        searchCompanyPage("cloud", { cursor: firstPage.nextCursor });
+    } catch (err) {
+        rejected = err instanceof Error ? err.message : String(err);
+    }
+    assert(rejected.includes("different search"), `Cursor from another search is rejected`);
+
+    // Several categories, and facets counted before the filter
+    const multi = searchCompanyPage("", { categories: ["crm", "Payments"], limit: 500 });
+    assert(
+        multi.total > 0 && multi.results.every((r) => ["CRM", "Payments"].includes(r.category)),
+        `categories ["crm", "Payments"] → ${multi.total} companies, all in one of them`
+    );
+    const cloud = searchCompanyPage("cloud", { categories: ["Cloud"] });
+    const cloudFacets = cloud.facets.reduce((sum, f) => sum + f.count, 0);
+    assert(
+        cloudFacets > cloud.total && cloud.facets.some((f) => f.category === "Cloud" && f.count === cloud.total),
+        `Facets for "cloud" cover ${cloudFacets} matches across ${cloud.facets.length} categories, ${cloud.total} in Cloud`
+    );
+
+    const byName = searchCompanyPage("pay", { sort: "name" }).results.map((r) => r.name);
+    assert(byName.join() === [...byName].sort().join(), `sort: "name" → ${byName.slice(0, 3).join(", ")}...`);
+
+    const categoryCounts = listCategoryCounts();
+    assert(
+        categoryCounts.length === categories.length && categoryCounts.reduce((sum, c) => sum + c.count, 0) === count,
+        `listCategoryCounts → ${categoryCounts.length} categories adding up to ${count} companies`
+    );
+
     console.log(`  📂 Categories: ${categories.join(", ")}`);
 }
 
@@ -133,6 +485,1107 @@ function testImageValidation(): void {
     assert(tinyResult.valid === false, `Tiny buffer (10 bytes) → rejected`);
 }
 
+// ─── Test: SVG Sanitizer ────────────────────────────────────────────────────
+
+async function testSvgSanitizer(): Promise<void> {
+    section("🧼 SVG Sanitizer");
+
+    const hostile = [
+        `<?xml version="1.0"?>`,
+        `<!DOCTYPE svg [<!ENTITY boom "boom">]>`,
+        `<!-- Generator: Sketch -->`,
+        `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" xmlns:sodipodi="urn:s" width="48" height="24" onload="alert(1)">`,
+        `<metadata>cruft</metadata><sodipodi:namedview pagecolor="#fff"/>`,
+        `<style>@import url(https://evil.example/x.css); .a { fill: url(#grad) } .b { fill: url(https://evil.example/p) }</style>`,
+        `<script>alert(1)</script>`,
+        `<foreignObject><div xmlns="http://www.w3.org/1999/xhtml">hi</div></foreignObject>`,
+        `<a href="javascript:alert(1)"><path d="M0 0h10v10z" onclick="steal()" data-name="Layer 1" fill="url(#grad)"/></a>`,
+        `<use xlink:href="https://evil.example/sprite.svg#logo"/>`,
+        `<image href="data:image/png;base64,iVBORw0KGgo="/>`,
+        `<g>  </g>`,
+        `<text x="1">Acme  Corp</text>`,
+        `</svg>`,
+    ].join("\n");
+
+    const { buffer, report } = sanitizeSvg(hostile);
+    const out = buffer.toString();
+    const removed = (item: string) => report.removed.find((r) => r.item === item);
+
+    assert(!/script|onload|onclick|foreignObject|javascript:|evil\.example|DOCTYPE|ENTITY/i.test(out), `Scripts, handlers, foreignObject and external references are removed`);
+    assert(out.includes('d="M0 0h10v10z"') && out.includes('fill="url(#grad)"'), `Shapes and local url(#id) references are kept`);
+    assert(out.includes("<text") && out.includes("Acme  Corp"), `Text keeps its whitespace`);
+    assert(out.includes('href="data:image/png;base64,'), `Embedded raster image is kept`);
+    assert(!/metadata|sodipodi|data-name|<!--|<\?xml|<g/.test(out), `Metadata, editor data, comments and empty groups are stripped`);
+    assert(
+        removed("<script>")?.unsafe === true && removed("onload attribute")?.unsafe === true && removed("comment")?.unsafe === false,
+        `Report: ${report.removed.filter((r) => r.unsafe).length} unsafe kinds, ${report.removed.filter((r) => !r.unsafe).length} cruft kinds`
+    );
+    assert(out.includes('viewBox="0 0 48 24"') && report.changes.length === 1, `Missing viewBox added from width/height`);
+    assert(report.bytesAfter < report.bytesBefore, `Optimized ${report.bytesBefore} B → ${report.bytesAfter} B`);
+    assert(describeSvgReport(report).startsWith("removed "), `Summary: ${describeSvgReport(report).slice(0, 60)}...`);
+
+    const normalized = sanitizeSvg(`<svg viewBox="0,0, 24.000 24"><path d="M1 1h2"/></svg>`);
+    assert(normalized.buffer.toString().includes('viewBox="0 0 24 24"') && normalized.report.removed.length === 0, `viewBox "0,0, 24.000 24" → "0 0 24 24"`);
+
+    let threw = false;
+    try {
+        sanitizeSvg(`<?xml version="1.0"?><html/>`);
+    } catch {
+        threw = true;
+    }
+    assert(threw, `Document without an <svg> element is rejected`);
+
+    // Every SVG result is sanitized, whatever it came from
+    const dir = await mkdtemp(join(tmpdir(), "logo-svg-"));
+    try {
+        await writeFile(join(dir, "evil.svg"), hostile);
+        await writeFile(join(dir, "db.yaml"), `companies:\n  evilcorp:\n    domain: evil.example\n    category: Partners\n    logos:\n      - { src: ./evil.svg }\n`);
+        configureCompanyDatabase([join(dir, "db.yaml")], { watch: false });
+
+        const result = await fetchLogo("evil.example", "evilcorp", 128, { offline: true });
+        const fetched = result.logo?.buffer.toString() ?? "";
+        assert(
+            result.success && !fetched.includes("<script") && result.logo?.svg?.removed.some((r) => r.unsafe) === true,
+            `Fetched SVG logo is sanitized and carries the report`
+        );
+        assert(result.logo?.imageInfo.sizeBytes === result.logo?.buffer.length, `Image info reflects the sanitized bytes`);
+        assert(summarizeFetchResult(result).includes("SVG sanitized: removed"), `Report appears in the fetch summary`);
+    } finally {
+        configureCompanyDatabase([]);
+        await rm(dir, { recursive: true, force: true });
+    }
+}
+
+// ─── Test: Image Metadata ────────────────────────────────────────────────────
+
+async function testImageMetadata(): Promise<void> {
+    section("📐 Image Metadata");
+
+    // Noisy pixels so even compressed formats clear the 100-byte minimum
+    const image = { width: 40, height: 24, data: Uint8Array.from({ length: 40 * 24 * 4 }, (_, i) => (i * 37) & 0xff) };
+
+    const png = validateImage(await encodeImage(image, "png")).info!;
+    assert(png.width === 40 && png.height === 24 && png.bitDepth === 32 && png.hasAlpha === true, `PNG IHDR → ${describeImageMetadata(png)}`);
+
+    const jpg = validateImage(await encodeImage(image, "jpg")).info!;
+    assert(jpg.width === 40 && jpg.height === 24 && jpg.bitDepth === 24 && jpg.hasAlpha === false, `JPEG SOF → ${describeImageMetadata(jpg)}`);
+
+    const webp = validateImage(await encodeImage(image, "webp")).info!;
+    assert(webp.width === 40 && webp.height === 24, `WebP → ${describeImageMetadata(webp)}`);
+
+    const pngBuffer = await encodeImage(image, "png");
+    const ico = (await createIcon(pngBuffer, png, [16, 32, 64])).imageInfo;
+    assert(ico.width === 64 && ico.frameCount === 3 && ico.hasAlpha === true, `ICO directory → ${describeImageMetadata(ico)}`);
+
+    // Two-frame GIF89a, 10×20, 4-colour palette, transparent first frame
+    const frame = [0x21, 0xf9, 0x04, 0x01, 0, 0, 0, 0, 0x2c, 0, 0, 0, 0, 10, 0, 20, 0, 0, 0x02, 0x02, 0x4c, 0x01, 0x00];
+    const gifBuffer = Buffer.concat([
+        Buffer.from("GIF89a", "ascii"),
+        Buffer.from([10, 0, 20, 0, 0x81, 0, 0, ...new Array(12).fill(0), ...frame, ...frame, 0x3b]),
+        Buffer.alloc(60),
+    ]);
+    const gif = validateImage(gifBuffer).info!;
+    assert(gif.width === 10 && gif.height === 20 && gif.frameCount === 2 && gif.hasAlpha === true, `GIF → ${describeImageMetadata(gif)}`);
+
+    // 24-bit top-down BMP, 12×7
+    const bmpBuffer = Buffer.alloc(120);
+    bmpBuffer.write("BM", 0, "ascii");
+    bmpBuffer.writeUInt32LE(40, 14);
+    bmpBuffer.writeInt32LE(12, 18);
+    bmpBuffer.writeInt32LE(-7, 22);
+    bmpBuffer.writeUInt16LE(1, 26);
+    bmpBuffer.writeUInt16LE(24, 28);
+    const bmp = validateImage(bmpBuffer).info!;
+    assert(bmp.width === 12 && bmp.height === 7 && bmp.bitDepth === 24, `BMP DIB header → ${describeImageMetadata(bmp)}`);
+
+    const svgPadding = "<rect/>".repeat(20);
+    const viewBoxSvg = validateImage(Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 120 40">${svgPadding}</svg>`)).info!;
+    assert(viewBoxSvg.width === 120 && viewBoxSvg.height === 40, `SVG viewBox → ${describeImageMetadata(viewBoxSvg)}`);
+
+    const sizedSvg = validateImage(Buffer.from(`<svg width="64px" height='32' viewBox="0 0 120 40" xmlns="http://www.w3.org/2000/svg">${svgPadding}</svg>`)).info!;
+    assert(sizedSvg.width === 64 && sizedSvg.height === 32, `SVG width/height → ${describeImageMetadata(sizedSvg)}`);
+
+    // Magic bytes followed by zeros: still valid, but no dimensions
+    const truncated = validateImage(Buffer.from([0x89, 0x50, 0x4e, 0x47, ...new Array(200).fill(0)])).info!;
+    assert(truncated.width === undefined, `Zeroed PNG header → ${describeImageMetadata(truncated)}`);
+}
+
+// ─── Test: Format Conversion ─────────────────────────────────────────────────
+
+async function testFormatConversion(): Promise<void> {
+    section("🔄 Format Conversion");
+
+    // 32×32 image: left half opaque red, right half fully transparent
+    const width = 32;
+    const height = 32;
+    const data = new Uint8Array(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width / 2; x++) {
+            data.set([255, 0, 0, 255], (y * width + x) * 4);
+        }
+    }
+
+    const png = await encodeImage({ width, height, data }, "png");
+    const pngInfo = validateImage(png).info!;
+    assert(pngInfo.format === "PNG", `Encoded source → ${pngInfo.format}`);
+
+    const unchanged = await convertImage(png, pngInfo, "png");
+    assert(unchanged.converted === false && unchanged.buffer === png, `PNG → png keeps the original bytes`);
+
+    for (const format of ["jpg", "webp", "ico"] as const) {
+        const result = await convertImage(png, pngInfo, format, { background: parseHexColor("#00ff00") });
+        const info = validateImage(result.buffer).info;
+        assert(result.converted && info?.extension === format, `PNG → ${format}: ${info?.format} (${result.buffer.length} bytes)`);
+
+        const decoded = await decodeImage(result.buffer, result.imageInfo);
+        assert(decoded.width === width && decoded.height === height, `  ${format} round-trips at ${decoded.width}×${decoded.height}`);
+
+        if (format === "jpg") {
+            const [r, g, b] = decoded.data.subarray((width - 1) * 4, width * 4);
+            assert(r < 40 && g > 215 && b < 40, `  transparency flattened onto #00ff00 (rgb ${r},${g},${b})`);
+        }
+    }
+
+    // 120×40 SVG: opaque red left half, half-transparent blue right half
+    const svg = Buffer.from(
+        `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 120 40">` +
+        `<rect width="60" height="40" fill="#ff0000"/><rect x="60" width="60" height="40" fill="#0000ff" fill-opacity="0.5"/></svg>`
+    );
+    const svgInfo = validateImage(svg).info!;
+
+    const raster = await rasterizeSvg(svg, 96);
+    const pixel = (image: { width: number; data: Uint8Array }, x: number, y: number) => Array.from(image.data.subarray((y * image.width + x) * 4, (y * image.width + x) * 4 + 4));
+    assert(raster.width === 96 && raster.height === 32, `SVG rasterized at 96px keeps its 3:1 aspect ratio (${raster.width}×${raster.height})`);
+    assert(pixel(raster, 10, 16).join() === "255,0,0,255" && pixel(raster, 80, 16).join() === "0,0,255,128", `  straight alpha preserved (${pixel(raster, 80, 16).join(",")})`);
+
+    const svgPng = await convertImage(svg, svgInfo, "png", { size: 64 });
+    const svgPixels = await decodeImage(svgPng.buffer, svgPng.imageInfo);
+    assert(svgPng.converted && svgPng.imageInfo.width === 64 && svgPng.imageInfo.height === 64, `SVG → png at 64px → ${describeImageMetadata(svgPng.imageInfo)}`);
+    assert(pixel(svgPixels, 0, 0)[3] === 0 && pixel(svgPixels, 10, 32).join() === "255,0,0,255", `  letterboxed on a transparent square`);
+
+    const svgJpg = await convertImage(svg, svgInfo, "jpg", { size: 64, background: parseHexColor("#ffffff") });
+    const [jr, jg, jb] = pixel(await decodeImage(svgJpg.buffer, svgJpg.imageInfo), 50, 32);
+    assert(svgJpg.imageInfo.format === "JPEG" && jr > 100 && jr < 155 && jb > 235, `  SVG → jpg flattens transparency (rgb ${jr},${jg},${jb})`);
+
+    const svgIcon = await createIcon(svg, svgInfo, [16, 32]);
+    assert(svgIcon.imageInfo.format === "ICO" && svgIcon.buffer.readUInt16LE(4) === 2, `  SVG → 2-entry ICO`);
+
+    const svgError = await convertImage(Buffer.from("<svg"), svgInfo, "png", { size: 64 }).catch((err: Error) => err.message);
+    assert(typeof svgError === "string" && svgError.startsWith("Cannot rasterize SVG"), `Broken SVG → ${svgError}`);
+}
+
+// ─── Test: Resizing ──────────────────────────────────────────────────────────
+
+async function testResizing(): Promise<void> {
+    section("📐 Resizing");
+
+    // 64×32 opaque blue/white checkerboard (1px cells)
+    const width = 64;
+    const height = 32;
+    const data = new Uint8Array(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+        const x = i % width;
+        const y = Math.floor(i / width);
+        data.set((x + y) % 2 === 0 ? [0, 0, 255, 255] : [255, 255, 255, 255], i * 4);
+    }
+    const source = { width, height, data };
+
+    const halved = resizeImage(source, 32, 16);
+    const [r, g, b] = halved.data.subarray(10 * 4 + 8 * 32 * 4);
+    assert(halved.width === 32 && halved.height === 16, `64×32 → ${halved.width}×${halved.height}`);
+    assert(Math.abs(r - 128) < 20 && Math.abs(g - 128) < 20 && b > 235, `  downsampling averages the checkerboard (rgb ${r},${g},${b})`);
+
+    const square = fitToSquare(source, 16);
+    const corner = square.data[3];
+    const center = square.data[(8 * 16 + 8) * 4 + 3];
+    assert(square.width === 16 && square.height === 16, `fitToSquare(16) → ${square.width}×${square.height}`);
+    assert(corner === 0 && center === 255, `  letterboxed with transparent padding (corner α=${corner}, centre α=${center})`);
+
+    const png = await encodeImage(source, "png");
+    const pngInfo = validateImage(png).info!;
+    const resized = await convertImage(png, pngInfo, "png", { size: 48 });
+    const decoded = await decodeImage(resized.buffer, resized.imageInfo);
+    assert(decoded.width === 48 && decoded.height === 48, `PNG resized on disk to ${decoded.width}×${decoded.height}`);
+
+    const icon = await createIcon(png, pngInfo, [16, 32, 64]);
+    const entries = icon.buffer.readUInt16LE(4);
+    assert(icon.imageInfo.format === "ICO" && entries === 3, `Multi-size ICO → ${entries} entries`);
+
+    const oversized = await createIcon(png, pngInfo, [512]).catch((err: Error) => err.message);
+    assert(typeof oversized === "string" && oversized.includes("256px"), `ICO > 256px rejected`);
+}
+
+// ─── Test: Candidate Scoring ─────────────────────────────────────────────────
+
+function testCandidateScoring(): void {
+    section("🏅 Candidate Scoring");
+
+    const info = (overrides: Partial<ImageInfo>): ImageInfo => ({
+        format: "PNG",
+        extension: "png",
+        mimeType: "image/png",
+        sizeBytes: 8000,
+        isValid: true,
+        isSvg: false,
+        ...overrides,
+    });
+
+    const favicon = scoreLogo(info({ format: "ICO", width: 16, height: 16, bitDepth: 32, hasAlpha: true, sizeBytes: 1150 }), 256);
+    const touchIcon = scoreLogo(info({ width: 180, height: 180, bitDepth: 32, hasAlpha: true, sizeBytes: 9000 }), 256);
+    const clearbit = scoreLogo(info({ width: 512, height: 512, bitDepth: 24, hasAlpha: false, sizeBytes: 20000 }), 256);
+    const svg = scoreLogo(info({ format: "SVG", isSvg: true, width: 120, height: 40, hasAlpha: true, sizeBytes: 3000 }), 256);
+    const banner = scoreLogo(info({ width: 1024, height: 128, hasAlpha: true, sizeBytes: 30000 }), 256);
+
+    assert(touchIcon.total > favicon.total, `180px apple-touch-icon (${touchIcon.total}) beats 16px favicon (${favicon.total})`);
+    assert(clearbit.breakdown.resolution === 40, `512px PNG gets full resolution points at 256px target`);
+    assert(svg.breakdown.format > clearbit.breakdown.format, `SVG format points (${svg.breakdown.format}) > PNG (${clearbit.breakdown.format})`);
+    assert(touchIcon.breakdown.aspectRatio > banner.breakdown.aspectRatio, `Square mark outscores 8:1 banner on aspect ratio`);
+    assert(favicon.total >= 0 && svg.total <= 100, `Scores stay within 0–100`);
+}
+
+// ─── Test: Homepage Discovery ────────────────────────────────────────────────
+
+function testHomepageDiscovery(): void {
+    section("🏠 Homepage Discovery");
+
+    const html = `<!DOCTYPE html>
+<html><head>
+  <link rel="icon" href="/favicon.ico">
+  <link rel="icon" type="image/png" sizes="32x32" href="favicon-32.png">
+  <link rel="apple-touch-icon" sizes="180x180" href="//cdn.acme.io/touch.png">
+  <link rel="mask-icon" href="/safari-pinned.svg" color="#000">
+  <link rel="manifest" href="/site.webmanifest">
+  <meta property="og:image" content="https://acme.io/og-card.jpg">
+  <script type="application/ld+json">
+    {"@context": "https://schema.org", "@graph": [{"@type": "Organization", "logo": {"@type": "ImageObject", "url": "/brand/logo.png"}}]}
+  </script>
+  <script type="application/ld+json">{ not json </script>
+</head><body>
+  <header class="site-header">
+    <a href="/" class="navbar-logo"><svg viewBox="0 0 100 20"><path d="M0 0h100v20H0z"/></svg></a>
+    <img src="/img/acme-logo.svg" alt="Acme">
+    <img src="/img/hero.png" alt="Team photo">
+  </header>
+</body></html>`;
+
+    const { candidates, manifestUrl } = extractLogoCandidates(html, "https://www.acme.io/en/");
+    const urls = candidates.map((c) => c.url);
+
+    assert(urls.includes("https://www.acme.io/favicon.ico"), `Root-relative icon resolved`);
+    assert(urls.includes("https://www.acme.io/en/favicon-32.png"), `Path-relative icon resolved against page URL`);
+    assert(urls.includes("https://cdn.acme.io/touch.png"), `Protocol-relative apple-touch-icon resolved`);
+    assert(candidates.some((c) => c.kind === "mask-icon"), `mask-icon found`);
+    assert(candidates.some((c) => c.kind === "og:image"), `og:image found`);
+    assert(candidates.some((c) => c.kind === "json-ld" && c.url === "https://www.acme.io/brand/logo.png"), `JSON-LD Organization.logo found in @graph`);
+    assert(candidates.some((c) => c.kind === "header-img" && c.url.endsWith("acme-logo.svg")), `Header <img> with "logo" in src found`);
+    assert(!urls.some((u) => u.endsWith("hero.png")), `Unrelated header image ignored`);
+
+    const inlineSvg = candidates.find((c) => c.kind === "inline-svg");
+    const svgMarkup = inlineSvg?.inline?.toString("utf-8") ?? "";
+    assert(svgMarkup.startsWith("<svg") && svgMarkup.includes('xmlns="http://www.w3.org/2000/svg"'), `Inline header <svg> serialized as a standalone SVG`);
+    assert(candidates[0].kind === "json-ld", `Candidates ordered with dedicated brand marks first (${candidates[0].kind})`);
+    assert(manifestUrl === "https://www.acme.io/site.webmanifest", `Manifest link resolved`);
+
+    const icons = extractManifestIcons(
+        { icons: [{ src: "icons/512.png", sizes: "512x512" }, { src: 42 }] },
+        "https://www.acme.io/site.webmanifest"
+    );
+    assert(icons.length === 1 && icons[0].url === "https://www.acme.io/icons/512.png" && icons[0].declaredSize === 512, `Manifest icons resolved against manifest URL`);
+
+    const based = extractLogoCandidates(`<head><base href="https://static.acme.io/"><link rel="icon" href="fav.png"></head>`, "https://acme.io/");
+    assert(based.candidates[0]?.url === "https://static.acme.io/fav.png", `<base href> respected`);
+}
+
+// ─── Test: Source Registry ───────────────────────────────────────────────────
+
+async function testSourceRegistry(): Promise<void> {
+    section("🔌 Source Registry");
+
+    const builtins = listSources().map((s) => s.id);
+    assert(builtins.join(",") === "clearbit,google-favicon,duckduckgo,homepage,direct-favicon", `Built-in order: ${builtins.join(" → ")}`);
+
+    // A local stub source that fails once, then succeeds
+    const png = await encodeImage({ width: 32, height: 32, data: new Uint8Array(32 * 32 * 4).fill(200) }, "png");
+    let calls = 0;
+    let seenSettings: { apiKey?: string; headers: Record<string, string> } | undefined;
+    registerSource(
+        {
+            id: "Local Stub",
+            name: "Local Stub",
+            fetch: async (input, _px, settings) => {
+                calls++;
+                seenSettings = settings;
+                if (calls === 1) throw new Error("transient failure");
+                return { buffer: png, imageInfo: validateImage(png).info!, source: "Local Stub", sourceUrl: `stub://${input}` };
+            },
+        },
+        { before: "google-favicon" }
+    );
+
+    try {
+        assert(listSources()[1]?.id === "local-stub", `registerSource({ before }) inserts at position 2 with a normalized id`);
+
+        setSourceOrder(["direct-favicon", "local-stub"]);
+        const order = listSources().map((s) => s.id);
+        assert(order[0] === "direct-favicon" && order[1] === "local-stub" && order[2] === "clearbit", `setSourceOrder moves listed sources first`);
+
+        loadSourceConfigFromEnv({
+            MCP_LOGO_DISABLED_SOURCES: "clearbit, Google Favicon,duckduckgo,homepage,direct-favicon",
+            MCP_LOGO_SOURCE_LOCAL_STUB_RETRIES: "2",
+            MCP_LOGO_SOURCE_LOCAL_STUB_API_KEY: "secret",
+        });
+        configureSource("local-stub", { retryDelayMs: 1, headers: { "X-Team": "brand" } });
+
+        const active = getActiveSources();
+        assert(active.length === 1 && active[0].id === "local-stub", `Env vars disable built-ins (${active.length} active)`);
+
+        const result = await fetchLogo("acme.io", "acme", "small");
+        assert(result.success && result.logo?.source === "Local Stub", `fetchLogo uses the registered source`);
+        assert(calls === 2 && result.attempts.length === 1, `Retry policy recovered from a transient failure (${calls} calls)`);
+        assert(seenSettings?.apiKey === "secret" && seenSettings.headers["X-Team"] === "brand", `Per-source API key and headers passed through`);
+
+        const keyed = { ...listSources()[0].settings, apiKey: "secret" };
+        const own = requestOptionsFor(keyed, "https://logo.clearbit.com/acme.io", "logo.clearbit.com");
+        const other = requestOptionsFor(keyed, "https://cdn.acme.io/logo.png", "logo.clearbit.com");
+        assert(own.headers?.Authorization === "Bearer secret" && !other.headers?.Authorization, `API keys only go to the source's own API host`);
+        assert(!requestOptionsFor(keyed, "https://acme.io/favicon.ico").headers?.Authorization, `  ...and never from sources without one`);
+
+        const badConfig = (() => {
+            try {
+                parseSourceConfig({ order: "clearbit", sources: { clearbit: { retries: -1, apiKey: 42 } } }, "sources.json");
+                return "no error";
+            } catch (err) {
+                return (err as Error).message;
+            }
+        })();
+        assert(/order/.test(badConfig) && /clearbit\.retries/.test(badConfig) && /clearbit\.apiKey/.test(badConfig), `Invalid source config files are rejected with every problem listed`);
+        assert(parseSourceConfig({ sources: { homepage: { timeoutMs: 5000 } } }, "sources.json").sources?.homepage.timeoutMs === 5000, `  ...and valid ones pass through`);
+
+        const invalid = (() => {
+            try {
+                setSourceOrder(["nope"]);
+                return "no error";
+            } catch (err) {
+                return (err as Error).message;
+            }
+        })();
+        assert(invalid.includes("nope"), `Unknown source ids are rejected (${invalid})`);
+    } finally {
+        unregisterSource("local-stub");
+        resetSourceConfig();
+        setSourceOrder(builtins);
+    }
+
+    assert(getActiveSources().length === builtins.length, `Registry restored after test`);
+}
+
+// ─── Test: Logo Cache ────────────────────────────────────────────────────────
+
+async function testLogoCache(): Promise<void> {
+    section("🗄️  Logo Cache");
+
+    const stubPng = async (shade: number) => {
+        const buffer = await encodeImage({ width: 48, height: 48, data: new Uint8Array(48 * 48 * 4).fill(shade) }, "png");
+        return { buffer, imageInfo: validateImage(buffer).info!, source: "Stub", sourceUrl: "stub://logo" };
+    };
+    const logoA = await stubPng(10);
+    const logoB = await stubPng(240);
+    await purgeCache(); // start empty — earlier sections also populate the cache
+
+    await storeLogo({ domain: "Acme.io", source: "stub", px: 64 }, { ...logoA, validators: { etag: '"v1"' } });
+    const hit = await getCachedLogo({ domain: "acme.io", source: "stub", px: 64 });
+    assert(hit?.fresh === true && hit.logo.buffer.equals(logoA.buffer), `Stored logo is served fresh (case-insensitive domain)`);
+    assert(hit?.logo.validators?.etag === '"v1"', `ETag kept for revalidation`);
+
+    // Access times from hits are batched into a later write
+    const indexFile = join(getCacheConfig().dir, "index.json");
+    const onDisk = async () => JSON.parse(await readFile(indexFile, "utf-8")).entries["acme.io|stub|64"].lastAccessedAt;
+    const written = await onDisk();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const again = await getCachedLogo({ domain: "acme.io", source: "stub", px: 64 });
+    assert((await onDisk()) === written, `Cache hits don't rewrite the index right away`);
+    await flushCache();
+    assert((await onDisk()) === again?.entry.lastAccessedAt && written !== again?.entry.lastAccessedAt, `  ...flushCache writes their access times`);
+
+    await storeLogo({ domain: "acme.io", source: "stub", px: 128 }, logoA);
+    let stats = await getCacheStats();
+    assert(stats.entries === 2 && stats.blobs === 1, `Identical images share one blob (${stats.entries} entries, ${stats.blobs} blob)`);
+
+    const { ttlMs } = stats;
+    configureCache({ ttlMs: 0 });
+    const stale = await getCachedLogo({ domain: "acme.io", source: "stub", px: 64 });
+    assert(stale !== null && !stale.fresh, `Entries past the TTL are returned as stale`);
+    assert((await purgeCache({ expiredOnly: true })) === 2, `purge(expiredOnly) removes stale entries`);
+    configureCache({ ttlMs });
+
+    // Cap the cache at ~1.5 images: storing a second distinct image evicts the least recently used one
+    const cap = logoA.imageInfo.sizeBytes + Math.floor(logoB.imageInfo.sizeBytes / 2);
+    configureCache({ maxBytes: cap });
+    await storeLogo({ domain: "old.io", source: "stub", px: 64 }, logoA);
+    await storeLogo({ domain: "new.io", source: "stub", px: 64 }, logoB);
+    const remaining = (await listCacheEntries()).map((e) => e.domain);
+    assert(remaining.length === 1 && remaining[0] === "new.io", `LRU eviction keeps the size cap (${remaining.join(", ")})`);
+    configureCache({ maxBytes: 100 * 1024 * 1024 });
+
+    // Replacing an entry deletes its old blob, and blobs no entry uses are swept when the index loads
+    const cacheDir = getCacheConfig().dir;
+    const blobDir = join(cacheDir, "blobs");
+    await purgeCache();
+    await storeLogo({ domain: "swap.io", source: "stub", px: 64 }, logoA);
+    await storeLogo({ domain: "swap.io", source: "stub", px: 64 }, logoB);
+    const swapped = await getCachedLogo({ domain: "swap.io", source: "stub", px: 64 });
+    assert((await readdir(blobDir)).length === 1 && swapped?.logo.buffer.equals(logoB.buffer) === true, `Storing a key again leaves only the new blob`);
+    await writeFile(join(blobDir, "orphan.png"), logoA.buffer);
+    configureCache({ dir: `${cacheDir}-elsewhere` });
+    configureCache({ dir: cacheDir });
+    const afterSweep = await getCacheStats();
+    assert(!(await readdir(blobDir)).includes("orphan.png") && afterSweep.blobs === 1, `Unindexed blobs are deleted when the index loads`);
+    await purgeCache({ domain: "swap.io" });
+
+    // fetchLogo serves repeat requests from the cache without calling the source
+    // (one that searches by name, like DuckDuckGo, so it's still cached by domain)
+    let calls = 0;
+    const builtins = listSources().map((s) => s.id);
+    registerSource({ id: "cache-stub", name: "Cache Stub", usesCompanyName: true, fetch: async () => (calls++, logoB) });
+    try {
+        for (const id of builtins) configureSource(id, { enabled: false });
+
+        const first = await fetchLogo("cached.io", "cached", "small");
+        const second = await fetchLogo("cached.io", "cached", "small");
+        assert(first.success && second.success && calls === 1, `Second fetch served from cache (${calls} source call)`);
+        assert(second.attempts[0]?.cached === "hit", `Attempt marked as a cache hit`);
+
+        await fetchLogo("cached.io", "cached", "small", { refresh: true });
+        assert(calls === 2, `refresh bypasses the cache`);
+    } finally {
+        unregisterSource("cache-stub");
+        resetSourceConfig();
+        setSourceOrder(builtins);
+    }
+
+    assert((await listCacheEntries("cached.io"))[0]?.query === "cached", `Name searches are cached under the domain, with the search term`);
+    assert((await purgeCache({ domain: "cached.io" })) === 1, `purge(domain) removes only that domain`);
+}
+
+// ─── Test: Placeholder Detection ─────────────────────────────────────────────
+
+async function testPlaceholderDetection(): Promise<void> {
+    section("🚫 Placeholder Detection");
+
+    // The ring plays the placeholder, the bars a real logo
+    const ringLarge = hashImage(drawShape(128, RING));
+    const ringSmall = hashImage(drawShape(32, RING));
+    const barsHash = hashImage(drawShape(128, BARS));
+    assert(hammingDistance("ff00", "0f01") === 5, `hammingDistance counts differing bits`);
+    assert(
+        hammingDistance(ringLarge.dhash, ringSmall.dhash) <= MAX_DHASH_DISTANCE &&
+            hammingDistance(ringLarge.phash, ringSmall.phash) <= MAX_PHASH_DISTANCE,
+        `Hashes survive resizing (dHash ${hammingDistance(ringLarge.dhash, ringSmall.dhash)}, pHash ${hammingDistance(ringLarge.phash, ringSmall.phash)} bits apart)`
+    );
+    assert(
+        hammingDistance(ringLarge.dhash, barsHash.dhash) > MAX_DHASH_DISTANCE * 3,
+        `Different images hash apart (dHash ${hammingDistance(ringLarge.dhash, barsHash.dhash)}, pHash ${hammingDistance(ringLarge.phash, barsHash.phash)} bits apart)`
+    );
+
+    // The bundled blocklist: a favicon-sized rendering of Shopify's stock icon
+    const bundled = getPlaceholderBlocklist().map((p) => p.name).join(", ");
+    assert(
+        ["Google", "WordPress", "Wix", "Squarespace", "Shopify", "GoDaddy", "nginx"].every((n) => bundled.includes(n)),
+        `Bundled blocklist covers the known platforms (${getPlaceholderBlocklist().length} entries)`
+    );
+    const shopifySvg = (await readFile(createRequire(import.meta.url).resolve("simple-icons/icons/shopify.svg"), "utf-8"))
+        .replace("<svg", `<svg fill="#7ab55c"`);
+    const shopifyIcon = await encodeImage(await rasterizeSvg(Buffer.from(shopifySvg), 48), "png");
+    const shopifyInfo = validateImage(shopifyIcon).info!;
+    const stock = await detectPlaceholder(shopifyIcon, shopifyInfo, "acme-store.com");
+    assert((stock ?? "").includes("Shopify default favicon"), `Stock platform icon rejected for other domains (${stock})`);
+    assert((await detectPlaceholder(shopifyIcon, shopifyInfo, "www.shopify.com")) === null, `Platform icons are accepted for the platform's own domain`);
+
+    const toLogo = async (size: number, inside: Shape, source: string) => {
+        const buffer = await encodeImage(drawShape(size, inside), "png");
+        return { buffer, imageInfo: validateImage(buffer).info!, source, sourceUrl: `stub://${source}` };
+    };
+    const placeholder = await toLogo(64, RING, "Placeholder Stub");
+    const real = await toLogo(64, BARS, "Real Stub");
+
+    const root = await mkdtemp(join(tmpdir(), "mcp-logo-placeholders-"));
+    const builtins = listSources().map((s) => s.id);
+    const saved = getPlaceholderConfig();
+    let placeholderCalls = 0;
+    registerSource({ id: "placeholder-stub", name: "Placeholder Stub", fetch: async () => (placeholderCalls++, placeholder) });
+    registerSource({ id: "real-stub", name: "Real Stub", fetch: async () => real });
+    try {
+        for (const id of builtins) configureSource(id, { enabled: false });
+        configureSource("placeholder-stub", { retries: 2, retryDelayMs: 1 });
+
+        const file = join(root, "placeholders.json");
+        await writeFile(file, JSON.stringify([{ name: "Test Ring", ...ringLarge }]));
+        loadPlaceholderConfigFromEnv({ MCP_LOGO_PLACEHOLDER_HASHES: file });
+        assert(getPlaceholderBlocklist().some((p) => p.name === "Test Ring"), `MCP_LOGO_PLACEHOLDER_HASHES adds blocklist entries`);
+
+        const result = await fetchLogo("placeholder.io", "placeholder", "small", { refresh: true });
+        const rejected = result.attempts.find((a) => a.source === "Placeholder Stub");
+        assert(
+            result.success && result.logo?.source === "Real Stub",
+            `Cascade skips the placeholder and continues (${result.logo?.source})`
+        );
+        assert(
+            (rejected?.error ?? "").includes('Placeholder image: matches "Test Ring"') && placeholderCalls === 1,
+            `Attempt records the match without retrying (${rejected?.error})`
+        );
+
+        loadPlaceholderConfigFromEnv({ MCP_LOGO_PLACEHOLDER_CHECK: "off" });
+        const unchecked = await fetchLogo("placeholder.io", "placeholder", "small", { refresh: true });
+        assert(unchecked.logo?.source === "Placeholder Stub", `MCP_LOGO_PLACEHOLDER_CHECK=off accepts placeholders`);
+
+        await writeFile(file, JSON.stringify([{ name: "Bad", dhash: "xyz", phash: ringLarge.phash }]));
+        const invalid = (() => {
+            try {
+                loadPlaceholderConfigFromEnv({ MCP_LOGO_PLACEHOLDER_HASHES: file });
+                return "no error";
+            } catch (err) {
+                return (err as Error).message;
+            }
+        })();
+        assert(invalid.includes("entry 1"), `Malformed blocklist files are rejected (${invalid})`);
+    } finally {
+        unregisterSource("placeholder-stub");
+        unregisterSource("real-stub");
+        resetSourceConfig();
+        setSourceOrder(builtins);
+        configurePlaceholders(saved);
+        await purgeCache({ domain: "placeholder.io" });
+        await rm(root, { recursive: true, force: true });
+    }
+}
+
+// ─── Test: Logo Deduplication ────────────────────────────────────────────────
+
+async function testLogoDedup(): Promise<void> {
+    section("👯 Logo Deduplication");
+
+    const flat = await encodeImage({ width: 64, height: 64, data: new Uint8Array(64 * 64 * 4).fill(200) }, "png");
+    const flatHashes = await hashLogo(flat, validateImage(flat).info!);
+    assert(flatHashes !== null && isLowDetail(flatHashes), `Flat images are low detail (dHash ${flatHashes?.dhash})`);
+
+    const ring = hashImage(drawShape(128, RING));
+    const duplicates = findDuplicateLogos([
+        { company: "parent", hashes: ring },
+        { company: "subsidiary", hashes: hashImage(drawShape(48, RING)) },
+        { company: "other", hashes: hashImage(drawShape(128, BARS)) },
+        { company: "blank a", hashes: flatHashes },
+        { company: "blank b", hashes: flatHashes },
+    ]);
+    assert(
+        duplicates.get("parent")?.[0]?.company === "subsidiary" && duplicates.get("subsidiary")?.[0]?.company === "parent",
+        `Identical logos at different sizes are paired (${describeDuplicate(duplicates.get("parent")![0])})`
+    );
+    assert(!duplicates.has("other") && !duplicates.has("blank a"), `Different and low-detail logos are not flagged`);
+
+    const dir = await mkdtemp(join(tmpdir(), "mcp-logo-dedup-"));
+    try {
+        await writeFile(join(dir, "parent--64.png"), await encodeImage(drawShape(64, RING), "png"));
+        await writeFile(join(dir, "parent--256.png"), await encodeImage(drawShape(256, RING), "png"));
+        await writeFile(join(dir, "other.png"), await encodeImage(drawShape(64, BARS), "png"));
+        const files = (await listAssetFiles(dir)).map((f) => ({ company: f.company, path: join(dir, f.filename) }));
+
+        const found = await findAssetDuplicates(ring, files, ["subsidiary"]);
+        assert(
+            found.length === 1 && found[0].company === "parent" && found[0].file?.endsWith("parent--256.png") === true,
+            `Assets directory match reported once per company (${found.map((d) => d.file).join(", ")})`
+        );
+        assert((await findAssetDuplicates(ring, files, ["parent"])).length === 0, `Excluded companies are not compared`);
+    } finally {
+        await rm(dir, { recursive: true, force: true });
+    }
+
+    const agreeing = findSourceDisagreement([
+        { source: "Clearbit", hashes: ring },
+        { source: "Google Favicon", hashes: hashImage(drawShape(32, RING)) },
+    ]);
+    assert(agreeing === null, `Sources returning the same logo agree`);
+    const disagreement = findSourceDisagreement([
+        { source: "Clearbit", hashes: ring },
+        { source: "Homepage Discovery", hashes: hashImage(drawShape(128, BARS)) },
+        { source: "Direct Favicon", hashes: flatHashes },
+    ]);
+    assert(
+        disagreement?.disagreeing.length === 1 && disagreement.disagreeing[0].source === "Homepage Discovery",
+        `Unrelated source logos are reported (${disagreement && describeDisagreement(disagreement)})`
+    );
+}
+
+// ─── Test: Brand Colors ──────────────────────────────────────────────────────
+
+async function testBrandColors(): Promise<void> {
+    section("🎨 Brand Colors");
+
+    // 100×100: a navy block (60%), an orange block (20%), white background (10%), transparent (10%)
+    const image = { width: 100, height: 100, data: new Uint8Array(100 * 100 * 4) };
+    for (let y = 0; y < 100; y++) {
+        for (let x = 0; x < 100; x++) {
+            const color = y < 60 ? [10, 37, 64, 255] : y < 80 ? [255, 140, 0, 255] : y < 90 ? [255, 255, 255, 255] : [0, 0, 0, 0];
+            image.data.set(color, (y * 100 + x) * 4);
+        }
+    }
+
+    const palette = extractPalette(image);
+    assert(
+        palette.colors.length === 2 && palette.primary === "#0a2540" && palette.colors[1].hex === "#ff8c00",
+        `Dominant colours found, most common first (${describePalette(palette)})`
+    );
+    assert(
+        palette.colors[0].proportion === 0.75 && palette.colors[1].proportion === 0.25,
+        `Proportions ignore white and transparent pixels (${palette.colors.map((c) => c.proportion).join(", ")})`
+    );
+    assert(
+        palette.textColor === "#ffffff" && palette.colors[1].textColor === "#000000" && palette.colors[0].contrast > 7,
+        `Contrasting text colour: white on navy (${palette.colors[0].contrast}:1), black on orange`
+    );
+    assert(contrastingTextColor({ r: 255, g: 255, b: 0 }).textColor === "#000000", `Black text on yellow`);
+
+    const white = await encodeImage({ width: 16, height: 16, data: new Uint8Array(16 * 16 * 4).fill(255) }, "png");
+    const empty = await extractLogoPalette(white, validateImage(white).info!);
+    assert(empty?.colors.length === 0 && empty.primary === undefined, `White-only logo has no brand colours`);
+
+    const svg = Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10"><rect width="10" height="10" fill="#635bff"/></svg>`);
+    const fromSvg = await extractLogoPalette(svg, validateImage(svg).info!);
+    assert(fromSvg?.primary === "#635bff", `SVG logos are rasterized for colours (${fromSvg?.primary})`);
+
+    // fetchLogo attaches the palette to the logo
+    const builtins = listSources().map((s) => s.id);
+    const png = await encodeImage(image, "png");
+    registerSource({
+        id: "palette-stub",
+        name: "Palette Stub",
+        fetch: async () => ({ buffer: png, imageInfo: validateImage(png).info!, source: "Palette Stub", sourceUrl: "stub://palette" }),
+    });
+    try {
+        for (const id of builtins) configureSource(id, { enabled: false });
+        const result = await fetchLogo("palette.io", "palette", "small", { refresh: true });
+        assert(result.logo?.palette?.primary === "#0a2540", `LogoResult carries the palette (${result.logo?.palette?.primary})`);
+    } finally {
+        unregisterSource("palette-stub");
+        resetSourceConfig();
+        setSourceOrder(builtins);
+        await purgeCache({ domain: "palette.io" });
+    }
+}
+
+// ─── Test: Logo Variants ─────────────────────────────────────────────────────
+
+async function testLogoVariants(): Promise<void> {
+    section("🧩 Logo Variants");
+
+    /** A width × height image, `color` where `inside` (0–1 coordinates) holds, transparent elsewhere. */
+    const paint = (width: number, height: number, inside: Shape, color: number[]) => {
+        const data = new Uint8Array(width * height * 4);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                if (inside((x + 0.5) / width, (y + 0.5) / height)) data.set(color, (y * width + x) * 4);
+            }
+        }
+        return { width, height, data };
+    };
+    const BAND: Shape = (x, y) => x > 0.05 && x < 0.95 && y > 0.4 && y < 0.6;
+
+    const blackRing = classifyImage(paint(64, 64, RING, [0, 0, 0, 255]));
+    assert(blackRing.join(",") === "icon,light,mono", `Black ring: square, for light backgrounds, mono (${blackRing.join(", ")})`);
+
+    const whiteBand = classifyImage(paint(100, 100, BAND, [255, 255, 255, 255]));
+    assert(
+        whiteBand.join(",") === "wordmark,full,dark,mono",
+        `Wide white mark in a square canvas: padding ignored, for dark backgrounds (${whiteBand.join(", ")})`
+    );
+
+    const navyTile = paint(64, 64, () => true, [10, 37, 64, 255]);
+    for (let y = 16; y < 48; y++) navyTile.data.fill(255, (y * 64 + 16) * 4, (y * 64 + 48) * 4);
+    const tileTraits = classifyImage(navyTile);
+    assert(tileTraits.join(",") === "icon,dark", `Opaque navy tile suits dark backgrounds, not mono (${tileTraits.join(", ")})`);
+
+    const info = toVariantInfo(blackRing, "dark");
+    assert(info.matched === false && describeVariant(info).startsWith("dark (no source had one"), `Requested variant checked against traits (${describeVariant(info)})`);
+
+    // Discovery hints
+    const html = `<!DOCTYPE html>
+<html><head>
+  <link rel="icon" href="/favicon.png">
+  <link rel="icon" media="(prefers-color-scheme: dark)" href="/favicon-dark.png">
+</head><body>
+  <header>
+    <picture>
+      <source media="(prefers-color-scheme: dark)" srcset="/img/logo-inverse.svg 1x">
+      <img src="/img/logo.svg" class="site-logo" alt="Acme">
+    </picture>
+    <img src="/img/acme-wordmark.svg" alt="Acme logo">
+  </header>
+</body></html>`;
+    const { candidates } = extractLogoCandidates(html, "https://acme.io/");
+    const first = (variant: "icon" | "wordmark" | "dark") => sortCandidates(candidates, variant)[0].url;
+    assert(first("dark") === "https://acme.io/img/logo-inverse.svg", `Dark variant prefers dark-hinted candidates (${first("dark")})`);
+    assert(
+        candidates.find((c) => c.url.endsWith("logo-inverse.svg"))?.hints?.includes("dark") === true,
+        `<picture> dark-mode source found and hinted`
+    );
+    assert(first("wordmark") === "https://acme.io/img/acme-wordmark.svg", `Wordmark variant prefers hinted header logos (${first("wordmark")})`);
+    assert(["icon", "apple-touch-icon", "manifest", "mask-icon"].includes(sortCandidates(candidates, "icon")[0].kind), `Icon variant prefers declared icons`);
+    const mono = extractManifestIcons({ icons: [{ src: "/m.png", sizes: "96x96", purpose: "monochrome" }] }, "https://acme.io/site.webmanifest");
+    assert(mono[0]?.hints?.includes("mono") === true, `Monochrome manifest icons hinted as mono`);
+
+    // Source steering and selection
+    const builtins = listSources().map((s) => s.id);
+    const ring = await encodeImage(paint(64, 64, RING, [0, 0, 0, 255]), "png");
+    const band = await encodeImage(paint(200, 60, (x, y) => x > 0.05 && x < 0.95 && y > 0.2 && y < 0.8, [255, 140, 0, 255]), "png");
+    const requested: Array<string | undefined> = [];
+    const stub = (id: string, png: Buffer, variants?: Array<"icon" | "wordmark">) => ({
+        id,
+        name: id,
+        variants,
+        fetch: async (_domain: string, _px: number, _settings: unknown, variant?: string) => {
+            requested.push(variant);
+            return { buffer: png, imageInfo: validateImage(png).info!, source: id, sourceUrl: `stub://${id}` };
+        },
+    });
+    registerSource(stub("ring-stub", ring));
+    registerSource(stub("band-stub", band, ["wordmark"]));
+    try {
+        for (const id of builtins) configureSource(id, { enabled: false });
+
+        const plain = await fetchLogo("variant.io", "variant", 64, { refresh: true });
+        assert(plain.logo?.source === "ring-stub" && plain.logo.variant?.requested === undefined, `Without a variant, the first source wins`);
+        assert(plain.logo?.variant?.traits.includes("icon") === true, `Every logo gets variant traits (${plain.logo?.variant?.traits.join(", ")})`);
+
+        const wordmark = await fetchLogo("variant.io", "variant", 64, { refresh: true, variant: "wordmark" });
+        assert(
+            wordmark.logo?.source === "band-stub" && wordmark.attempts.length === 1 && wordmark.logo.variant?.matched === true,
+            `Sources listing the variant are tried first (${wordmark.attempts.map((a) => a.source).join(", ")})`
+        );
+        assert(requested.at(-1) === "wordmark", `Sources receive the requested variant`);
+
+        const dark = await fetchLogo("variant.io", "variant", 64, { refresh: true, variant: "dark" });
+        assert(
+            dark.logo?.source === "band-stub" && dark.attempts.length === 2,
+            `Cascade skips logos that aren't the variant (${dark.attempts.map((a) => a.source).join(" → ")})`
+        );
+
+        const best = await fetchLogo("variant.io", "variant", 64, { refresh: true, strategy: "best", variant: "mono" });
+        assert(best.logo?.source === "ring-stub" && best.logo.variant?.matched === true, `"best" ranks matching logos first`);
+
+        configureSource("band-stub", { enabled: false });
+        const fallback = await fetchLogo("variant.io", "variant", 64, { refresh: true, variant: "wordmark" });
+        assert(
+            fallback.success && fallback.logo?.source === "ring-stub" && fallback.logo.variant?.matched === false,
+            `Without a matching source, the first logo is returned unmatched`
+        );
+
+        const entries = await listCacheEntries("variant.io");
+        assert(entries.some((e) => e.variant === "wordmark") && entries.some((e) => e.variant === undefined), `Cache entries are kept per variant`);
+    } finally {
+        unregisterSource("ring-stub");
+        unregisterSource("band-stub");
+        resetSourceConfig();
+        setSourceOrder(builtins);
+        await purgeCache({ domain: "variant.io" });
+    }
+
+    // Filenames
+    assert(sanitizeFilename("Adobe XD", "dark") === "adobe_xd--dark" && sanitizeFilename("Adobe XD") === "adobe_xd", `Variant-suffixed filenames`);
+    const parsed = parseAssetFilename("adobe_xd--dark--64.png");
+    assert(parsed.company === "adobe_xd" && parsed.variant === "dark" && parsed.px === 64, `Asset filenames parse the variant and size`);
+
+    // A company named like another's variant keeps its own file
+    const acmeDark = parseAssetFilename(`${sanitizeFilename("Acme Dark")}.png`);
+    const acmeVariant = parseAssetFilename(`${sanitizeFilename("Acme", "dark")}.png`);
+    assert(
+        acmeDark.filename !== acmeVariant.filename && acmeDark.company === "acme_dark" && acmeDark.variant === undefined &&
+            acmeVariant.company === "acme" && acmeVariant.variant === "dark",
+        `"Acme Dark" (${acmeDark.filename}) and Acme's dark variant (${acmeVariant.filename}) round-trip apart`
+    );
+}
+
+// ─── Test: Offline Mode & Logo Pack ──────────────────────────────────────────
+
+async function testOfflineMode(): Promise<void> {
+    section("✈️  Offline Mode & Logo Pack");
+
+    const png = await encodeImage({ width: 40, height: 40, data: new Uint8Array(40 * 40 * 4).fill(120) }, "png");
+    const logo = { buffer: png, imageInfo: validateImage(png).info!, source: "Clearbit", sourceUrl: "https://logo.clearbit.com/stripe.com" };
+    const packRoot = await mkdtemp(join(tmpdir(), "mcp-logo-pack-"));
+    const packDir = join(packRoot, "pack");
+    const packArchive = join(packRoot, "pack.tar.gz");
+
+    await writeLogoPack(packDir, [{ company: "stripe", domain: "stripe.com", logo }], 256);
+    await writeLogoPack(packArchive, [{ company: "adobe xd", domain: "adobe.com", logo }], 256);
+
+    const archived = await loadLogoPack(packArchive);
+    assert(archived.manifest.entries["adobe xd"]?.file === "adobe_xd.png", `Archive pack manifest read back (${Object.keys(archived.manifest.entries).join(", ")})`);
+    assert((await archived.readFile("adobe_xd.png")).equals(png), `Archive pack image bytes intact`);
+
+    const colliding = await writeLogoPack(join(packRoot, "colliding"), [
+        { company: "Foo Bar", domain: "foobar.com", logo },
+        { company: "foo-bar", domain: "foo-bar.io", logo },
+    ], 256);
+    const collidingFiles = Object.values(colliding.entries).map((e) => e.file);
+    assert(collidingFiles.join(",") === "foo_bar.png,foo_bar_2.png", `Colliding pack filenames are numbered (${collidingFiles.join(", ")})`);
+    const duplicate = await writeLogoPack(join(packRoot, "duplicate"), [
+        { company: "stripe", domain: "stripe.com", logo },
+        { company: "Stripe", domain: "stripe.com", logo },
+    ], 256).then(() => "no error", (err: Error) => err.message);
+    assert(duplicate.includes("Duplicate company"), `The same company twice is rejected (${duplicate})`);
+
+    for (const [i, file] of ["../outside.png", "/etc/passwd", "nested/../../outside.png", "C:\\logo.png"].entries()) {
+        const evilDir = join(packRoot, `evil-${i}`);
+        await mkdir(evilDir, { recursive: true });
+        await writeFile(join(evilDir, "manifest.json"), JSON.stringify({ version: 1, createdAt: "", px: 256, entries: { evil: { file, domain: "evil.io", source: "x", sourceUrl: "x" } } }));
+        const opened = await loadLogoPack(evilDir).then(() => "opened", (err: Error) => err.message);
+        assert(opened.includes("outside the pack"), `Manifest file ${JSON.stringify(file)} outside the pack is rejected`);
+    }
+
+    try {
+        configureOffline({ enabled: true, packPath: packDir });
+
+        const started = Date.now();
+        const unknown = await resolveDomain("zzyzx widgets");
+        assert(unknown.confidence === "inferred" && Date.now() - started < 1000, `Offline resolveDomain skips live search (${unknown.confidence})`);
+
+        const hit = await fetchLogo("stripe.com", "stripe", "large");
+        assert(hit.success && hit.logo?.buffer.equals(png) === true, `Offline fetchLogo reads the pack`);
+        assert(hit.logo?.source === "Logo Pack (Clearbit)" && hit.attempts.length === 1, `Pack attempt recorded (${hit.logo?.source})`);
+
+        const miss = await fetchLogo("github.com", "github", "large");
+        assert(!miss.success && (miss.error ?? "").includes("not in the logo pack"), `Missing companies fail without network (${miss.error})`);
+
+        configureOffline({ packPath: packArchive });
+        const byDomain = await fetchLogo("adobe.com", "adobe", "large");
+        assert(byDomain.success, `Archive pack lookup falls back to the domain`);
+    } finally {
+        configureOffline({ enabled: false, packPath: undefined });
+        await rm(packRoot, { recursive: true, force: true });
+    }
+}
+
+// ─── Test: Structured Output ─────────────────────────────────────────────────
+
+async function testStructuredOutput(): Promise<void> {
+    section("🧾 Structured Output");
+
+    const resolved = await resolveDomain("stripe");
+    const png = await encodeImage({ width: 40, height: 40, data: new Uint8Array(40 * 40 * 4).fill(90) }, "png");
+    const info = validateImage(png).info!;
+
+    const output = {
+        success: true,
+        input: "Stripe",
+        resolved: toResolvedOutput({ ...resolved, extra: "internal" } as typeof resolved),
+        files: [{ path: "/tmp/stripe.png", imageInfo: toImageInfoOutput(info) }],
+        source: "Clearbit",
+        sourceUrl: "https://logo.clearbit.com/stripe.com",
+        sourceImage: toImageInfoOutput(info),
+        attempts: toAttemptsOutput([{ source: "Clearbit", url: "https://logo.clearbit.com/stripe.com", success: true, durationMs: 12, cached: "hit" }]),
+    };
+
+    const parsed = downloadLogoOutputSchema.safeParse(output);
+    assert(parsed.success, `download_logo output matches its schema${parsed.success ? "" : `: ${parsed.error.message}`}`);
+    assert(!("extra" in output.resolved), `Converters copy only schema fields`);
+    assert(output.files[0].imageInfo.width === 40 && output.attempts[0].cached === "hit", `ImageInfo and cache flags carried over`);
+
+    const invalid = downloadLogoOutputSchema.safeParse({ ...output, resolved: { ...output.resolved, confidence: "guess" } });
+    assert(!invalid.success, `Unknown confidence levels are rejected`);
+}
+
+// ─── Test: Company Database Files ────────────────────────────────────────────
+
+async function testCompanyDatabaseFiles(): Promise<void> {
+    section("🗃️  Company Database Files");
+
+    const dir = await mkdtemp(join(tmpdir(), "logo-companydb-"));
+    const jsonFile = join(dir, "partners.json");
+    const yamlFile = join(dir, "overrides.yaml");
+    const builtinCount = getCompanyCount();
+
+    try {
+        await writeFile(jsonFile, JSON.stringify({
+            companies: { "Acme Corp": { domain: "acme.io", aliases: ["acme"], category: "Partners" } },
+        }));
+        await writeFile(yamlFile, [
+            "companies:",
+            "  stripe:",
+            "    domain: stripe.example",
+            "    category: Payments",
+            "remove: [godot]",
+        ].join("\n"));
+
+        configureCompanyDatabase([jsonFile, yamlFile]);
+
+        const acme = await resolveDomain("acme", { offline: true });
+        assert(acme.domain === "acme.io" && acme.confidence === "alias", `File entry resolves by alias (${acme.domain})`);
+        assert((await resolveDomain("acme corp", { offline: true })).confidence === "exact", `File entry names are normalized like built-ins`);
+        assert(getCompany("stripe")?.domain === "stripe.example", `YAML entry overrides the built-in entry`);
+        assert(getCompany("godot") === null, `remove deletes built-in entries`);
+        assert(getCompanyCount() === builtinCount, `Count reflects one addition and one removal`);
+        assert(getCategories().includes("Partners"), `getCategories includes file categories`);
+        assert(searchCompanies("", { category: "Partners" })[0]?.name === "acme corp", `searchCompanies sees file entries`);
+
+        // Hot reload
+        const before = getCompanyDatabaseGeneration();
+        await writeFile(yamlFile, "companies: {}\n");
+        for (let i = 0; i < 40 && getCompanyDatabaseGeneration() === before; i++) {
+            await new Promise((r) => setTimeout(r, 50));
+        }
+        assert(getCompany("stripe")?.domain === "stripe.com" && getCompany("godot") !== null, `Changed file is reloaded`);
+
+        const reloaded = getCompanyDatabaseGeneration();
+        await writeFile(jsonFile, JSON.stringify({ companies: { acme: { domain: "https://acme.io" } } }));
+        for (let i = 0; i < 40 && !getCompanyDatabaseStatus()[0].error; i++) {
+            await new Promise((r) => setTimeout(r, 50));
+        }
+        const status = getCompanyDatabaseStatus()[0];
+        assert(!!status.error && getCompanyDatabaseGeneration() === reloaded, `Invalid reload is reported...`);
+        assert(getCompany("acme corp")?.domain === "acme.io", `...and the previous contents stay in effect`);
+
+        let rejected = "";
+        try {
+            configureCompanyDatabase([jsonFile]);
+        } catch (err) {
+            rejected = err instanceof Error ? err.message : String(err);
+        }
+        assert(/companies\.acme\.domain/.test(rejected) && /companies\.acme\.category/.test(rejected), `Schema errors name each field`);
+    } finally {
+        configureCompanyDatabase([]);
+        await rm(dir, { recursive: true, force: true });
+    }
+    assert(getCompany("godot") !== null && getCompany("acme corp") === null, `Clearing the files restores the built-in database`);
+}
+
+// ─── Test: Company Editing ───────────────────────────────────────────────────
+
+async function testCompanyEditing(): Promise<void> {
+    section("✏️  Company Editing (User Layer)");
+
+    const dir = await mkdtemp(join(tmpdir(), "logo-userdb-"));
+    const userFile = join(dir, "companies.json");
+    const rejects = async (action: () => Promise<unknown>, pattern: RegExp) =>
+        action().then(() => "", (err: Error) => err.message).then((message) => pattern.test(message));
+
+    try {
+        configureUserDatabase(userFile);
+
+        const added = await addCompany("Initech", { domain: "Initech.com", aliases: ["initech corp"], category: "Partners" });
+        assert(added.name === "initech" && added.domain === "initech.com", `add_company normalizes name and domain`);
+        assert((await resolveDomain("initech corp", { offline: true })).domain === "initech.com", `Added alias resolves`);
+
+        assert(await rejects(() => addCompany("initech", { domain: "initech.com", category: "Partners" }), /already in the database/), `Duplicate names are rejected`);
+        assert(await rejects(() => addCompany("Hooli", { domain: "hooli", category: "Partners" }), /domain/), `Malformed domains are rejected`);
+        assert(await rejects(() => addCompany("Hooli", { domain: "hooli.xyz", aliases: ["stripe"], category: "Partners" }), /already the company "stripe"/), `Aliases colliding with a name are rejected`);
+        assert(await rejects(() => addCompany("Hooli", { domain: "hooli.xyz", aliases: ["gh"], category: "Partners" }), /belongs to "github"/), `Aliases colliding with an alias are rejected`);
+        assert(await rejects(() => addCompany("GH", { domain: "gh.io", category: "Partners" }), /alias of "github"/), `Names colliding with an alias are rejected`);
+
+        const { previous, company } = await updateCompany("box", { category: "Storage" });
+        assert(previous.category !== "Storage" && company.category === "Storage" && company.domain === "box.com", `update_company changes one field of a built-in`);
+
+        await removeCompany("godot");
+        await removeCompany("initech");
+        assert(getCompany("godot") === null && getCompany("initech") === null, `remove_company removes built-in and user entries`);
+
+        const exported = exportCompanyDatabase("user");
+        assert(Object.keys(exported.companies).join(",") === "box" && exported.remove.join(",") === "godot", `User export holds only the edits`);
+        assert(Object.keys(exportCompanyDatabase("merged").companies).length === getCompanyCount(), `Merged export holds every company`);
+
+        // Edits persist: reloading the user file gives the same database
+        configureUserDatabase(userFile);
+        assert(getCompany("box")?.category === "Storage" && getCompany("godot") === null, `User layer persists across reloads`);
+
+        await addCompany("godot", { domain: "godotengine.org", category: "DevTools" });
+        assert(getCompany("godot") !== null && exportCompanyDatabase("user").remove.length === 0, `Re-adding a removed company restores it`);
+    } finally {
+        configureUserDatabase(join(dir, "missing.json"));
+        await rm(dir, { recursive: true, force: true });
+    }
+}
+
+// ─── Test: Pinned Logos ──────────────────────────────────────────────────────
+
+async function testPinnedLogos(): Promise<void> {
+    section("📌 Pinned Logos");
+
+    const pins = [
+        { src: "/a/64.png", size: 64 },
+        { src: "/a/512.png", size: 512 },
+        { src: "/a/any.svg" },
+        { src: "/a/dark.png", size: 256, variant: "dark" },
+    ];
+    const order = (px: number, variant?: string) => selectPinnedLogos(pins, px, variant).map((p) => p.src).join(",");
+    assert(order(128) === "/a/512.png,/a/any.svg,/a/64.png", `Smallest covering size first, then any-size, then smaller`);
+    assert(order(32) === "/a/64.png,/a/512.png,/a/any.svg", `Covering sizes ascend`);
+    assert(order(128, "dark") === "/a/dark.png", `Variant picks only its own pins`);
+    assert(order(128, "icon") === order(128), `Variant without pins falls back to default`);
+
+    const dir = await mkdtemp(join(tmpdir(), "logo-pinned-"));
+    try {
+        const png = await encodeImage({ width: 48, height: 48, data: new Uint8Array(48 * 48 * 4).fill(200) }, "png");
+        await mkdir(join(dir, "logos"));
+        await writeFile(join(dir, "logos", "acme.png"), png);
+        await writeFile(join(dir, "db.yaml"), [
+            "companies:",
+            "  acme:",
+            "    domain: acme.io",
+            "    category: Partners",
+            "    logos:",
+            "      - { src: https://cdn.acme.io/dark.png, variant: dark }",
+            "      - { src: ./logos/acme.png }",
+        ].join("\n"));
+        configureCompanyDatabase([join(dir, "db.yaml")], { watch: false });
+
+        assert(getCompany("acme")?.logos?.[1].src === join(dir, "logos", "acme.png"), `Relative pin paths resolve against the database file`);
+
+        const result = await fetchLogo("acme.io", "acme", 128, { offline: true });
+        assert(result.success && result.logo?.pinned === true && result.logo.imageInfo.width === 48, `Pinned file is used before any source, even offline`);
+        assert(result.attempts.length === 1 && result.attempts[0].pinned === true, `Attempt is flagged as pinned`);
+
+        const dark = await fetchLogo("acme.io", "acme", 128, { offline: true, variant: "dark" });
+        assert(!dark.success && dark.attempts[0].pinned === true && /offline/.test(dark.attempts[0].error ?? ""), `Pinned URLs are skipped offline, then the pack is tried`);
+        assert(dark.attempts.some((a) => a.source === "Logo Pack"), `Falls through to the usual pipeline`);
+    } finally {
+        configureCompanyDatabase([]);
+        await rm(dir, { recursive: true, force: true });
+    }
+}
+
+// ─── Test: Asset Files ───────────────────────────────────────────────────────
+
+async function testAssetFiles(): Promise<void> {
+    section("📚 Asset Files (Resources)");
+
+    const sized = parseAssetFilename("adobe_xd--128.png");
+    assert(sized.company === "adobe_xd" && sized.px === 128 && sized.mimeType === "image/png", `Parses company and size suffix`);
+    const plain = parseAssetFilename("stripe.svg");
+    assert(plain.company === "stripe" && plain.px === undefined && plain.mimeType === "image/svg+xml", `Parses unsuffixed SVG`);
+    // A company whose name ends in a number keeps it, whatever the number
+    const web32 = parseAssetFilename(`${sanitizeFilename("Web 32")}.png`);
+    const webAt32 = parseAssetFilename(`${sanitizeFilename("Web")}${sizeSuffix(32)}.png`);
+    assert(
+        web32.company === "web_32" && web32.px === undefined && webAt32.company === "web" && webAt32.px === 32,
+        `"Web 32" (${web32.filename}) and Web at 32 px (${webAt32.filename}) round-trip apart`
+    );
+    const numbered = ["studio_2000.png", "area_51.png", "agent_007.png"].map(parseAssetFilename);
+    assert(
+        numbered.every((file) => file.px === undefined && file.company === file.filename.replace(/\.png$/, "")),
+        `Numbers in company names are not sizes (${numbered.map((f) => f.company).join(", ")})`
+    );
+
+    const dir = await mkdtemp(join(tmpdir(), "logo-assets-"));
+    try {
+        await writeFile(join(dir, "stripe.png"), "x");
+        await writeFile(join(dir, "github--64.ico"), "x");
+        await writeFile(join(dir, ".DS_Store"), "x");
+        const files = await listAssetFiles(dir);
+        assert(files.map((f) => f.filename).join(",") === "github--64.ico,stripe.png", `Lists sorted files, skipping hidden ones`);
+        assert((await listAssetFiles(join(dir, "missing"))).length === 0, `Missing directory lists as empty`);
+    } finally {
+        await rm(dir, { recursive: true, force: true });
+    }
+}
+
 // ─── Test: Logo Download (Live) ──────────────────────────────────────────────
 
 async function testLogoDownload(): Promise<void> {
@@ -171,6 +1624,16 @@ async function testLogoDownload(): Promise<void> {
             console.log(`    ${icon} ${attempt.source} (${attempt.durationMs}ms)${attempt.error ? ` — ${attempt.error}` : ""}`);
         }
     }
+
+    // Best-quality selection queries every source and ranks the results
+    console.log(`\n  Best-quality selection: github...`);
+    const best = await fetchLogo("github.com", "github", "large", { strategy: "best", timeBudgetMs: 15000 });
+    const scores = (best.candidates ?? []).map((c) => c.score.total);
+    assert(best.success === true && scores.length > 0, `github (best): ${scores.length} ranked candidates`);
+    assert(scores.every((score, i) => i === 0 || scores[i - 1] >= score), `github (best): candidates sorted by score`);
+    for (const line of summarizeCandidates(best.candidates ?? [])) {
+        console.log(`  ${line}`);
+    }
 }
 
 // ─── Run All Tests ───────────────────────────────────────────────────────────
@@ -178,10 +1641,37 @@ async function testLogoDownload(): Promise<void> {
 async function main() {
     console.log("🧪 MCP Logo Downloader — Smoke Test Suite\n");
 
+    // Keep the logo cache out of the home directory and start every run cold
+    const cacheDir = await mkdtemp(join(tmpdir(), "mcp-logo-cache-"));
+    configureCache({ dir: cacheDir });
+
     // Unit tests (no network)
     await testDomainResolution();
+    await testCandidateResolution();
+    await testNameMatching();
+    testCompanyIndex();
+    await testDomainVerification();
+    await testDomainInput();
     testCompanySearch();
     testImageValidation();
+    await testSvgSanitizer();
+    await testImageMetadata();
+    await testFormatConversion();
+    await testResizing();
+    testCandidateScoring();
+    testHomepageDiscovery();
+    await testSourceRegistry();
+    await testLogoCache();
+    await testPlaceholderDetection();
+    await testLogoDedup();
+    await testBrandColors();
+    await testLogoVariants();
+    await testOfflineMode();
+    await testStructuredOutput();
+    await testCompanyDatabaseFiles();
+    await testCompanyEditing();
+    await testPinnedLogos();
+    await testAssetFiles();
 
     // Integration test (requires network)
     await testLogoDownload();
@@ -193,6 +1683,8 @@ async function main() {
     console.log(`  📊 Total:  ${passed + failed}`);
     console.log();
 
+    await rm(cacheDir, { recursive: true, force: true });
+
     if (failed > 0) {
         console.error(`⚠️  ${failed} test(s) failed!`);
         process.exit(1);